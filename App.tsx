@@ -5,9 +5,12 @@ import { Button } from './components/ui/button';
 import { Card } from './components/ui/card';
 import { Badge } from './components/ui/badge';
 import { Toaster } from './components/ui/sonner';
-import { Settings, MessageSquare, Zap, Shield } from 'lucide-react';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from './components/ui/select';
+import { Settings, MessageSquare, Zap, Shield, Languages } from 'lucide-react';
+import { useI18n, locales, localeNames, Locale } from './components/i18n';
 
 export default function App() {
+  const { t, locale, setLocale } = useI18n();
   const [activeView, setActiveView] = useState<'dashboard' | 'settings'>('dashboard');
 
   return (
@@ -21,13 +24,13 @@ export default function App() {
                 <img src="/image.png" alt="Nardos Group" className="h-8 w-auto" />
                 <div>
                   <h1 className="text-lg font-semibold">Nardos Group</h1>
-                  <p className="text-xs text-gray-500">Asystent e‑mail (demo)</p>
+                  <p className="text-xs text-gray-500">{t('app.subtitle')}</p>
                 </div>
               </div>
               <Badge className="bg-green-100 text-green-800">DEMO</Badge>
             </div>
             
-            <nav className="flex gap-2">
+            <nav className="flex items-center gap-2">
               <Button
                 variant={activeView === 'dashboard' ? 'default' : 'ghost'}
                 size="sm"
@@ -35,7 +38,7 @@ export default function App() {
                 className="flex items-center gap-2"
               >
                 <MessageSquare className="h-4 w-4" />
-                Panel
+                {t('app.nav.dashboard')}
               </Button>
               <Button
                 variant={activeView === 'settings' ? 'default' : 'ghost'}
@@ -44,8 +47,19 @@ export default function App() {
                 className="flex items-center gap-2"
               >
                 <Settings className="h-4 w-4" />
-                Ustawienia
+                {t('app.nav.settings')}
               </Button>
+              <Select value={locale} onValueChange={(value) => setLocale(value as Locale)}>
+                <SelectTrigger className="w-32" aria-label={t('app.locale')}>
+                  <Languages className="h-4 w-4" />
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {locales.map((option) => (
+                    <SelectItem key={option} value={option}>{localeNames[option]}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
             </nav>
           </div>
         </div>
@@ -60,9 +74,9 @@ export default function App() {
       <div className="fixed bottom-4 right-4 flex flex-col items-end gap-3 max-w-sm">
         <Card className="bg-gray-50 border-gray-200 p-4">
           <div className="space-y-1">
-            <p className="text-sm font-medium text-gray-900">Wsparcie GP Group</p>
+            <p className="text-sm font-medium text-gray-900">{t('app.support.title')}</p>
             <p className="text-xs text-gray-600">
-              Aplikacja asystenta e‑mail jest dostarczana i wspierana przez GP Group.
+              {t('app.support.body')}
             </p>
           </div>
         </Card>
@@ -73,9 +87,9 @@ export default function App() {
               <Shield className="h-4 w-4 text-blue-600" />
             </div>
             <div>
-              <p className="text-sm font-medium text-blue-900 mb-1">Demo Aplikacji</p>
+              <p className="text-sm font-medium text-blue-900 mb-1">{t('app.demo.title')}</p>
               <p className="text-xs text-blue-700">
-                To jest demonstracyjna wersja aplikacji — niefunkcjonalna i przeznaczona wyłącznie do celów prezentacyjnych.
+                {t('app.demo.body')}
               </p>
             </div>
           </div>
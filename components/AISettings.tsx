@@ -9,71 +9,148 @@ import { Slider } from './ui/slider';
 import { Tabs, TabsContent, TabsList, TabsTrigger } from './ui/tabs';
 import { Badge } from './ui/badge';
 import { ScrollArea } from './ui/scroll-area';
-import { Settings, Brain, Database, MessageSquare, Save, Plus, X, Loader2 } from 'lucide-react';
-import { projectId, publicAnonKey, functionName } from '../utils/supabase/info';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from './ui/select';
+import { Checkbox } from './ui/checkbox';
+import { Settings, Brain, Database, MessageSquare, Save, Plus, X, Loader2, Pencil, History, Tag } from 'lucide-react';
+import { apiCall } from '../utils/api';
 import { toast } from 'sonner@2.0.3';
+import { KnowledgeHistory } from './KnowledgeHistory';
+import { PriceListEditor } from './PriceListEditor';
+import { AnalyticsCharts } from './AnalyticsCharts';
+import { CalibrationChart } from './CalibrationChart';
+import { KnowledgeChangelog } from './KnowledgeChangelog';
+import { TemplatePreview } from './TemplatePreview';
+import { DraftTone, draftTones } from './DraftVariantPicker';
+import { useI18n } from './i18n';
+
+type ProviderName = 'openai' | 'anthropic' | 'ollama' | 'fake';
+type ReplyLanguage = 'pl' | 'en' | 'de';
+
+const providers: ProviderName[] = ['openai', 'anthropic', 'ollama', 'fake'];
+const replyLanguages: ReplyLanguage[] = ['pl', 'en', 'de'];
 
 interface AIConfig {
   confidenceThreshold: number;
   autoResponse: boolean;
-  responseTemplate: string;
+  responseTemplates: Record<ReplyLanguage, string>;
+  signatures: Record<ReplyLanguage, string>;
   companyName: string;
   contactEmail: string;
+  autoResponseDelayMinutes: number;
+  provider: ProviderName;
+  model: string;
+  baseUrl?: string;
+  availability: Availability;
+  draftTones: DraftTone[];
+}
+
+interface Availability {
+  leadInWeeks: number;
+  earliestStartDate?: string;
+  bookedWeeks: Record<string, number>;
 }
 
+const WEEKS_PER_MONTH = 4;
+
+// The current month and the five after it, as YYYY-MM keys of the booking calendar
+const upcomingMonths = () => {
+  const now = new Date();
+  return Array.from({ length: 6 }, (_, offset) => {
+    const month = new Date(now.getFullYear(), now.getMonth() + offset, 1);
+    return {
+      key: `${month.getFullYear()}-${String(month.getMonth() + 1).padStart(2, '0')}`,
+      month
+    };
+  });
+};
+
 interface KnowledgeItem {
   id: string;
   title: string;
   content: string;
   createdAt?: string;
+  revision?: number;
+  updatedAt?: string;
+  updatedBy?: string;
 }
 
-interface LearningStats {
-  approved: number;
+// Name recorded as the author of knowledge base changes, remembered in the browser
+const EDITOR_NAME_KEY = 'knowledge-editor-name';
+
+interface StatsBucket {
+  total: number;
+  pending: number;
+  autoSent: number;
+  approvedUnchanged: number;
+  approvedEdited: number;
   rejected: number;
-  avgAccuracy: number;
-  totalProcessed: number;
+  approvalRate: number | null;
+  unchangedRate: number | null;
+  meanEditDistance: number | null;
+  meanConfidence: number | null;
+  meanFirstResponseHours: number | null;
+}
+
+interface LearningStats {
+  range: { from: string | null; to: string | null; groupBy: 'day' | 'week' | 'month' };
+  totals: StatsBucket;
+  byCategory: Record<'pricing' | 'timeline' | 'product' | 'general', StatsBucket>;
+  byTone: Partial<Record<DraftTone, StatsBucket>>;
+  byPeriod: (StatsBucket & { period: string })[];
+}
+
+interface CategoryAccuracy {
+  total: number;
+  correct: number;
+  accuracy: number | null;
+}
+
+interface CategoryStats {
+  overall: CategoryAccuracy;
+  byCategory: Record<'pricing' | 'timeline' | 'product' | 'general', CategoryAccuracy>;
 }
 
+interface EditReport {
+  editedCount: number;
+  averageRatio: number | null;
+  phrases: {
+    phrase: string;
+    count: number;
+    replacements: { text: string; count: number }[];
+  }[];
+}
+
+const categories: (keyof CategoryStats['byCategory'])[] = ['pricing', 'timeline', 'product', 'general'];
+
 export function AISettings() {
+  const { t, formatDate, formatDateTime, formatNumber } = useI18n();
   const [config, setConfig] = useState<AIConfig>({
     confidenceThreshold: 85,
     autoResponse: false,
-    responseTemplate: '',
+    responseTemplates: { pl: '', en: '', de: '' },
+    signatures: { pl: '', en: '', de: '' },
     companyName: '',
-    contactEmail: ''
+    contactEmail: '',
+    autoResponseDelayMinutes: 10,
+    provider: 'fake',
+    model: '',
+    availability: { leadInWeeks: 2, bookedWeeks: {} },
+    draftTones: []
   });
+  const [templateLanguage, setTemplateLanguage] = useState<ReplyLanguage>('pl');
+  const [availableFrom, setAvailableFrom] = useState<string | null>(null);
   const [knowledgeItems, setKnowledgeItems] = useState<KnowledgeItem[]>([]);
-  const [stats, setStats] = useState<LearningStats>({
-    approved: 0,
-    rejected: 0,
-    avgAccuracy: 0,
-    totalProcessed: 0
-  });
+  const [stats, setStats] = useState<LearningStats | null>(null);
+  const [statsRange, setStatsRange] = useState({ from: '', to: '' });
+  const [categoryStats, setCategoryStats] = useState<CategoryStats | null>(null);
+  const [editReport, setEditReport] = useState<EditReport | null>(null);
   const [loading, setLoading] = useState(true);
   const [saving, setSaving] = useState(false);
   const [newKnowledgeItem, setNewKnowledgeItem] = useState({ title: '', content: '' });
   const [showNewItem, setShowNewItem] = useState(false);
-
-  const apiCall = async (endpoint: string, options?: RequestInit) => {
-    const base = `https://${projectId}.supabase.co/functions/v1/${functionName}`;
-    const url = `${base}${endpoint}`;
-    const response = await fetch(url, {
-      ...options,
-      headers: {
-        'Content-Type': 'application/json',
-        'Authorization': `Bearer ${publicAnonKey}`,
-        ...options?.headers,
-      },
-    });
-    
-    if (!response.ok) {
-      const errorData = await response.json().catch(() => ({ error: 'Network error' }));
-      throw new Error(errorData.error || `HTTP error! status: ${response.status}`);
-    }
-    
-    return response.json();
-  };
+  const [editingItem, setEditingItem] = useState<KnowledgeItem | null>(null);
+  const [historyItemId, setHistoryItemId] = useState<string | null>(null);
+  const [editorName, setEditorName] = useState(() => localStorage.getItem(EDITOR_NAME_KEY) ?? '');
 
   const loadData = async () => {
     try {
@@ -84,6 +161,7 @@ export function AISettings() {
       if (configResponse.success) {
         setConfig(configResponse.data);
       }
+      await loadAvailability();
       
       // Load knowledge base
       const knowledgeResponse = await apiCall('/knowledge');
@@ -92,18 +170,56 @@ export function AISettings() {
       }
       
       // Load statistics
-      const statsResponse = await apiCall('/stats');
-      if (statsResponse.success) {
-        setStats(statsResponse.data);
+      await loadStats(statsRange);
+
+      const categoryStatsResponse = await apiCall('/stats/categories');
+      if (categoryStatsResponse.success) {
+        setCategoryStats(categoryStatsResponse.data);
+      }
+
+      const editReportResponse = await apiCall('/stats/edits');
+      if (editReportResponse.success) {
+        setEditReport(editReportResponse.data);
       }
     } catch (error) {
       console.error('Error loading data:', error);
-      toast.error('Błąd podczas ładowania danych');
+      toast.error(t('settings.toast.loadError'));
     } finally {
       setLoading(false);
     }
   };
 
+  const loadStats = async (range: { from: string; to: string }) => {
+    const params = new URLSearchParams();
+    if (range.from) params.set('from', range.from);
+    if (range.to) params.set('to', range.to);
+    try {
+      const response = await apiCall(`/stats?${params}`);
+      if (response.success) {
+        setStats(response.data);
+      }
+    } catch (error) {
+      console.error('Error loading stats:', error);
+      toast.error(t('settings.toast.statsError'));
+    }
+  };
+
+  const changeStatsRange = (range: { from: string; to: string }) => {
+    setStatsRange(range);
+    loadStats(range);
+  };
+
+  const loadAvailability = async () => {
+    const response = await apiCall('/availability');
+    if (response.success) {
+      setAvailableFrom(response.data.availableFrom);
+    }
+  };
+
+  const setAvailability = (availability: Partial<Availability>) => {
+    setConfig({ ...config, availability: { ...config.availability, ...availability } });
+  };
+
   const saveConfig = async () => {
     try {
       setSaving(true);
@@ -113,11 +229,12 @@ export function AISettings() {
       });
       
       if (response.success) {
-        toast.success('Konfiguracja została zapisana');
+        toast.success(t('settings.toast.saved'));
+        await loadAvailability();
       }
     } catch (error) {
       console.error('Error saving config:', error);
-      toast.error('Błąd podczas zapisywania konfiguracji');
+      toast.error(t('settings.toast.saveError', { error: (error as Error).message }));
     } finally {
       setSaving(false);
     }
@@ -128,22 +245,50 @@ export function AISettings() {
       try {
         const response = await apiCall('/knowledge', {
           method: 'POST',
-          body: JSON.stringify(newKnowledgeItem)
+          body: JSON.stringify({ ...newKnowledgeItem, author: editorName })
         });
         
         if (response.success) {
           setKnowledgeItems(prev => [...prev, response.data]);
           setNewKnowledgeItem({ title: '', content: '' });
           setShowNewItem(false);
-          toast.success('Element dodany do bazy wiedzy');
+          toast.success(t('settings.toast.knowledgeAdded'));
         }
       } catch (error) {
         console.error('Error adding knowledge item:', error);
-        toast.error('Błąd podczas dodawania elementu');
+        toast.error(t('settings.toast.knowledgeAddError'));
+      }
+    }
+  };
+
+  const replaceKnowledgeItem = (updated: KnowledgeItem) => {
+    setKnowledgeItems(prev => prev.map(item => item.id === updated.id ? updated : item));
+  };
+
+  const saveKnowledgeItem = async () => {
+    if (!editingItem || !editingItem.title || !editingItem.content) return;
+    try {
+      const response = await apiCall(`/knowledge/${editingItem.id}`, {
+        method: 'PUT',
+        body: JSON.stringify({ title: editingItem.title, content: editingItem.content, author: editorName })
+      });
+
+      if (response.success) {
+        replaceKnowledgeItem(response.data);
+        setEditingItem(null);
+        toast.success(t('settings.toast.knowledgeSaved'));
       }
+    } catch (error) {
+      console.error('Error updating knowledge item:', error);
+      toast.error(t('settings.toast.knowledgeSaveError'));
     }
   };
 
+  const updateEditorName = (name: string) => {
+    setEditorName(name);
+    localStorage.setItem(EDITOR_NAME_KEY, name);
+  };
+
   const removeKnowledgeItem = async (id: string) => {
     try {
       const response = await apiCall(`/knowledge/${id}`, {
@@ -152,11 +297,11 @@ export function AISettings() {
       
       if (response.success) {
         setKnowledgeItems(prev => prev.filter(item => item.id !== id));
-        toast.success('Element usunięty z bazy wiedzy');
+        toast.success(t('settings.toast.knowledgeRemoved'));
       }
     } catch (error) {
       console.error('Error removing knowledge item:', error);
-      toast.error('Błąd podczas usuwania elementu');
+      toast.error(t('settings.toast.knowledgeRemoveError'));
     }
   };
 
@@ -169,7 +314,7 @@ export function AISettings() {
       <div className="min-h-screen bg-gray-50 flex items-center justify-center">
         <div className="text-center">
           <Loader2 className="h-8 w-8 animate-spin mx-auto mb-4" />
-          <p>Ładowanie konfiguracji...</p>
+          <p>{t('settings.loading')}</p>
         </div>
       </div>
     );
@@ -179,23 +324,27 @@ export function AISettings() {
     <div className="min-h-screen bg-gray-50 p-6">
       <div className="mx-auto max-w-4xl">
         <div className="mb-8">
-          <h1 className="mb-2">Ustawienia AI Assistant</h1>
-          <p className="text-gray-600">Konfiguracja systemu automatycznych odpowiedzi</p>
+          <h1 className="mb-2">{t('settings.title')}</h1>
+          <p className="text-gray-600">{t('settings.subtitle')}</p>
         </div>
 
         <Tabs defaultValue="general" className="space-y-6">
-          <TabsList className="grid w-full grid-cols-3">
+          <TabsList className="grid w-full grid-cols-4">
             <TabsTrigger value="general" className="flex items-center gap-2">
               <Settings className="h-4 w-4" />
-              Ogólne
+              {t('settings.tabs.general')}
             </TabsTrigger>
             <TabsTrigger value="knowledge" className="flex items-center gap-2">
               <Database className="h-4 w-4" />
-              Baza wiedzy
+              {t('settings.tabs.knowledge')}
+            </TabsTrigger>
+            <TabsTrigger value="prices" className="flex items-center gap-2">
+              <Tag className="h-4 w-4" />
+              {t('settings.tabs.prices')}
             </TabsTrigger>
             <TabsTrigger value="training" className="flex items-center gap-2">
               <Brain className="h-4 w-4" />
-              Uczenie
+              {t('settings.tabs.training')}
             </TabsTrigger>
           </TabsList>
 
@@ -203,11 +352,11 @@ export function AISettings() {
             <div className="space-y-6">
               <Card>
                 <CardHeader>
-                  <CardTitle>Podstawowe ustawienia</CardTitle>
+                  <CardTitle>{t('settings.general.title')}</CardTitle>
                 </CardHeader>
                 <CardContent className="space-y-6">
                   <div className="space-y-2">
-                    <Label>Minimalny poziom pewności AI (%)</Label>
+                    <Label>{t('settings.general.threshold')}</Label>
                     <div className="px-3">
                       <Slider
                         value={[config.confidenceThreshold]}
@@ -224,15 +373,15 @@ export function AISettings() {
                       </div>
                     </div>
                     <p className="text-sm text-gray-500">
-                      Sugestie z niższym poziomem pewności będą wymagały ręcznej weryfikacji
+                      {t('settings.general.thresholdHint')}
                     </p>
                   </div>
 
                   <div className="flex items-center justify-between">
                     <div>
-                      <Label>Automatyczne odpowiedzi</Label>
+                      <Label>{t('settings.general.autoResponse')}</Label>
                       <p className="text-sm text-gray-500">
-                        Wysyłanie odpowiedzi z wysokim poziomem pewności bez weryfikacji
+                        {t('settings.general.autoResponseHint')}
                       </p>
                     </div>
                     <Switch
@@ -241,20 +390,96 @@ export function AISettings() {
                     />
                   </div>
 
+                  {config.autoResponse && (
+                    <div className="space-y-2">
+                      <Label htmlFor="auto-response-delay">{t('settings.general.autoResponseDelay')}</Label>
+                      <Input
+                        id="auto-response-delay"
+                        type="number"
+                        min={0}
+                        value={config.autoResponseDelayMinutes}
+                        onChange={(e) => setConfig({...config, autoResponseDelayMinutes: Math.max(0, Number(e.target.value))})}
+                      />
+                      <p className="text-sm text-gray-500">
+                        {t('settings.general.autoResponseDelayHint')}
+                      </p>
+                    </div>
+                  )}
+
                   <div className="space-y-2">
-                    <Label htmlFor="response-template">Szablon odpowiedzi</Label>
-                    <Textarea
-                      id="response-template"
-                      placeholder="Wprowadź podstawowy szablon odpowiedzi..."
-                      value={config.responseTemplate}
-                      onChange={(e) => setConfig({...config, responseTemplate: e.target.value})}
-                      rows={4}
-                    />
+                    <Label>{t('settings.general.tones')}</Label>
+                    <div className="grid grid-cols-2 gap-2">
+                      {draftTones.map((tone) => (
+                        <label key={tone} className="flex items-center gap-2 text-sm">
+                          <Checkbox
+                            checked={(config.draftTones ?? []).includes(tone)}
+                            onCheckedChange={(checked) => setConfig({
+                              ...config,
+                              draftTones: checked
+                                ? [...(config.draftTones ?? []), tone]
+                                : (config.draftTones ?? []).filter((item) => item !== tone)
+                            })}
+                          />
+                          {t(`tone.${tone}`)}
+                        </label>
+                      ))}
+                    </div>
+                    <p className="text-sm text-gray-500">
+                      {t('settings.general.tonesHint')}
+                    </p>
+                  </div>
+
+                  <div className="space-y-4">
+                    <div className="flex items-center justify-between">
+                      <div>
+                        <Label>{t('settings.general.templates')}</Label>
+                        <p className="text-sm text-gray-500">
+                          {t('settings.general.templatesHint')}
+                        </p>
+                      </div>
+                      <Select value={templateLanguage} onValueChange={(value) => setTemplateLanguage(value as ReplyLanguage)}>
+                        <SelectTrigger className="w-40">
+                          <SelectValue />
+                        </SelectTrigger>
+                        <SelectContent>
+                          {replyLanguages.map((language) => (
+                            <SelectItem key={language} value={language}>{t(`replyLanguage.${language}`)}</SelectItem>
+                          ))}
+                        </SelectContent>
+                      </Select>
+                    </div>
+                    <div className="space-y-2">
+                      <Label htmlFor="response-template">{t('settings.general.template')}</Label>
+                      <Textarea
+                        id="response-template"
+                        placeholder={t('settings.general.templatePlaceholder')}
+                        value={config.responseTemplates[templateLanguage] ?? ''}
+                        onChange={(e) => setConfig({
+                          ...config,
+                          responseTemplates: { ...config.responseTemplates, [templateLanguage]: e.target.value }
+                        })}
+                        rows={6}
+                      />
+                      <TemplatePreview template={config.responseTemplates[templateLanguage] ?? ''} language={templateLanguage} />
+                    </div>
+                    <div className="space-y-2">
+                      <Label htmlFor="signature">{t('settings.general.signature')}</Label>
+                      <Textarea
+                        id="signature"
+                        placeholder={t('settings.general.signaturePlaceholder')}
+                        value={config.signatures[templateLanguage] ?? ''}
+                        onChange={(e) => setConfig({
+                          ...config,
+                          signatures: { ...config.signatures, [templateLanguage]: e.target.value }
+                        })}
+                        rows={3}
+                      />
+                    </div>
                   </div>
 
                   <div className="grid grid-cols-2 gap-4">
                     <div className="space-y-2">
-                      <Label htmlFor="company-name">Nazwa firmy</Label>
+                      <Label htmlFor="company-name">{t('settings.general.companyName')}</Label>
                       <Input
                         id="company-name"
                         value={config.companyName}
@@ -262,7 +487,7 @@ export function AISettings() {
                       />
                     </div>
                     <div className="space-y-2">
-                      <Label htmlFor="contact-email">Email kontaktowy</Label>
+                      <Label htmlFor="contact-email">{t('settings.general.contactEmail')}</Label>
                       <Input
                         id="contact-email"
                         type="email"
@@ -276,23 +501,138 @@ export function AISettings() {
 
               <Card>
                 <CardHeader>
-                  <CardTitle>Status systemu</CardTitle>
+                  <CardTitle>{t('settings.model.title')}</CardTitle>
+                </CardHeader>
+                <CardContent className="space-y-6">
+                  <div className="space-y-2">
+                    <Label>{t('settings.model.provider')}</Label>
+                    <Select
+                      value={config.provider}
+                      onValueChange={(value) => setConfig({...config, provider: value as ProviderName})}
+                    >
+                      <SelectTrigger>
+                        <SelectValue />
+                      </SelectTrigger>
+                      <SelectContent>
+                        {providers.map((provider) => (
+                          <SelectItem key={provider} value={provider}>{t(`provider.${provider}`)}</SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                    <p className="text-sm text-gray-500">
+                      {t('settings.model.keysHint')}
+                    </p>
+                  </div>
+
+                  <div className="grid grid-cols-2 gap-4">
+                    <div className="space-y-2">
+                      <Label htmlFor="model">{t('settings.model.model')}</Label>
+                      <Input
+                        id="model"
+                        value={config.model}
+                        onChange={(e) => setConfig({...config, model: e.target.value})}
+                        placeholder={t('settings.model.modelPlaceholder')}
+                        disabled={config.provider === 'fake'}
+                      />
+                    </div>
+                    <div className="space-y-2">
+                      <Label htmlFor="base-url">{t('settings.model.baseUrl')}</Label>
+                      <Input
+                        id="base-url"
+                        value={config.baseUrl ?? ''}
+                        onChange={(e) => setConfig({...config, baseUrl: e.target.value})}
+                        placeholder={config.provider === 'ollama' ? 'http://localhost:11434' : t('settings.model.baseUrlPlaceholder')}
+                        disabled={config.provider === 'fake'}
+                      />
+                    </div>
+                  </div>
+                </CardContent>
+              </Card>
+
+              <Card>
+                <CardHeader>
+                  <CardTitle>{t('settings.availability.title')}</CardTitle>
+                </CardHeader>
+                <CardContent className="space-y-6">
+                  <div className="grid grid-cols-2 gap-4">
+                    <div className="space-y-2">
+                      <Label htmlFor="lead-in-weeks">{t('settings.availability.leadIn')}</Label>
+                      <Input
+                        id="lead-in-weeks"
+                        type="number"
+                        min={0}
+                        value={config.availability.leadInWeeks}
+                        onChange={(e) => setAvailability({ leadInWeeks: Math.max(0, Math.round(Number(e.target.value))) })}
+                      />
+                    </div>
+                    <div className="space-y-2">
+                      <Label htmlFor="earliest-start">{t('settings.availability.earliestStart')}</Label>
+                      <Input
+                        id="earliest-start"
+                        type="date"
+                        value={config.availability.earliestStartDate ?? ''}
+                        onChange={(e) => setAvailability({ earliestStartDate: e.target.value || undefined })}
+                      />
+                    </div>
+                  </div>
+
+                  <div className="space-y-2">
+                    <Label>{t('settings.availability.bookedWeeks', { max: WEEKS_PER_MONTH })}</Label>
+                    <div className="grid grid-cols-3 gap-4">
+                      {upcomingMonths().map((month) => (
+                        <div key={month.key} className="space-y-1">
+                          <span className="text-sm text-gray-600">{formatDate(month.month, { month: 'long', year: 'numeric' })}</span>
+                          <Input
+                            type="number"
+                            min={0}
+                            max={WEEKS_PER_MONTH}
+                            value={config.availability.bookedWeeks[month.key] ?? 0}
+                            onChange={(e) => setAvailability({
+                              bookedWeeks: {
+                                ...config.availability.bookedWeeks,
+                                [month.key]: Math.min(WEEKS_PER_MONTH, Math.max(0, Math.round(Number(e.target.value))))
+                              }
+                            })}
+                          />
+                        </div>
+                      ))}
+                    </div>
+                  </div>
+
+                  {availableFrom && (
+                    <p className="text-sm text-gray-600">
+                      {t('settings.availability.availableFrom')}{' '}
+                      <span className="font-medium">
+                        {formatDate(`${availableFrom}T00:00:00`, { day: 'numeric', month: 'long', year: 'numeric' })}
+                      </span>
+                      {' '}{t('settings.availability.savedConfig')}
+                    </p>
+                  )}
+                </CardContent>
+              </Card>
+
+              <Card>
+                <CardHeader>
+                  <CardTitle>{t('settings.system.title')}</CardTitle>
                 </CardHeader>
                 <CardContent>
                   <div className="grid grid-cols-2 gap-6">
                     <div className="space-y-2">
                       <div className="flex items-center gap-2">
                         <div className="h-2 w-2 bg-green-500 rounded-full"></div>
-                        <span className="text-sm text-gray-600">Status AI</span>
+                        <span className="text-sm text-gray-600">{t('settings.system.aiStatus')}</span>
                       </div>
-                      <p className="font-medium">Aktywny</p>
+                      <p className="font-medium">{t('settings.system.active')}</p>
                     </div>
                     <div className="space-y-2">
                       <div className="flex items-center gap-2">
                         <div className="h-2 w-2 bg-blue-500 rounded-full"></div>
-                        <span className="text-sm text-gray-600">Model</span>
+                        <span className="text-sm text-gray-600">{t('settings.model.model')}</span>
                       </div>
-                      <p className="font-medium">GPT-4 Turbo</p>
+                      <p className="font-medium">
+                        {providers.includes(config.provider) ? t(`provider.${config.provider}`) : config.provider}
+                        {config.model && <span className="text-gray-500"> · {config.model}</span>}
+                      </p>
                     </div>
                   </div>
                 </CardContent>
@@ -304,49 +644,58 @@ export function AISettings() {
             <div className="space-y-6">
               <Card>
                 <CardHeader className="flex flex-row items-center justify-between">
-                  <CardTitle>Baza wiedzy o firmie</CardTitle>
+                  <CardTitle>{t('settings.knowledge.title')}</CardTitle>
                   <Button
                     size="sm"
                     onClick={() => setShowNewItem(true)}
                     disabled={showNewItem}
                   >
                     <Plus className="h-4 w-4 mr-1" />
-                    Dodaj element
+                    {t('settings.knowledge.add')}
                   </Button>
                 </CardHeader>
                 <CardContent>
+                  <div className="space-y-2 mb-4">
+                    <Label htmlFor="editor-name">{t('settings.knowledge.author')}</Label>
+                    <Input
+                      id="editor-name"
+                      value={editorName}
+                      onChange={(e) => updateEditorName(e.target.value)}
+                      placeholder={t('settings.knowledge.authorPlaceholder')}
+                    />
+                  </div>
                   <ScrollArea className="h-[500px]">
                     <div className="space-y-4">
                       {showNewItem && (
                         <Card className="border-blue-200 bg-blue-50">
                           <CardContent className="p-4 space-y-4">
                             <div className="space-y-2">
-                              <Label>Tytuł</Label>
+                              <Label>{t('settings.knowledge.itemTitle')}</Label>
                               <Input
                                 value={newKnowledgeItem.title}
                                 onChange={(e) => setNewKnowledgeItem({
                                   ...newKnowledgeItem,
                                   title: e.target.value
                                 })}
-                                placeholder="np. Cennik usług..."
+                                placeholder={t('settings.knowledge.titlePlaceholder')}
                               />
                             </div>
                             <div className="space-y-2">
-                              <Label>Treść</Label>
+                              <Label>{t('settings.knowledge.itemContent')}</Label>
                               <Textarea
                                 value={newKnowledgeItem.content}
                                 onChange={(e) => setNewKnowledgeItem({
                                   ...newKnowledgeItem,
                                   content: e.target.value
                                 })}
-                                placeholder="Wprowadź szczegółowe informacje..."
+                                placeholder={t('settings.knowledge.contentPlaceholder')}
                                 rows={4}
                               />
                             </div>
                             <div className="flex gap-2">
                               <Button size="sm" onClick={addKnowledgeItem}>
                                 <Save className="h-4 w-4 mr-1" />
-                                Zapisz
+                                {t('common.save')}
                               </Button>
                               <Button 
                                 size="sm" 
@@ -354,25 +703,82 @@ export function AISettings() {
                                 onClick={() => setShowNewItem(false)}
                               >
                                 <X className="h-4 w-4 mr-1" />
-                                Anuluj
+                                {t('common.cancel')}
                               </Button>
                             </div>
                           </CardContent>
                         </Card>
                       )}
 
-                      {knowledgeItems.map((item) => (
+                      {knowledgeItems.map((item) => editingItem?.id === item.id ? (
+                        <Card key={item.id} className="border-blue-200 bg-blue-50">
+                          <CardContent className="p-4 space-y-4">
+                            <div className="space-y-2">
+                              <Label>{t('settings.knowledge.itemTitle')}</Label>
+                              <Input
+                                value={editingItem.title}
+                                onChange={(e) => setEditingItem({ ...editingItem, title: e.target.value })}
+                              />
+                            </div>
+                            <div className="space-y-2">
+                              <Label>{t('settings.knowledge.itemContent')}</Label>
+                              <Textarea
+                                value={editingItem.content}
+                                onChange={(e) => setEditingItem({ ...editingItem, content: e.target.value })}
+                                rows={6}
+                              />
+                            </div>
+                            <div className="flex gap-2">
+                              <Button size="sm" onClick={saveKnowledgeItem}>
+                                <Save className="h-4 w-4 mr-1" />
+                                {t('common.saveChanges')}
+                              </Button>
+                              <Button
+                                size="sm"
+                                variant="outline"
+                                onClick={() => setEditingItem(null)}
+                              >
+                                <X className="h-4 w-4 mr-1" />
+                                {t('common.cancel')}
+                              </Button>
+                            </div>
+                          </CardContent>
+                        </Card>
+                      ) : (
                         <Card key={item.id}>
                           <CardHeader className="flex flex-row items-center justify-between pb-3">
-                            <h4 className="font-medium">{item.title}</h4>
-                            <Button
-                              size="sm"
-                              variant="outline"
-                              className="text-red-600 hover:bg-red-50"
-                              onClick={() => removeKnowledgeItem(item.id)}
-                            >
-                              <X className="h-4 w-4" />
-                            </Button>
+                            <div>
+                              <h4 className="font-medium">{item.title}</h4>
+                              {item.updatedAt && (
+                                <p className="text-xs text-gray-500">
+                                  {t('versions.version', { version: item.revision ?? 1 })} · {item.updatedBy} · {formatDateTime(item.updatedAt)}
+                                </p>
+                              )}
+                            </div>
+                            <div className="flex gap-2">
+                              <Button
+                                size="sm"
+                                variant="outline"
+                                onClick={() => setEditingItem(item)}
+                              >
+                                <Pencil className="h-4 w-4" />
+                              </Button>
+                              <Button
+                                size="sm"
+                                variant="outline"
+                                onClick={() => setHistoryItemId(item.id)}
+                              >
+                                <History className="h-4 w-4" />
+                              </Button>
+                              <Button
+                                size="sm"
+                                variant="outline"
+                                className="text-red-600 hover:bg-red-50"
+                                onClick={() => removeKnowledgeItem(item.id)}
+                              >
+                                <X className="h-4 w-4" />
+                              </Button>
+                            </div>
                           </CardHeader>
                           <CardContent>
                             <div className="rounded bg-gray-50 p-3">
@@ -386,67 +792,196 @@ export function AISettings() {
                 </CardContent>
               </Card>
             </div>
+
+            <KnowledgeHistory
+              itemId={historyItemId}
+              author={editorName}
+              onClose={() => setHistoryItemId(null)}
+              onReverted={replaceKnowledgeItem}
+            />
+          </TabsContent>
+
+          <TabsContent value="prices">
+            <PriceListEditor />
           </TabsContent>
 
           <TabsContent value="training">
             <div className="space-y-6">
               <Card>
                 <CardHeader>
-                  <CardTitle>Statystyki uczenia</CardTitle>
+                  <CardTitle>{t('settings.training.title')}</CardTitle>
                 </CardHeader>
-                <CardContent>
-                  <div className="grid grid-cols-3 gap-6">
-                    <div className="text-center">
-                      <p className="text-2xl font-semibold text-green-600">{stats.approved}</p>
-                      <p className="text-sm text-gray-600">Zaakceptowane odpowiedzi</p>
-                    </div>
-                    <div className="text-center">
-                      <p className="text-2xl font-semibold text-red-600">{stats.rejected}</p>
-                      <p className="text-sm text-gray-600">Odrzucone odpowiedzi</p>
+                <CardContent className="space-y-4">
+                  <div className="grid grid-cols-2 gap-4">
+                    <div className="space-y-2">
+                      <Label htmlFor="statsFrom">{t('settings.training.from')}</Label>
+                      <Input
+                        id="statsFrom"
+                        type="date"
+                        value={statsRange.from}
+                        onChange={(e) => changeStatsRange({ ...statsRange, from: e.target.value })}
+                      />
                     </div>
-                    <div className="text-center">
-                      <p className="text-2xl font-semibold text-blue-600">{stats.avgAccuracy}%</p>
-                      <p className="text-sm text-gray-600">Średnia trafność</p>
+                    <div className="space-y-2">
+                      <Label htmlFor="statsTo">{t('settings.training.to')}</Label>
+                      <Input
+                        id="statsTo"
+                        type="date"
+                        value={statsRange.to}
+                        onChange={(e) => changeStatsRange({ ...statsRange, to: e.target.value })}
+                      />
                     </div>
                   </div>
+
+                  {!stats || stats.totals.total === 0 ? (
+                    <p className="text-sm text-gray-500">{t('settings.training.empty')}</p>
+                  ) : (
+                    <>
+                      <div className="grid grid-cols-4 gap-6">
+                        <div className="text-center">
+                          <p className="text-2xl font-semibold text-green-600">{stats.totals.approvedUnchanged}</p>
+                          <p className="text-sm text-gray-600">{t('settings.training.approvedUnchanged')}</p>
+                        </div>
+                        <div className="text-center">
+                          <p className="text-2xl font-semibold text-yellow-600">{stats.totals.approvedEdited}</p>
+                          <p className="text-sm text-gray-600">{t('settings.training.approvedEdited')}</p>
+                        </div>
+                        <div className="text-center">
+                          <p className="text-2xl font-semibold text-red-600">{stats.totals.rejected}</p>
+                          <p className="text-sm text-gray-600">{t('settings.training.rejected')}</p>
+                        </div>
+                        <div className="text-center">
+                          <p className="text-2xl font-semibold text-blue-600">
+                            {stats.totals.meanEditDistance === null ? '—' : formatNumber(stats.totals.meanEditDistance)}
+                          </p>
+                          <p className="text-sm text-gray-600">{t('settings.training.meanEditDistance')}</p>
+                        </div>
+                      </div>
+
+                      <div className="space-y-2">
+                        {categories.map((category) => {
+                          const entry = stats.byCategory[category];
+                          return (
+                            <div key={category} className="flex items-center justify-between p-3 bg-gray-50 rounded-lg">
+                              <p className="text-sm font-medium">{t(`category.${category}`)}</p>
+                              <p className="text-xs text-gray-600">
+                                {t('settings.training.outcomes', { unchanged: entry.approvedUnchanged, edited: entry.approvedEdited, rejected: entry.rejected })}
+                                {entry.meanEditDistance !== null && ` · ${t('settings.training.meanEdits', { distance: formatNumber(entry.meanEditDistance) })}`}
+                              </p>
+                            </div>
+                          );
+                        })}
+                      </div>
+
+                      {Object.keys(stats.byTone ?? {}).length > 0 && (
+                        <div className="space-y-2">
+                          <p className="text-sm font-medium">{t('settings.training.tones')}</p>
+                          {draftTones.filter((tone) => stats.byTone[tone]).map((tone) => {
+                            const entry = stats.byTone[tone]!;
+                            return (
+                              <div key={tone} className="flex items-center justify-between p-3 bg-gray-50 rounded-lg">
+                                <p className="text-sm font-medium">{t(`tone.${tone}`)}</p>
+                                <p className="text-xs text-gray-600">
+                                  {t('settings.training.chosen', { total: entry.total })} · {t('settings.training.outcomes', { unchanged: entry.approvedUnchanged, edited: entry.approvedEdited, rejected: entry.rejected })}
+                                </p>
+                              </div>
+                            );
+                          })}
+                        </div>
+                      )}
+                    </>
+                  )}
                 </CardContent>
               </Card>
 
+              <AnalyticsCharts from={statsRange.from} to={statsRange.to} />
+
+              <CalibrationChart />
+
               <Card>
                 <CardHeader>
-                  <CardTitle>Ostatnie poprawki modelu</CardTitle>
+                  <CardTitle>{t('settings.categories.title')}</CardTitle>
                 </CardHeader>
                 <CardContent>
-                  <div className="space-y-4">
-                    {[
-                      { date: '2024-12-15', change: 'Aktualizacja cennika usług brandingowych', impact: '+5% trafność' },
-                      { date: '2024-12-14', change: 'Dodano informacje o nowych usługach SEO', impact: '+3% trafność' },
-                      { date: '2024-12-13', change: 'Poprawiono odpowiedzi dotyczące czasów realizacji', impact: '+4% trafność' }
-                    ].map((item, index) => (
-                      <div key={index} className="flex items-center justify-between p-3 bg-gray-50 rounded-lg">
-                        <div>
-                          <p className="text-sm font-medium">{item.change}</p>
-                          <p className="text-xs text-gray-500">{item.date}</p>
+                  {!categoryStats || categoryStats.overall.total === 0 ? (
+                    <p className="text-sm text-gray-500">
+                      {t('settings.categories.empty')}
+                    </p>
+                  ) : (
+                    <div className="space-y-3">
+                      {categories.map((category) => {
+                        const entry = categoryStats.byCategory[category];
+                        return (
+                          <div key={category} className="flex items-center justify-between p-3 bg-gray-50 rounded-lg">
+                            <div>
+                              <p className="text-sm font-medium">{t(`category.${category}`)}</p>
+                              <p className="text-xs text-gray-500">
+                                {t('settings.categories.correct', { correct: entry.correct, total: entry.total })}
+                              </p>
+                            </div>
+                            <span className="text-sm font-medium text-blue-600">
+                              {entry.accuracy === null ? '—' : `${entry.accuracy}%`}
+                            </span>
+                          </div>
+                        );
+                      })}
+                      <p className="text-sm text-gray-600">
+                        {t('settings.categories.overall', {
+                          accuracy: categoryStats.overall.accuracy ?? 0,
+                          correct: categoryStats.overall.correct,
+                          total: categoryStats.overall.total
+                        })}
+                      </p>
+                    </div>
+                  )}
+                </CardContent>
+              </Card>
+
+              <Card>
+                <CardHeader>
+                  <CardTitle>{t('settings.edits.title')}</CardTitle>
+                </CardHeader>
+                <CardContent>
+                  {!editReport || editReport.phrases.length === 0 ? (
+                    <p className="text-sm text-gray-500">
+                      {t('settings.edits.empty', { action: t('dashboard.detail.editAndSend') })}
+                    </p>
+                  ) : (
+                    <div className="space-y-3">
+                      <p className="text-sm text-gray-600">
+                        {t('settings.edits.summary', { count: editReport.editedCount, ratio: editReport.averageRatio ?? 0 })}
+                      </p>
+                      {editReport.phrases.map((item) => (
+                        <div key={item.phrase} className="p-3 bg-gray-50 rounded-lg">
+                          <div className="flex items-center justify-between">
+                            <p className="text-sm font-medium line-through decoration-red-400">{item.phrase}</p>
+                            <Badge variant="outline">{item.count}×</Badge>
+                          </div>
+                          <p className="text-xs text-gray-500 mt-1">
+                            {t('settings.edits.replacedBy')}{' '}
+                            {item.replacements
+                              .map((replacement) => `${replacement.text ? t('common.quoted', { text: replacement.text }) : t('settings.edits.removed')} ${replacement.count}×`)
+                              .join(', ')}
+                          </p>
                         </div>
-                        <Badge className="bg-green-100 text-green-800 text-xs">
-                          {item.impact}
-                        </Badge>
-                      </div>
-                    ))}
-                  </div>
+                      ))}
+                    </div>
+                  )}
                 </CardContent>
               </Card>
 
+              <KnowledgeChangelog />
+
               <Card>
                 <CardHeader>
-                  <CardTitle>Ustawienia uczenia</CardTitle>
+                  <CardTitle>{t('settings.learning.title')}</CardTitle>
                 </CardHeader>
                 <CardContent className="space-y-4">
                   <div className="flex items-center justify-between">
                     <div>
-                      <Label>Automatyczne uczenie</Label>
+                      <Label>{t('settings.learning.auto')}</Label>
                       <p className="text-sm text-gray-500">
-                        Model uczy się automatycznie z zaakceptowanych odpowiedzi
+                        {t('settings.learning.autoHint')}
                       </p>
                     </div>
                     <Switch defaultChecked />
@@ -454,9 +989,9 @@ export function AISettings() {
                   
                   <div className="flex items-center justify-between">
                     <div>
-                      <Label>Powiadomienia o poprawkach</Label>
+                      <Label>{t('settings.learning.notifications')}</Label>
                       <p className="text-sm text-gray-500">
-                        Otrzymuj informacje o aktualizacjach modelu
+                        {t('settings.learning.notificationsHint')}
                       </p>
                     </div>
                     <Switch defaultChecked />
@@ -469,18 +1004,18 @@ export function AISettings() {
 
         <div className="mt-8 flex justify-end gap-4">
           <Button variant="outline" onClick={() => window.location.reload()}>
-            Resetuj ustawienia
+            {t('settings.reset')}
           </Button>
           <Button onClick={saveConfig} disabled={saving}>
             {saving ? (
               <>
                 <Loader2 className="h-4 w-4 mr-2 animate-spin" />
-                Zapisywanie...
+                {t('settings.saving')}
               </>
             ) : (
               <>
                 <Save className="h-4 w-4 mr-2" />
-                Zapisz zmiany
+                {t('common.saveChanges')}
               </>
             )}
           </Button>
@@ -0,0 +1,205 @@
+import { useState, useEffect } from 'react';
+import { Bar, BarChart, CartesianGrid, Line, LineChart, XAxis, YAxis } from 'recharts@2.15.2';
+import { Card, CardContent, CardHeader, CardTitle } from './ui/card';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from './ui/select';
+import { ChartConfig, ChartContainer, ChartLegend, ChartTooltip, ChartTooltipContent } from './ui/chart';
+import { Loader2 } from 'lucide-react';
+import { apiCall } from '../utils/api';
+import { toast } from 'sonner@2.0.3';
+import { useI18n } from './i18n';
+
+type Category = 'pricing' | 'timeline' | 'product' | 'general';
+type Period = 'day' | 'week';
+
+interface StatsBucket {
+  total: number;
+  pending: number;
+  autoSent: number;
+  approvedUnchanged: number;
+  approvedEdited: number;
+  rejected: number;
+  approvalRate: number | null;
+  meanConfidence: number | null;
+  meanFirstResponseHours: number | null;
+}
+
+interface PeriodStats {
+  byCategory: Record<Category, StatsBucket>;
+  byPeriod: (StatsBucket & { period: string })[];
+}
+
+interface AnalyticsChartsProps {
+  from: string;
+  to: string;
+}
+
+const categoryKeys: Category[] = ['pricing', 'timeline', 'product', 'general'];
+
+// Time series of the inquiry statistics and a per-category breakdown for the selected date range
+export function AnalyticsCharts({ from, to }: AnalyticsChartsProps) {
+  const { t, formatDate } = useI18n();
+  const [groupBy, setGroupBy] = useState<Period>('day');
+  const [stats, setStats] = useState<PeriodStats | null>(null);
+  const [loading, setLoading] = useState(true);
+
+  const volumeConfig = {
+    total: { label: t('charts.series.total'), color: 'var(--chart-1)' }
+  } satisfies ChartConfig;
+
+  const qualityConfig = {
+    approvalRate: { label: t('charts.series.approvalRate'), color: 'var(--chart-2)' },
+    meanConfidence: { label: t('charts.series.meanConfidence'), color: 'var(--chart-1)' }
+  } satisfies ChartConfig;
+
+  const responseTimeConfig = {
+    meanFirstResponseHours: { label: t('charts.series.responseHours'), color: 'var(--chart-3)' }
+  } satisfies ChartConfig;
+
+  const categoryConfig = {
+    approvedUnchanged: { label: t('charts.series.unchanged'), color: 'var(--chart-2)' },
+    approvedEdited: { label: t('charts.series.edited'), color: 'var(--chart-4)' },
+    rejected: { label: t('charts.series.rejected'), color: 'var(--chart-5)' },
+    open: { label: t('charts.series.open'), color: 'var(--chart-3)' }
+  } satisfies ChartConfig;
+
+  // "2026-10-12" -> "12.10" (or "12/10"); a week is labelled with its Monday
+  const formatPeriod = (period: string) => formatDate(`${period}T00:00:00`, { day: '2-digit', month: '2-digit' });
+
+  const loadStats = async () => {
+    try {
+      setLoading(true);
+      const params = new URLSearchParams({ groupBy });
+      if (from) params.set('from', from);
+      if (to) params.set('to', to);
+      const response = await apiCall(`/stats?${params}`);
+      if (response.success) {
+        setStats(response.data);
+      }
+    } catch (error) {
+      console.error('Error loading chart data:', error);
+      toast.error(t('charts.toast.loadError'));
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  useEffect(() => {
+    loadStats();
+  }, [from, to, groupBy]);
+
+  const categories = stats
+    ? categoryKeys.map((category) => {
+        const entry = stats.byCategory[category];
+        return {
+          category: t(`category.${category}`),
+          approvedUnchanged: entry.approvedUnchanged,
+          approvedEdited: entry.approvedEdited,
+          rejected: entry.rejected,
+          open: entry.pending + entry.autoSent
+        };
+      })
+    : [];
+
+  return (
+    <Card>
+      <CardHeader className="flex flex-row items-center justify-between">
+        <CardTitle>{t('charts.title')}</CardTitle>
+        <Select value={groupBy} onValueChange={(value) => setGroupBy(value as Period)}>
+          <SelectTrigger className="w-40">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            <SelectItem value="day">{t('charts.daily')}</SelectItem>
+            <SelectItem value="week">{t('charts.weekly')}</SelectItem>
+          </SelectContent>
+        </Select>
+      </CardHeader>
+      <CardContent>
+        {loading ? (
+          <div className="flex items-center justify-center h-32">
+            <Loader2 className="h-6 w-6 animate-spin" />
+          </div>
+        ) : !stats || stats.byPeriod.length === 0 ? (
+          <p className="text-sm text-gray-500">{t('settings.training.empty')}</p>
+        ) : (
+          <div className="grid grid-cols-2 gap-6">
+            <div className="space-y-2">
+              <p className="text-sm font-medium">{t('charts.volume')}</p>
+              <ChartContainer config={volumeConfig} className="aspect-auto h-56 w-full">
+                <BarChart data={stats.byPeriod}>
+                  <CartesianGrid vertical={false} />
+                  <XAxis dataKey="period" tickFormatter={formatPeriod} tickLine={false} axisLine={false} />
+                  <YAxis allowDecimals={false} tickLine={false} axisLine={false} width={30} />
+                  <ChartTooltip content={<ChartTooltipContent labelFormatter={formatPeriod} />} />
+                  <Bar dataKey="total" fill="var(--color-total)" radius={4} />
+                </BarChart>
+              </ChartContainer>
+            </div>
+
+            <div className="space-y-2">
+              <p className="text-sm font-medium">{t('charts.quality')}</p>
+              <ChartContainer config={qualityConfig} className="aspect-auto h-56 w-full">
+                <LineChart data={stats.byPeriod}>
+                  <CartesianGrid vertical={false} />
+                  <XAxis dataKey="period" tickFormatter={formatPeriod} tickLine={false} axisLine={false} />
+                  <YAxis domain={[0, 100]} tickLine={false} axisLine={false} width={30} />
+                  <ChartTooltip content={<ChartTooltipContent labelFormatter={formatPeriod} />} />
+                  <ChartLegend />
+                  <Line
+                    dataKey="approvalRate"
+                    name={qualityConfig.approvalRate.label}
+                    stroke="var(--color-approvalRate)"
+                    strokeWidth={2}
+                    connectNulls
+                  />
+                  <Line
+                    dataKey="meanConfidence"
+                    name={qualityConfig.meanConfidence.label}
+                    stroke="var(--color-meanConfidence)"
+                    strokeWidth={2}
+                    connectNulls
+                  />
+                </LineChart>
+              </ChartContainer>
+            </div>
+
+            <div className="space-y-2">
+              <p className="text-sm font-medium">{t('charts.responseTime')}</p>
+              <ChartContainer config={responseTimeConfig} className="aspect-auto h-56 w-full">
+                <LineChart data={stats.byPeriod}>
+                  <CartesianGrid vertical={false} />
+                  <XAxis dataKey="period" tickFormatter={formatPeriod} tickLine={false} axisLine={false} />
+                  <YAxis tickLine={false} axisLine={false} width={30} />
+                  <ChartTooltip content={<ChartTooltipContent labelFormatter={formatPeriod} />} />
+                  <Line
+                    dataKey="meanFirstResponseHours"
+                    stroke="var(--color-meanFirstResponseHours)"
+                    strokeWidth={2}
+                    connectNulls
+                  />
+                </LineChart>
+              </ChartContainer>
+            </div>
+
+            <div className="space-y-2">
+              <p className="text-sm font-medium">{t('charts.byCategory')}</p>
+              <ChartContainer config={categoryConfig} className="aspect-auto h-56 w-full">
+                <BarChart data={categories}>
+                  <CartesianGrid vertical={false} />
+                  <XAxis dataKey="category" tickLine={false} axisLine={false} />
+                  <YAxis allowDecimals={false} tickLine={false} axisLine={false} width={30} />
+                  <ChartTooltip content={<ChartTooltipContent />} />
+                  <ChartLegend />
+                  <Bar dataKey="approvedUnchanged" name={categoryConfig.approvedUnchanged.label} stackId="outcome" fill="var(--color-approvedUnchanged)" />
+                  <Bar dataKey="approvedEdited" name={categoryConfig.approvedEdited.label} stackId="outcome" fill="var(--color-approvedEdited)" />
+                  <Bar dataKey="rejected" name={categoryConfig.rejected.label} stackId="outcome" fill="var(--color-rejected)" />
+                  <Bar dataKey="open" name={categoryConfig.open.label} stackId="outcome" fill="var(--color-open)" />
+                </BarChart>
+              </ChartContainer>
+            </div>
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
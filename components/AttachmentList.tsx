@@ -0,0 +1,56 @@
+import { Download, FileText, Paperclip } from 'lucide-react';
+import { Button } from './ui/button';
+import { useI18n } from './i18n';
+
+export interface Attachment {
+  id: string;
+  filename: string;
+  contentType: string;
+  size: number;
+  extractedText?: string;
+}
+
+interface AttachmentListProps {
+  attachments: Attachment[];
+  onDownload: (attachment: Attachment) => void;
+}
+
+export function AttachmentList({ attachments, onDownload }: AttachmentListProps) {
+  const { t, formatNumber } = useI18n();
+
+  const formatSize = (bytes: number) => {
+    const oneDecimal = { minimumFractionDigits: 1, maximumFractionDigits: 1 };
+    if (bytes < 1024) return `${formatNumber(bytes)} B`;
+    if (bytes < 1024 * 1024) return `${formatNumber(bytes / 1024, oneDecimal)} KB`;
+    return `${formatNumber(bytes / (1024 * 1024), oneDecimal)} MB`;
+  };
+
+  return (
+    <ul className="space-y-2">
+      {attachments.map((attachment) => (
+        <li
+          key={attachment.id}
+          className="flex items-center justify-between rounded-lg border bg-gray-50 px-3 py-2"
+        >
+          <div className="flex min-w-0 items-center gap-2">
+            {attachment.extractedText ? (
+              <FileText className="h-4 w-4 shrink-0 text-blue-600" />
+            ) : (
+              <Paperclip className="h-4 w-4 shrink-0 text-gray-500" />
+            )}
+            <div className="min-w-0">
+              <p className="truncate text-sm">{attachment.filename}</p>
+              <p className="text-xs text-gray-500">
+                {formatSize(attachment.size)} · {attachment.contentType}
+                {attachment.extractedText && ` · ${t('attachments.extracted')}`}
+              </p>
+            </div>
+          </div>
+          <Button size="sm" variant="ghost" onClick={() => onDownload(attachment)}>
+            <Download className="h-4 w-4" />
+          </Button>
+        </li>
+      ))}
+    </ul>
+  );
+}
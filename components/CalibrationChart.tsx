@@ -0,0 +1,131 @@
+import { useState, useEffect } from 'react';
+import { CartesianGrid, Line, LineChart, ReferenceLine, XAxis, YAxis } from 'recharts@2.15.2';
+import { Card, CardContent, CardHeader, CardTitle } from './ui/card';
+import { Badge } from './ui/badge';
+import { ChartConfig, ChartContainer, ChartTooltip, ChartTooltipContent } from './ui/chart';
+import { Loader2 } from 'lucide-react';
+import { apiCall } from '../utils/api';
+import { toast } from 'sonner@2.0.3';
+import { useI18n } from './i18n';
+
+type Category = 'pricing' | 'timeline' | 'product' | 'general';
+
+interface ReliabilityBin {
+  from: number;
+  to: number;
+  count: number;
+  meanConfidence: number | null;
+  observedRate: number | null;
+}
+
+interface CalibrationReport {
+  samples: number;
+  bins: ReliabilityBin[];
+  brierScore: { calibrated: number | null; raw: number | null };
+  fittedOn: Record<Category, 'category' | 'global' | 'none'>;
+}
+
+const categories: Category[] = ['pricing', 'timeline', 'product', 'general'];
+
+// Reliability diagram: for drafts grouped by stated confidence, how many reviewers actually sent unchanged.
+// A well calibrated model follows the diagonal.
+export function CalibrationChart() {
+  const { t, formatNumber } = useI18n();
+  const [report, setReport] = useState<CalibrationReport | null>(null);
+  const [loading, setLoading] = useState(true);
+
+  const chartConfig = {
+    observedRate: { label: t('calibration.series'), color: 'var(--chart-1)' }
+  } satisfies ChartConfig;
+
+  const pointLabel = (_: unknown, payload: readonly { payload?: { confidence: number; count: number } }[]) => {
+    const point = payload?.[0]?.payload;
+    return point ? t('calibration.point', { confidence: point.confidence, count: point.count }) : '';
+  };
+
+  const score = (value: number | null) => value === null ? '—' : formatNumber(value);
+
+  const loadReport = async () => {
+    try {
+      setLoading(true);
+      const response = await apiCall('/stats/calibration');
+      if (response.success) {
+        setReport(response.data);
+      }
+    } catch (error) {
+      console.error('Error loading calibration report:', error);
+      toast.error(t('calibration.toast.loadError'));
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  useEffect(() => {
+    loadReport();
+  }, []);
+
+  const points = (report?.bins ?? [])
+    .filter((bin) => bin.count > 0)
+    .map((bin) => ({ confidence: bin.meanConfidence, observedRate: bin.observedRate, count: bin.count }));
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle>{t('calibration.title')}</CardTitle>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {loading ? (
+          <div className="flex items-center justify-center h-32">
+            <Loader2 className="h-6 w-6 animate-spin" />
+          </div>
+        ) : !report || report.samples === 0 ? (
+          <p className="text-sm text-gray-500">
+            {t('calibration.empty')}
+          </p>
+        ) : (
+          <>
+            <ChartContainer config={chartConfig} className="aspect-auto h-64 w-full">
+              <LineChart data={points}>
+                <CartesianGrid />
+                <XAxis
+                  dataKey="confidence"
+                  type="number"
+                  domain={[0, 100]}
+                  tickLine={false}
+                  axisLine={false}
+                  tickFormatter={(value) => `${value}%`}
+                />
+                <YAxis
+                  domain={[0, 100]}
+                  tickLine={false}
+                  axisLine={false}
+                  width={40}
+                  tickFormatter={(value) => `${value}%`}
+                />
+                <ReferenceLine segment={[{ x: 0, y: 0 }, { x: 100, y: 100 }]} stroke="#9ca3af" strokeDasharray="4 4" />
+                <ChartTooltip content={<ChartTooltipContent labelFormatter={pointLabel} />} />
+                <Line dataKey="observedRate" stroke="var(--color-observedRate)" strokeWidth={2} />
+              </LineChart>
+            </ChartContainer>
+
+            <p className="text-sm text-gray-600">
+              {t('calibration.summary', {
+                samples: report.samples,
+                calibrated: score(report.brierScore.calibrated),
+                raw: score(report.brierScore.raw)
+              })}
+            </p>
+
+            <div className="flex flex-wrap gap-2">
+              {categories.map((category) => (
+                <Badge key={category} variant="outline" className="text-xs">
+                  {t(`category.${category}`)}: {t(`calibration.fit.${report.fittedOn[category]}`)}
+                </Badge>
+              ))}
+            </div>
+          </>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,50 @@
+import { ArrowDownLeft, ArrowUpRight } from 'lucide-react';
+import { useI18n } from './i18n';
+
+export interface ThreadMessage {
+  direction: 'inbound' | 'outbound';
+  messageId?: string;
+  from: string;
+  subject?: string;
+  text: string;
+  timestamp: string;
+}
+
+interface ConversationThreadProps {
+  messages: ThreadMessage[];
+}
+
+export function ConversationThread({ messages }: ConversationThreadProps) {
+  const { t, formatDateTime } = useI18n();
+  const ordered = [...messages].sort(
+    (a, b) => new Date(a.timestamp).getTime() - new Date(b.timestamp).getTime()
+  );
+
+  return (
+    <div className="space-y-3">
+      {ordered.map((message, index) => (
+        <div
+          key={message.messageId ?? index}
+          className={`rounded-lg p-4 ${
+            message.direction === 'inbound'
+              ? 'mr-8 bg-gray-50'
+              : 'ml-8 border border-green-200 bg-green-50'
+          }`}
+        >
+          <div className="mb-2 flex items-center justify-between text-xs text-gray-500">
+            <span className="flex items-center gap-1">
+              {message.direction === 'inbound' ? (
+                <ArrowDownLeft className="h-3 w-3" />
+              ) : (
+                <ArrowUpRight className="h-3 w-3" />
+              )}
+              {message.direction === 'inbound' ? t('thread.customer', { from: message.from }) : t('thread.ours')}
+            </span>
+            <span>{formatDateTime(message.timestamp)}</span>
+          </div>
+          <p className="whitespace-pre-wrap">{message.text}</p>
+        </div>
+      ))}
+    </div>
+  );
+}
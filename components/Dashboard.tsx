@@ -1,17 +1,41 @@
-import { useState, useEffect } from 'react';
+import { useState, useEffect, useRef } from 'react';
 import { Card, CardContent, CardHeader, CardTitle } from './ui/card';
 import { Button } from './ui/button';
 import { Badge } from './ui/badge';
 import { Tabs, TabsContent, TabsList, TabsTrigger } from './ui/tabs';
 import { ScrollArea } from './ui/scroll-area';
-import { CheckCircle, XCircle, MessageSquare, Clock, TrendingUp, Settings, Plus, Loader2, RefreshCw } from 'lucide-react';
-import { projectId, publicAnonKey, functionName } from '../utils/supabase/info';
+import { CheckCircle, XCircle, MessageSquare, Clock, TrendingUp, Settings, Plus, Loader2, RefreshCw, Send, AlertTriangle, Mail } from 'lucide-react';
+import { apiCall, apiFetch } from '../utils/api';
 import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogTrigger, DialogDescription } from './ui/dialog';
 import { Input } from './ui/input';
 import { Label } from './ui/label';
 import { Textarea } from './ui/textarea';
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from './ui/select';
 import { toast } from 'sonner@2.0.3';
+import { SourceCitations, DraftSource } from './SourceCitations';
+import { ConversationThread, ThreadMessage } from './ConversationThread';
+import { AttachmentList, Attachment } from './AttachmentList';
+import { FlaggedText, DraftFigure } from './FlaggedText';
+import { DiffView, DiffSegment } from './DiffView';
+import { StatusHistory, StatusTransition, InquiryStatus } from './StatusHistory';
+import { DraftVersions, DraftVersion, RejectionReason, rejectionReasons } from './DraftVersions';
+import { DraftVariantPicker, DraftVariant, DraftTone } from './DraftVariantPicker';
+import { useI18n } from './i18n';
+
+type Category = 'pricing' | 'timeline' | 'product' | 'general';
+type ReplyLanguage = 'pl' | 'en' | 'de';
+
+const categories: Category[] = ['pricing', 'timeline', 'product', 'general'];
+const replyLanguages: ReplyLanguage[] = ['pl', 'en', 'de'];
+
+// Statuses in which the draft can still be rewritten
+const draftStatuses: InquiryStatus[] = ['new', 'pending_review', 'needs_info', 'rejected', 'reopened'];
+
+// The name reviewers enter in the knowledge base editor also signs their status changes
+const REVIEWER_NAME_KEY = 'knowledge-editor-name';
+
+// Transitions offered in the status menu; approving and rejecting have their own buttons
+const menuStatuses: InquiryStatus[] = ['pending_review', 'needs_info', 'spam', 'closed', 'reopened'];
 
 interface Inquiry {
   id: string;
@@ -19,15 +43,67 @@ interface Inquiry {
   email: string;
   subject: string;
   message: string;
-  aiSuggestion: string;
+  aiSuggestion?: string;
+  drafts?: DraftVersion[];
+  variants?: DraftVariant[];
+  tone?: DraftTone;
   finalResponse?: string;
-  confidence: number;
+  edit?: ReviewerEdit;
+  confidence?: number;
+  rawConfidence?: number;
   timestamp: string;
-  status: 'pending' | 'approved' | 'rejected';
-  category: 'pricing' | 'timeline' | 'product' | 'general';
+  status: InquiryStatus;
+  statusHistory?: StatusTransition[];
+  category: Category;
+  predictedCategory?: Category;
+  categoryScore?: number;
+  detectedLanguage?: ReplyLanguage;
+  language?: ReplyLanguage;
+  sources?: DraftSource[];
+  figureCheck?: FigureCheck;
+  needsReview?: boolean;
+  autoSendAt?: string;
+  delivery?: Delivery;
+  source?: 'manual' | 'imap' | 'webhook';
+  messageId?: string;
+  thread?: ThreadMessage[];
+  attachments?: Attachment[];
+}
+
+interface ReviewerEdit {
+  distance: number;
+  ratio: number;
+  diff: DiffSegment[];
 }
 
+interface FigureCheck {
+  field: 'aiSuggestion' | 'finalResponse';
+  untraced: DraftFigure[];
+}
+
+interface Delivery {
+  state: 'queued' | 'sent' | 'failed';
+  attempts: number;
+  lastError?: string;
+  sentAt?: string;
+  nextAttemptAt?: string;
+}
+
+interface KnowledgeItem {
+  id: string;
+  title: string;
+  content: string;
+  createdAt?: string;
+}
+
+// Events of the draft stream: chunks of text per tone, then the saved inquiry or an error
+type DraftStreamEvent =
+  | { event: 'delta'; data: { text: string; tone?: DraftTone } }
+  | { event: 'done'; data: Inquiry }
+  | { event: 'error'; data: { error: string } };
+
 export function Dashboard() {
+  const { t, formatDateTime, formatTime } = useI18n();
   const [selectedInquiry, setSelectedInquiry] = useState<Inquiry | null>(null);
   const [inquiries, setInquiries] = useState<Inquiry[]>([]);
   const [loading, setLoading] = useState(true);
@@ -35,32 +111,59 @@ export function Dashboard() {
   const [isNewInquiryOpen, setIsNewInquiryOpen] = useState(false);
   const [isEditOpen, setIsEditOpen] = useState(false);
   const [editedResponse, setEditedResponse] = useState('');
+  const [showEditDiff, setShowEditDiff] = useState(false);
+  const [viewedKnowledge, setViewedKnowledge] = useState<KnowledgeItem | null>(null);
+  const [transitions, setTransitions] = useState<Partial<Record<InquiryStatus, InquiryStatus[]>>>({});
+  const [isRejectOpen, setIsRejectOpen] = useState(false);
+  const [rejection, setRejection] = useState<{ reason: RejectionReason | ''; instructions: string }>({ reason: '', instructions: '' });
+  const [regenerating, setRegenerating] = useState(false);
+  const [detailTab, setDetailTab] = useState('inquiry');
+  // Text of a draft being streamed, per variant tone ('draft' when a single draft is written)
+  const [streamingDraft, setStreamingDraft] = useState<{ inquiryId: string; text: Record<string, string> } | null>(null);
+  const draftAbortRef = useRef<AbortController | null>(null);
   const [newInquiry, setNewInquiry] = useState({
     customerName: '',
     email: '',
     subject: '',
-    message: '',
-    category: 'general' as const
+    message: ''
   });
 
-  const apiCall = async (endpoint: string, options?: RequestInit) => {
-    const base = `https://${projectId}.supabase.co/functions/v1/${functionName}`;
-    const url = `${base}${endpoint}`;
-    const response = await fetch(url, {
-      ...options,
-      headers: {
-        'Content-Type': 'application/json',
-        'Authorization': `Bearer ${publicAnonKey}`,
-        ...options?.headers,
-      },
-    });
-    
-    if (!response.ok) {
-      const errorData = await response.json().catch(() => ({ error: 'Network error' }));
-      throw new Error(errorData.error || `HTTP error! status: ${response.status}`);
+  // Reads the server-sent events of a POST request, which EventSource cannot send
+  const streamCall = async (endpoint: string, options: RequestInit, onEvent: (event: DraftStreamEvent) => void) => {
+    const response = await apiFetch(endpoint, options);
+    if (!response.body) {
+      throw new Error('Network error');
+    }
+
+    const reader = response.body.pipeThrough(new TextDecoderStream()).getReader();
+    let buffer = '';
+    try {
+      while (true) {
+        const { value, done } = await reader.read();
+        if (done) break;
+        buffer += value;
+        const events = buffer.split('\n\n');
+        buffer = events.pop() ?? '';
+        for (const block of events) {
+          const lines = block.split('\n');
+          const event = lines.find(line => line.startsWith('event:'))?.slice(6).trim() ?? 'message';
+          const data = lines.filter(line => line.startsWith('data:')).map(line => line.slice(5).trim()).join('\n');
+          if (data) onEvent({ event, data: JSON.parse(data) } as DraftStreamEvent);
+        }
+      }
+    } finally {
+      // Releases the connection when the handler throws or the loop is left early
+      reader.cancel().catch(() => {});
+    }
+  };
+
+  const reviewerName = () => localStorage.getItem(REVIEWER_NAME_KEY) || undefined;
+
+  const loadStatuses = async () => {
+    const response = await apiCall('/statuses');
+    if (response.success) {
+      setTransitions(response.data.transitions);
     }
-    
-    return response.json();
   };
 
   const loadInquiries = async () => {
@@ -72,7 +175,7 @@ export function Dashboard() {
       }
     } catch (error) {
       console.error('Error loading inquiries:', error);
-      toast.error('Błąd podczas ładowania zapytań');
+      toast.error(t('dashboard.toast.loadError'));
     } finally {
       setLoading(false);
     }
@@ -84,11 +187,11 @@ export function Dashboard() {
       const response = await apiCall('/inquiries');
       if (response.success) {
         setInquiries(response.data);
-        toast.success('Lista zapytań została odświeżona');
+        toast.success(t('dashboard.toast.refreshed'));
       }
     } catch (error) {
       console.error('Error refreshing inquiries:', error);
-      toast.error('Błąd podczas odświeżania');
+      toast.error(t('dashboard.toast.refreshError'));
     } finally {
       setRefreshing(false);
     }
@@ -98,37 +201,103 @@ export function Dashboard() {
     try {
       const response = await apiCall(`/inquiries/${inquiryId}/status`, {
         method: 'PUT',
-        body: JSON.stringify({ status: 'approved' })
+        body: JSON.stringify({ status: 'approved', actor: reviewerName() })
       });
       
       if (response.success) {
         setInquiries(prev => prev.map(inquiry => 
-          inquiry.id === inquiryId ? { ...inquiry, status: 'approved' } : inquiry
+          inquiry.id === inquiryId ? response.data : inquiry
         ));
-        toast.success('Odpowiedź została zaakceptowana');
+        setSelectedInquiry(prev => prev && prev.id === inquiryId ? response.data : prev);
+        toast.success(t('dashboard.toast.approved'));
       }
     } catch (error) {
       console.error('Error approving inquiry:', error);
-      toast.error('Błąd podczas akceptacji');
+      toast.error(t('dashboard.toast.approveError'));
     }
   };
 
-  const handleReject = async (inquiryId: string) => {
+  const openRejectDialog = () => {
+    setRejection({ reason: '', instructions: '' });
+    setIsRejectOpen(true);
+  };
+
+  // Rejecting records what was wrong with the draft; the reviewer can ask for a new version right away
+  const handleReject = async (inquiryId: string, regenerate: boolean) => {
+    if (!rejection.reason) {
+      toast.error(t('dashboard.toast.chooseReason'));
+      return;
+    }
+
     try {
       const response = await apiCall(`/inquiries/${inquiryId}/status`, {
         method: 'PUT',
-        body: JSON.stringify({ status: 'rejected' })
+        body: JSON.stringify({
+          status: 'rejected',
+          reason: rejection.reason,
+          instructions: rejection.instructions,
+          actor: reviewerName()
+        })
       });
       
       if (response.success) {
         setInquiries(prev => prev.map(inquiry => 
-          inquiry.id === inquiryId ? { ...inquiry, status: 'rejected' } : inquiry
+          inquiry.id === inquiryId ? response.data : inquiry
         ));
-        toast.success('Odpowiedź została odrzucona');
+        setSelectedInquiry(prev => prev && prev.id === inquiryId ? response.data : prev);
+        setIsRejectOpen(false);
+        toast.success(t('dashboard.toast.rejected'));
+        if (regenerate) {
+          await handleRegenerate(inquiryId);
+        }
       }
     } catch (error) {
       console.error('Error rejecting inquiry:', error);
-      toast.error('Błąd podczas odrzucenia');
+      toast.error(t('dashboard.toast.rejectError'));
+    }
+  };
+
+  // A new draft follows the instructions given with the last rejection
+  const handleRegenerate = async (inquiryId: string) => {
+    try {
+      setRegenerating(true);
+      const response = await apiCall(`/inquiries/${inquiryId}/regenerate`, {
+        method: 'POST',
+        body: JSON.stringify({ actor: reviewerName() })
+      });
+
+      if (response.success) {
+        setInquiries(prev => prev.map(inquiry =>
+          inquiry.id === inquiryId ? response.data : inquiry
+        ));
+        setSelectedInquiry(prev => prev && prev.id === inquiryId ? response.data : prev);
+        toast.success(t('dashboard.toast.regenerated', { version: response.data.drafts?.length ?? 1 }));
+      }
+    } catch (error) {
+      console.error('Error regenerating draft:', error);
+      toast.error(t('dashboard.toast.regenerateError', { error: (error as Error).message }));
+    } finally {
+      setRegenerating(false);
+    }
+  };
+
+  const handleStatusChange = async (inquiryId: string, status: InquiryStatus) => {
+    try {
+      const response = await apiCall(`/inquiries/${inquiryId}/status`, {
+        method: 'PUT',
+        body: JSON.stringify({ status, actor: reviewerName() })
+      });
+
+      if (response.success) {
+        setInquiries(prev => prev.map(inquiry =>
+          inquiry.id === inquiryId ? response.data : inquiry
+        ));
+        setSelectedInquiry(prev => prev && prev.id === inquiryId ? response.data : prev);
+        toast.success(t('dashboard.toast.statusChanged', { status: t(`status.${status}`) }));
+      }
+    } catch (error) {
+      console.error('Error changing status:', error);
+      toast.error(t('dashboard.toast.statusError', { error: (error as Error).message }));
     }
   };
 
@@ -143,71 +312,276 @@ export function Dashboard() {
     try {
       const response = await apiCall(`/inquiries/${selectedInquiry.id}/status`, {
         method: 'PUT',
-        body: JSON.stringify({ status: 'approved', finalResponse: editedResponse })
+        body: JSON.stringify({ status: 'approved', finalResponse: editedResponse, actor: reviewerName() })
       });
 
       if (response.success) {
         setInquiries(prev => prev.map(inquiry => 
-          inquiry.id === selectedInquiry.id ? { ...inquiry, status: 'approved', finalResponse: editedResponse } : inquiry
+          inquiry.id === selectedInquiry.id ? response.data : inquiry
         ));
-        setSelectedInquiry(prev => prev ? { ...prev, status: 'approved', finalResponse: editedResponse } as Inquiry : prev);
+        setSelectedInquiry(response.data);
         setIsEditOpen(false);
-        toast.success('Odpowiedź została wysłana');
+        toast.success(t('dashboard.toast.sent'));
       }
     } catch (error) {
       console.error('Error sending edited response:', error);
-      toast.error('Błąd podczas wysyłania odpowiedzi');
+      toast.error(t('dashboard.toast.sendError'));
+    }
+  };
+
+  const handleCorrectCategory = async (inquiryId: string, category: Category) => {
+    try {
+      const response = await apiCall(`/inquiries/${inquiryId}/category`, {
+        method: 'PUT',
+        body: JSON.stringify({ category })
+      });
+
+      if (response.success) {
+        setInquiries(prev => prev.map(inquiry =>
+          inquiry.id === inquiryId ? response.data : inquiry
+        ));
+        setSelectedInquiry(prev => prev && prev.id === inquiryId ? response.data : prev);
+        toast.success(t('dashboard.toast.categoryCorrected'));
+      }
+    } catch (error) {
+      console.error('Error correcting category:', error);
+      toast.error(t('dashboard.toast.categoryError'));
+    }
+  };
+
+  const handleSelectVariant = async (inquiryId: string, tone: DraftTone) => {
+    try {
+      const response = await apiCall(`/inquiries/${inquiryId}/variant`, {
+        method: 'PUT',
+        body: JSON.stringify({ tone })
+      });
+
+      if (response.success) {
+        setInquiries(prev => prev.map(inquiry =>
+          inquiry.id === inquiryId ? response.data : inquiry
+        ));
+        setSelectedInquiry(prev => prev && prev.id === inquiryId ? response.data : prev);
+        toast.success(t('dashboard.toast.variantSelected', { tone: t(`tone.${tone}`) }));
+      }
+    } catch (error) {
+      console.error('Error selecting draft variant:', error);
+      toast.error(t('dashboard.toast.variantError', { error: (error as Error).message }));
+    }
+  };
+
+  const handleChangeLanguage = async (inquiryId: string, language: ReplyLanguage) => {
+    try {
+      const response = await apiCall(`/inquiries/${inquiryId}/language`, {
+        method: 'PUT',
+        body: JSON.stringify({ language, actor: reviewerName() })
+      });
+
+      if (response.success) {
+        setInquiries(prev => prev.map(inquiry =>
+          inquiry.id === inquiryId ? response.data : inquiry
+        ));
+        setSelectedInquiry(prev => prev && prev.id === inquiryId ? response.data : prev);
+        toast.success(t('dashboard.toast.languageChanged', { language: t(`replyLanguage.${language}`) }));
+      }
+    } catch (error) {
+      console.error('Error changing reply language:', error);
+      toast.error(t('dashboard.toast.languageError', { error: (error as Error).message }));
+    }
+  };
+
+  const handleCancelAutoSend = async (inquiryId: string) => {
+    try {
+      const response = await apiCall(`/inquiries/${inquiryId}/cancel-auto-send`, {
+        method: 'POST',
+        body: JSON.stringify({ actor: reviewerName() })
+      });
+
+      if (response.success) {
+        setInquiries(prev => prev.map(inquiry =>
+          inquiry.id === inquiryId ? response.data : inquiry
+        ));
+        setSelectedInquiry(prev => prev && prev.id === inquiryId ? response.data : prev);
+        toast.success(t('dashboard.toast.autoSendCancelled'));
+      }
+    } catch (error) {
+      console.error('Error cancelling automatic reply:', error);
+      toast.error(t('dashboard.toast.autoSendCancelError'));
+    }
+  };
+
+  const handleRetryDelivery = async (inquiryId: string) => {
+    try {
+      const response = await apiCall(`/inquiries/${inquiryId}/retry-delivery`, {
+        method: 'POST'
+      });
+
+      if (response.success) {
+        const { state, attempts, lastError, sentAt, nextAttemptAt } = response.data;
+        const delivery: Delivery = { state, attempts, lastError, sentAt, nextAttemptAt };
+        setInquiries(prev => prev.map(inquiry =>
+          inquiry.id === inquiryId ? { ...inquiry, delivery } : inquiry
+        ));
+        setSelectedInquiry(prev => prev && prev.id === inquiryId ? { ...prev, delivery } : prev);
+        if (state === 'sent') {
+          toast.success(t('dashboard.toast.sent'));
+        } else {
+          toast.error(t('dashboard.delivery.failed', { error: lastError }));
+        }
+      }
+    } catch (error) {
+      console.error('Error retrying delivery:', error);
+      toast.error(t('dashboard.toast.retryError'));
     }
   };
 
+  const openSource = async (source: DraftSource) => {
+    if (source.type === 'inquiry') {
+      const earlier = inquiries.find(inquiry => inquiry.id === source.id);
+      if (earlier) {
+        setSelectedInquiry(earlier);
+      } else {
+        toast.error(t('dashboard.toast.inquiryNotFound'));
+      }
+      return;
+    }
+
+    try {
+      const response = await apiCall(`/knowledge/${source.id}`);
+      if (response.success) {
+        setViewedKnowledge(response.data);
+      }
+    } catch (error) {
+      console.error('Error loading knowledge item:', error);
+      toast.error(t('dashboard.toast.knowledgeError'));
+    }
+  };
+
+  // Attachments are served with the Authorization header, so they are fetched and saved as a blob
+  const handleDownloadAttachment = async (inquiryId: string, attachment: Attachment) => {
+    try {
+      const response = await apiFetch(`/inquiries/${inquiryId}/attachments/${attachment.id}`);
+      const url = URL.createObjectURL(await response.blob());
+      const link = document.createElement('a');
+      link.href = url;
+      link.download = attachment.filename;
+      link.click();
+      URL.revokeObjectURL(url);
+    } catch (error) {
+      console.error('Error downloading attachment:', error);
+      toast.error(t('dashboard.toast.attachmentError'));
+    }
+  };
+
+  // The inquiry is saved first and its draft streamed afterwards, so the reviewer sees the text as it is written
   const handleCreateInquiry = async () => {
     try {
       const response = await apiCall('/inquiries', {
         method: 'POST',
-        body: JSON.stringify(newInquiry)
+        body: JSON.stringify({ ...newInquiry, deferDraft: true })
       });
       
       if (response.success) {
         setInquiries(prev => [response.data, ...prev]);
+        setSelectedInquiry(response.data);
         setNewInquiry({
           customerName: '',
           email: '',
           subject: '',
-          message: '',
-          category: 'general'
+          message: ''
         });
         setIsNewInquiryOpen(false);
-        toast.success('Zapytanie zostało dodane');
+        toast.success(t('dashboard.toast.inquiryCreated'));
+        await handleStreamDraft(response.data.id);
       }
     } catch (error) {
       console.error('Error creating inquiry:', error);
-      toast.error('Błąd podczas tworzenia zapytania');
+      toast.error(t('dashboard.toast.createError'));
+    }
+  };
+
+  const handleStreamDraft = async (inquiryId: string) => {
+    const controller = new AbortController();
+    draftAbortRef.current = controller;
+    setStreamingDraft({ inquiryId, text: {} });
+    setDetailTab('suggestion');
+
+    try {
+      await streamCall(`/inquiries/${inquiryId}/draft/stream`, { method: 'POST', body: '{}', signal: controller.signal }, (message) => {
+        if (message.event === 'delta') {
+          const { text, tone } = message.data;
+          const key = tone ?? 'draft';
+          setStreamingDraft(prev => prev && prev.inquiryId === inquiryId
+            ? { ...prev, text: { ...prev.text, [key]: (prev.text[key] ?? '') + text } }
+            : prev);
+        } else if (message.event === 'done') {
+          const drafted = message.data;
+          setInquiries(prev => prev.map(inquiry =>
+            inquiry.id === inquiryId ? drafted : inquiry
+          ));
+          setSelectedInquiry(prev => prev && prev.id === inquiryId ? drafted : prev);
+        } else if (message.event === 'error') {
+          throw new Error(message.data.error);
+        }
+      });
+    } catch (error) {
+      if (controller.signal.aborted) {
+        toast(t('dashboard.toast.draftStopped'));
+      } else {
+        console.error('Error streaming draft:', error);
+        toast.error(t('dashboard.toast.draftError', { error: (error as Error).message }));
+      }
+    } finally {
+      draftAbortRef.current = null;
+      setStreamingDraft(prev => prev && prev.inquiryId === inquiryId ? null : prev);
     }
   };
 
+  const handleCancelStream = () => {
+    draftAbortRef.current?.abort();
+  };
+
   useEffect(() => {
     // Initialize data and load inquiries
     const initialize = async () => {
       try {
         await apiCall('/init');
+        await loadStatuses();
         await loadInquiries();
       } catch (error) {
         console.error('Error initializing:', error);
-        toast.error('Błąd podczas inicjalizacji');
+        toast.error(t('dashboard.toast.initError'));
       }
     };
     
     initialize();
   }, []);
 
-  const getStatusColor = (status: string) => {
+  const getStatusColor = (status: InquiryStatus) => {
     switch (status) {
-      case 'approved': return 'bg-green-100 text-green-800';
-      case 'rejected': return 'bg-red-100 text-red-800';
+      case 'approved':
+      case 'sent': return 'bg-green-100 text-green-800';
+      case 'rejected':
+      case 'spam': return 'bg-red-100 text-red-800';
+      case 'auto_sent': return 'bg-blue-100 text-blue-800';
+      case 'needs_info': return 'bg-orange-100 text-orange-800';
+      case 'closed': return 'bg-gray-100 text-gray-800';
       default: return 'bg-yellow-100 text-yellow-800';
     }
   };
 
+  const getStatusLabel = (status: InquiryStatus) => t(`status.${status}`);
+
+  const canMoveTo = (inquiry: Inquiry, status: InquiryStatus) =>
+    transitions[inquiry.status]?.includes(status) ?? false;
+
+  // With several variants the reviewer has to pick one before approving
+  const needsVariantChoice = (inquiry: Inquiry) => (inquiry.variants?.length ?? 0) > 1 && !inquiry.tone;
+
+  const isAutoSendCancellable = (inquiry: Inquiry) =>
+    inquiry.status === 'auto_sent' && !!inquiry.autoSendAt && new Date(inquiry.autoSendAt).getTime() > Date.now();
+
+  const getCategoryLabel = (category: Category) => t(`category.${categories.includes(category) ? category : 'general'}`);
+
   const getCategoryColor = (category: string) => {
     switch (category) {
       case 'pricing': return 'bg-blue-100 text-blue-800';
@@ -217,10 +591,11 @@ export function Dashboard() {
     }
   };
 
+  const drafted = inquiries.filter(i => i.aiSuggestion);
   const stats = {
-    pending: inquiries.filter(i => i.status === 'pending').length,
-    approved: inquiries.filter(i => i.status === 'approved').length,
-    avgConfidence: inquiries.length > 0 ? Math.round(inquiries.reduce((acc, i) => acc + i.confidence, 0) / inquiries.length) : 0
+    pending: inquiries.filter(i => i.status === 'pending_review').length,
+    approved: inquiries.filter(i => i.status === 'approved' || i.status === 'sent').length,
+    avgConfidence: drafted.length > 0 ? Math.round(drafted.reduce((acc, i) => acc + (i.confidence ?? 0), 0) / drafted.length) : 0
   };
 
   if (loading) {
@@ -228,7 +603,7 @@ export function Dashboard() {
       <div className="min-h-screen bg-gray-50 flex items-center justify-center">
         <div className="text-center">
           <Loader2 className="h-8 w-8 animate-spin mx-auto mb-4" />
-          <p>Ładowanie danych...</p>
+          <p>{t('dashboard.loading')}</p>
         </div>
       </div>
     );
@@ -239,8 +614,8 @@ export function Dashboard() {
       <div className="mx-auto max-w-7xl">
         <div className="mb-8 flex items-center justify-between">
           <div>
-            <h1 className="mb-2">Nardos Group - Asystent odpowiedzi e‑mail</h1>
-            <p className="text-gray-600">Automatyczne sugestie odpowiedzi na zapytania klientów</p>
+            <h1 className="mb-2">{t('dashboard.title')}</h1>
+            <p className="text-gray-600">{t('dashboard.subtitle')}</p>
           </div>
           
           <div className="flex gap-2">
@@ -251,85 +626,71 @@ export function Dashboard() {
               disabled={refreshing}
             >
               <RefreshCw className={`h-4 w-4 mr-2 ${refreshing ? 'animate-spin' : ''}`} />
-              Odśwież
+              {t('dashboard.refresh')}
             </Button>
             
             <Dialog open={isNewInquiryOpen} onOpenChange={setIsNewInquiryOpen}>
               <DialogTrigger asChild>
                 <Button>
                   <Plus className="h-4 w-4 mr-2" />
-                  Dodaj zapytanie
+                  {t('dashboard.addInquiry')}
                 </Button>
               </DialogTrigger>
               <DialogContent className="sm:max-w-lg">
                 <DialogHeader>
-                  <DialogTitle>Nowe zapytanie klienta</DialogTitle>
+                  <DialogTitle>{t('dashboard.newInquiry.title')}</DialogTitle>
                   <DialogDescription>
-                    Dodaj nowe zapytanie klienta, aby wygenerować automatyczną sugestię odpowiedzi AI.
+                    {t('dashboard.newInquiry.description')}
                   </DialogDescription>
                 </DialogHeader>
                 <div className="grid gap-4 py-4">
                   <div className="grid grid-cols-2 gap-4">
                     <div className="space-y-2">
-                      <Label htmlFor="customerName">Imię i nazwisko</Label>
+                      <Label htmlFor="customerName">{t('dashboard.newInquiry.name')}</Label>
                       <Input
                         id="customerName"
                         value={newInquiry.customerName}
                         onChange={(e) => setNewInquiry({...newInquiry, customerName: e.target.value})}
-                        placeholder="Jan Kowalski"
+                        placeholder={t('dashboard.newInquiry.namePlaceholder')}
                       />
                     </div>
                     <div className="space-y-2">
-                      <Label htmlFor="email">Email</Label>
+                      <Label htmlFor="email">{t('dashboard.newInquiry.email')}</Label>
                       <Input
                         id="email"
                         type="email"
                         value={newInquiry.email}
                         onChange={(e) => setNewInquiry({...newInquiry, email: e.target.value})}
-                        placeholder="jan@example.com"
+                        placeholder={t('dashboard.newInquiry.emailPlaceholder')}
                       />
                     </div>
                   </div>
                   <div className="space-y-2">
-                    <Label htmlFor="subject">Temat</Label>
+                    <Label htmlFor="subject">{t('dashboard.newInquiry.subject')}</Label>
                     <Input
                       id="subject"
                       value={newInquiry.subject}
                       onChange={(e) => setNewInquiry({...newInquiry, subject: e.target.value})}
-                      placeholder="Zapytanie o usługi..."
+                      placeholder={t('dashboard.newInquiry.subjectPlaceholder')}
                     />
                   </div>
                   <div className="space-y-2">
-                    <Label htmlFor="category">Kategoria</Label>
-                    <Select value={newInquiry.category} onValueChange={(value) => setNewInquiry({...newInquiry, category: value as any})}>
-                      <SelectTrigger>
-                        <SelectValue />
-                      </SelectTrigger>
-                      <SelectContent>
-                        <SelectItem value="pricing">Wycena</SelectItem>
-                        <SelectItem value="timeline">Czas realizacji</SelectItem>
-                        <SelectItem value="product">Produkt</SelectItem>
-                        <SelectItem value="general">Ogólne</SelectItem>
-                      </SelectContent>
-                    </Select>
-                  </div>
-                  <div className="space-y-2">
-                    <Label htmlFor="message">Wiadomość</Label>
+                    <Label htmlFor="message">{t('dashboard.newInquiry.message')}</Label>
                     <Textarea
                       id="message"
                       value={newInquiry.message}
                       onChange={(e) => setNewInquiry({...newInquiry, message: e.target.value})}
-                      placeholder="Treść zapytania klienta..."
+                      placeholder={t('dashboard.newInquiry.messagePlaceholder')}
                       rows={4}
                     />
                   </div>
                 </div>
                 <div className="flex justify-end gap-2">
                   <Button variant="outline" onClick={() => setIsNewInquiryOpen(false)}>
-                    Anuluj
+                    {t('common.cancel')}
                   </Button>
                   <Button onClick={handleCreateInquiry}>
-                    Utwórz zapytanie
+                    {t('dashboard.newInquiry.create')}
                   </Button>
                 </div>
               </DialogContent>
@@ -343,7 +704,7 @@ export function Dashboard() {
             <CardContent className="p-4">
               <div className="flex items-center justify-between">
                 <div>
-                  <p className="text-sm text-gray-600">Oczekujące</p>
+                  <p className="text-sm text-gray-600">{t('dashboard.stats.pending')}</p>
                   <p className="text-2xl font-semibold">{stats.pending}</p>
                 </div>
                 <Clock className="h-8 w-8 text-yellow-600" />
@@ -355,7 +716,7 @@ export function Dashboard() {
             <CardContent className="p-4">
               <div className="flex items-center justify-between">
                 <div>
-                  <p className="text-sm text-gray-600">Zaakceptowane</p>
+                  <p className="text-sm text-gray-600">{t('dashboard.stats.approved')}</p>
                   <p className="text-2xl font-semibold">{stats.approved}</p>
                 </div>
                 <CheckCircle className="h-8 w-8 text-green-600" />
@@ -367,7 +728,7 @@ export function Dashboard() {
             <CardContent className="p-4">
               <div className="flex items-center justify-between">
                 <div>
-                  <p className="text-sm text-gray-600">Średnia pewność AI</p>
+                  <p className="text-sm text-gray-600">{t('dashboard.stats.avgConfidence')}</p>
                   <p className="text-2xl font-semibold">{stats.avgConfidence}%</p>
                 </div>
                 <TrendingUp className="h-8 w-8 text-blue-600" />
@@ -379,7 +740,7 @@ export function Dashboard() {
             <CardContent className="p-4">
               <div className="flex items-center justify-between">
                 <div>
-                  <p className="text-sm text-gray-600">Wszystkie zapytania</p>
+                  <p className="text-sm text-gray-600">{t('dashboard.stats.total')}</p>
                   <p className="text-2xl font-semibold">{inquiries.length}</p>
                 </div>
                 <MessageSquare className="h-8 w-8 text-purple-600" />
@@ -395,7 +756,7 @@ export function Dashboard() {
               <CardHeader>
                 <CardTitle className="flex items-center gap-2">
                   <MessageSquare className="h-5 w-5" />
-                  Zapytania klientów
+                  {t('dashboard.list.title')}
                 </CardTitle>
               </CardHeader>
               <CardContent className="p-0">
@@ -403,8 +764,8 @@ export function Dashboard() {
                   {inquiries.length === 0 ? (
                     <div className="p-8 text-center text-gray-500">
                       <MessageSquare className="h-12 w-12 mx-auto mb-4 opacity-50" />
-                      <p>Brak zapytań do wyświetlenia</p>
-                      <p className="text-sm">Dodaj nowe zapytanie, aby rozpocząć</p>
+                      <p>{t('dashboard.list.empty')}</p>
+                      <p className="text-sm">{t('dashboard.list.emptyHint')}</p>
                     </div>
                   ) : (
                     inquiries.map((inquiry) => (
@@ -416,21 +777,28 @@ export function Dashboard() {
                         onClick={() => setSelectedInquiry(inquiry)}
                       >
                         <div className="mb-2 flex items-center justify-between">
-                          <p className="font-medium">{inquiry.customerName}</p>
-                          <Badge className={`text-xs ${getStatusColor(inquiry.status)}`}>
-                            {inquiry.status === 'pending' ? 'Oczekuje' : 
-                             inquiry.status === 'approved' ? 'Zaakceptowane' : 'Odrzucone'}
-                          </Badge>
+                          <p className="flex items-center gap-1 font-medium">
+                            {inquiry.source && inquiry.source !== 'manual' && (
+                              <Mail className="h-3 w-3 text-gray-400" aria-label={t('dashboard.list.receivedByEmail')} />
+                            )}
+                            {inquiry.customerName}
+                          </p>
+                          <div className="flex items-center gap-1">
+                            {inquiry.needsReview && inquiry.status === 'pending_review' && (
+                              <Badge className="text-xs bg-orange-100 text-orange-800">{t('dashboard.list.needsReview')}</Badge>
+                            )}
+                            <Badge className={`text-xs ${getStatusColor(inquiry.status)}`}>
+                              {getStatusLabel(inquiry.status)}
+                            </Badge>
+                          </div>
                         </div>
                         <p className="mb-2 text-sm font-medium text-gray-900 line-clamp-2">{inquiry.subject}</p>
                         <div className="flex items-center justify-between">
                           <Badge className={`text-xs ${getCategoryColor(inquiry.category)}`}>
-                            {inquiry.category === 'pricing' ? 'Wycena' :
-                             inquiry.category === 'timeline' ? 'Czas realizacji' :
-                             inquiry.category === 'product' ? 'Produkt' : 'Ogólne'}
+                            {getCategoryLabel(inquiry.category)}
                           </Badge>
                           <span className="text-xs text-gray-500">
-                            {new Date(inquiry.timestamp).toLocaleString('pl-PL', {
+                            {formatDateTime(inquiry.timestamp, {
                               day: '2-digit',
                               month: '2-digit',
                               hour: '2-digit',
@@ -452,116 +820,363 @@ export function Dashboard() {
               <Card>
                 <CardHeader>
                   <div className="flex items-center justify-between">
-                    <CardTitle>Szczegóły zapytania</CardTitle>
+                    <CardTitle>{t('dashboard.detail.title')}</CardTitle>
                     <div className="flex gap-2">
                       <Button
                         size="sm"
                         variant="outline"
                         className="text-green-600 hover:bg-green-50"
                         onClick={() => handleApprove(selectedInquiry.id)}
-                        disabled={selectedInquiry.status !== 'pending'}
+                        disabled={!canMoveTo(selectedInquiry, 'approved') || needsVariantChoice(selectedInquiry)}
                       >
                         <CheckCircle className="h-4 w-4 mr-1" />
-                        Akceptuj
+                        {t('dashboard.detail.approve')}
                       </Button>
                       <Button
                         size="sm"
                         variant="outline"
                         className="text-red-600 hover:bg-red-50"
-                        onClick={() => handleReject(selectedInquiry.id)}
-                        disabled={selectedInquiry.status !== 'pending'}
+                        onClick={openRejectDialog}
+                        disabled={!canMoveTo(selectedInquiry, 'rejected')}
                       >
                         <XCircle className="h-4 w-4 mr-1" />
-                        Odrzuć
+                        {t('dashboard.detail.reject')}
                       </Button>
+                      {selectedInquiry.status === 'rejected' && (
+                        <Button
+                          size="sm"
+                          variant="outline"
+                          onClick={() => handleRegenerate(selectedInquiry.id)}
+                          disabled={regenerating}
+                        >
+                          {regenerating ? (
+                            <Loader2 className="h-4 w-4 mr-1 animate-spin" />
+                          ) : (
+                            <RefreshCw className="h-4 w-4 mr-1" />
+                          )}
+                          {t('dashboard.detail.regenerate')}
+                        </Button>
+                      )}
                       <Button
                         size="sm"
                         onClick={openEditDialog}
-                        disabled={selectedInquiry.status !== 'pending'}
+                        disabled={!canMoveTo(selectedInquiry, 'approved') || needsVariantChoice(selectedInquiry)}
                       >
-                        Modyfikuj i wyślij
+                        {t('dashboard.detail.editAndSend')}
                       </Button>
+                      {menuStatuses.some(status => canMoveTo(selectedInquiry, status)) && (
+                        <Select
+                          value=""
+                          onValueChange={(status) => handleStatusChange(selectedInquiry.id, status as InquiryStatus)}
+                        >
+                          <SelectTrigger className="h-8 w-40">
+                            <SelectValue placeholder={t('dashboard.detail.changeStatus')} />
+                          </SelectTrigger>
+                          <SelectContent>
+                            {menuStatuses.filter(status => canMoveTo(selectedInquiry, status)).map(status => (
+                              <SelectItem key={status} value={status}>{getStatusLabel(status)}</SelectItem>
+                            ))}
+                          </SelectContent>
+                        </Select>
+                      )}
                     </div>
                   </div>
                 </CardHeader>
                 <CardContent>
-                  <Tabs defaultValue="inquiry" className="w-full">
+                  {isAutoSendCancellable(selectedInquiry) && (
+                    <div className="mb-4 flex items-center justify-between rounded-lg border border-blue-200 bg-blue-50 p-3">
+                      <div className="flex items-center gap-2 text-sm text-blue-900">
+                        <Send className="h-4 w-4" />
+                        {t('dashboard.autoSend.scheduled', { time: formatTime(selectedInquiry.autoSendAt!) })}
+                      </div>
+                      <Button size="sm" variant="outline" onClick={() => handleCancelAutoSend(selectedInquiry.id)}>
+                        {t('dashboard.autoSend.cancel')}
+                      </Button>
+                    </div>
+                  )}
+                  {selectedInquiry.delivery && (
+                    <div className={`mb-4 flex items-center justify-between rounded-lg border p-3 text-sm ${
+                      selectedInquiry.delivery.state === 'sent' ? 'border-green-200 bg-green-50 text-green-900' :
+                      selectedInquiry.delivery.state === 'failed' ? 'border-red-200 bg-red-50 text-red-900' :
+                      'border-gray-200 bg-gray-50 text-gray-900'
+                    }`}>
+                      <div className="flex items-center gap-2">
+                        <Send className="h-4 w-4" />
+                        {selectedInquiry.delivery.state === 'sent' ? (
+                          <span>
+                            {t('dashboard.delivery.sent', { date: formatDateTime(selectedInquiry.delivery.sentAt!) })}
+                          </span>
+                        ) : selectedInquiry.delivery.state === 'failed' ? (
+                          <span>{t('dashboard.delivery.failed', { error: selectedInquiry.delivery.lastError ?? '' })}</span>
+                        ) : (
+                          <span>
+                            {t('dashboard.delivery.queued')}
+                            {selectedInquiry.delivery.lastError && ` ${t('dashboard.delivery.lastAttempt', { attempt: selectedInquiry.delivery.attempts, error: selectedInquiry.delivery.lastError })}`}
+                          </span>
+                        )}
+                      </div>
+                      {selectedInquiry.delivery.state !== 'sent' && (
+                        <Button size="sm" variant="outline" onClick={() => handleRetryDelivery(selectedInquiry.id)}>
+                          {t('dashboard.delivery.retry')}
+                        </Button>
+                      )}
+                    </div>
+                  )}
+                  {selectedInquiry.needsReview && selectedInquiry.status === 'pending_review' && (
+                    <div className="mb-4 flex items-center gap-2 rounded-lg border border-orange-200 bg-orange-50 p-3 text-sm text-orange-900">
+                      <AlertTriangle className="h-4 w-4" />
+                      {selectedInquiry.figureCheck?.untraced.length
+                        ? t('dashboard.review.untracedFigures')
+                        : t('dashboard.review.lowConfidence')}
+                    </div>
+                  )}
+                  {needsVariantChoice(selectedInquiry) && canMoveTo(selectedInquiry, 'approved') && (
+                    <div className="mb-4 flex items-center gap-2 rounded-lg border border-blue-200 bg-blue-50 p-3 text-sm text-blue-900">
+                      <MessageSquare className="h-4 w-4" />
+                      {t('dashboard.review.chooseVariant', { count: selectedInquiry.variants!.length })}
+                    </div>
+                  )}
+                  <Tabs value={detailTab} onValueChange={setDetailTab} className="w-full">
                     <TabsList className="grid w-full grid-cols-2">
-                      <TabsTrigger value="inquiry">Zapytanie klienta</TabsTrigger>
-                      <TabsTrigger value="suggestion">Sugestia AI</TabsTrigger>
+                      <TabsTrigger value="inquiry">{t('dashboard.tabs.inquiry')}</TabsTrigger>
+                      <TabsTrigger value="suggestion">{t('dashboard.tabs.suggestion')}</TabsTrigger>
                     </TabsList>
                     
                     <TabsContent value="inquiry" className="mt-4">
                       <div className="space-y-4">
                         <div>
-                          <label className="text-sm text-gray-600">Klient:</label>
+                          <label className="text-sm text-gray-600">{t('dashboard.detail.customer')}</label>
                           <p>{selectedInquiry.customerName} ({selectedInquiry.email})</p>
                         </div>
                         <div>
-                          <label className="text-sm text-gray-600">Temat:</label>
+                          <label className="text-sm text-gray-600">{t('dashboard.detail.subject')}</label>
                           <p>{selectedInquiry.subject}</p>
                         </div>
                         <div>
-                          <label className="text-sm text-gray-600">Kategoria:</label>
-                          <Badge className={`${getCategoryColor(selectedInquiry.category)} ml-2`}>
-                            {selectedInquiry.category === 'pricing' ? 'Wycena' :
-                             selectedInquiry.category === 'timeline' ? 'Czas realizacji' :
-                             selectedInquiry.category === 'product' ? 'Produkt' : 'Ogólne'}
-                          </Badge>
+                          <label className="text-sm text-gray-600">{t('dashboard.detail.category')}</label>
+                          <div className="mt-1 flex items-center gap-3">
+                            <Select
+                              value={selectedInquiry.category}
+                              onValueChange={(value) => handleCorrectCategory(selectedInquiry.id, value as Category)}
+                            >
+                              <SelectTrigger className="w-48">
+                                <SelectValue />
+                              </SelectTrigger>
+                              <SelectContent>
+                                {categories.map(category => (
+                                  <SelectItem key={category} value={category}>{getCategoryLabel(category)}</SelectItem>
+                                ))}
+                              </SelectContent>
+                            </Select>
+                            {selectedInquiry.predictedCategory && (
+                              <span className="text-xs text-gray-500">
+                                {selectedInquiry.predictedCategory === selectedInquiry.category
+                                  ? t('dashboard.detail.categoryPredicted', { score: selectedInquiry.categoryScore ?? 0 })
+                                  : t('dashboard.detail.categoryCorrected', { category: getCategoryLabel(selectedInquiry.predictedCategory) })}
+                              </span>
+                            )}
+                          </div>
                         </div>
                         <div>
-                          <label className="text-sm text-gray-600">Wiadomość:</label>
-                          <div className="mt-1 rounded-lg bg-gray-50 p-4">
-                            <p className="whitespace-pre-wrap">{selectedInquiry.message}</p>
+                          <label className="text-sm text-gray-600">{t('dashboard.detail.replyLanguage')}</label>
+                          <div className="mt-1 flex items-center gap-3">
+                            <Select
+                              value={selectedInquiry.language ?? 'pl'}
+                              onValueChange={(value) => handleChangeLanguage(selectedInquiry.id, value as ReplyLanguage)}
+                              disabled={!draftStatuses.includes(selectedInquiry.status) || streamingDraft?.inquiryId === selectedInquiry.id}
+                            >
+                              <SelectTrigger className="w-48">
+                                <SelectValue />
+                              </SelectTrigger>
+                              <SelectContent>
+                                {replyLanguages.map(language => (
+                                  <SelectItem key={language} value={language}>{t(`replyLanguage.${language}`)}</SelectItem>
+                                ))}
+                              </SelectContent>
+                            </Select>
+                            {selectedInquiry.detectedLanguage && (
+                              <span className="text-xs text-gray-500">
+                                {selectedInquiry.detectedLanguage === (selectedInquiry.language ?? 'pl')
+                                  ? t('dashboard.detail.languageDetected')
+                                  : t('dashboard.detail.languageOverridden', { language: t(`replyLanguage.${selectedInquiry.detectedLanguage}`) })}
+                              </span>
+                            )}
                           </div>
                         </div>
+                        {selectedInquiry.thread && selectedInquiry.thread.length > 0 ? (
+                          <div>
+                            <label className="text-sm text-gray-600">{t('dashboard.detail.thread')}</label>
+                            <div className="mt-1">
+                              <ConversationThread
+                                messages={[
+                                  {
+                                    direction: 'inbound',
+                                    messageId: selectedInquiry.messageId,
+                                    from: selectedInquiry.email,
+                                    text: selectedInquiry.message,
+                                    timestamp: selectedInquiry.timestamp
+                                  },
+                                  ...selectedInquiry.thread
+                                ]}
+                              />
+                            </div>
+                          </div>
+                        ) : (
+                          <div>
+                            <label className="text-sm text-gray-600">{t('dashboard.detail.message')}</label>
+                            <div className="mt-1 rounded-lg bg-gray-50 p-4">
+                              <p className="whitespace-pre-wrap">{selectedInquiry.message}</p>
+                            </div>
+                          </div>
+                        )}
+                        {selectedInquiry.attachments && selectedInquiry.attachments.length > 0 && (
+                          <div>
+                            <label className="text-sm text-gray-600">{t('dashboard.detail.attachments')}</label>
+                            <div className="mt-1">
+                              <AttachmentList
+                                attachments={selectedInquiry.attachments}
+                                onDownload={(attachment) => handleDownloadAttachment(selectedInquiry.id, attachment)}
+                              />
+                            </div>
+                          </div>
+                        )}
+                        {selectedInquiry.statusHistory && selectedInquiry.statusHistory.length > 0 && (
+                          <div>
+                            <label className="text-sm text-gray-600">{t('dashboard.detail.statusHistory')}</label>
+                            <div className="mt-1">
+                              <StatusHistory transitions={selectedInquiry.statusHistory} />
+                            </div>
+                          </div>
+                        )}
                       </div>
                     </TabsContent>
                     
                     <TabsContent value="suggestion" className="mt-4">
                       <div className="space-y-4">
                         <div className="flex items-center justify-between">
-                          <label className="text-sm text-gray-600">Sugestia AI:</label>
-                          <div className="flex items-center gap-2">
-                            <span className="text-sm text-gray-600">Pewność:</span>
-                            <Badge className="bg-blue-100 text-blue-800">
-                              {selectedInquiry.confidence}%
-                            </Badge>
-                          </div>
+                          <label className="text-sm text-gray-600">{t('dashboard.suggestion.label')}</label>
+                          {selectedInquiry.confidence !== undefined && (
+                            <div className="flex items-center gap-2">
+                              <span className="text-sm text-gray-600">{t('dashboard.suggestion.confidence')}</span>
+                              <Badge
+                                className="bg-blue-100 text-blue-800"
+                                title={selectedInquiry.rawConfidence !== undefined
+                                  ? t('dashboard.suggestion.rawConfidence', { confidence: selectedInquiry.rawConfidence })
+                                  : undefined}
+                              >
+                                {selectedInquiry.confidence}%
+                              </Badge>
+                            </div>
+                          )}
                         </div>
-                        {selectedInquiry.finalResponse ? (
+                        {streamingDraft?.inquiryId === selectedInquiry.id ? (
+                          <div className="rounded-lg bg-blue-50 p-4 border border-blue-200 space-y-3">
+                            <div className="flex items-center justify-between">
+                              <p className="flex items-center gap-2 text-sm text-gray-600">
+                                <Loader2 className="h-4 w-4 animate-spin" />
+                                {t('dashboard.suggestion.generating')}
+                              </p>
+                              <Button size="sm" variant="outline" onClick={handleCancelStream}>
+                                {t('dashboard.suggestion.stop')}
+                              </Button>
+                            </div>
+                            {Object.entries(streamingDraft.text).map(([key, text]) => (
+                              <div key={key}>
+                                {key !== 'draft' && (
+                                  <p className="text-xs text-gray-500 mb-1">{t(`tone.${key as DraftTone}`)}</p>
+                                )}
+                                <p className="whitespace-pre-wrap">{text}</p>
+                              </div>
+                            ))}
+                          </div>
+                        ) : !selectedInquiry.aiSuggestion ? (
+                          <div className="flex items-center justify-between rounded-lg border border-dashed p-4">
+                            <p className="text-sm text-gray-500">{t('dashboard.suggestion.missing')}</p>
+                            {selectedInquiry.status === 'new' && (
+                              <Button size="sm" variant="outline" onClick={() => handleStreamDraft(selectedInquiry.id)}>
+                                <RefreshCw className="h-4 w-4 mr-1" />
+                                {t('dashboard.suggestion.generate')}
+                              </Button>
+                            )}
+                          </div>
+                        ) : selectedInquiry.finalResponse ? (
                           <div className="rounded-lg bg-green-50 p-4 border border-green-200">
-                            <p className="text-sm text-gray-600 mb-2">Ostateczna odpowiedź</p>
-                            <p className="whitespace-pre-wrap">{selectedInquiry.finalResponse}</p>
+                            <div className="flex items-center justify-between mb-2">
+                              <p className="text-sm text-gray-600">
+                                {showEditDiff ? t('dashboard.suggestion.changes') : t('dashboard.suggestion.final')}
+                              </p>
+                              {selectedInquiry.edit && (
+                                <Button size="sm" variant="ghost" onClick={() => setShowEditDiff(!showEditDiff)}>
+                                  {showEditDiff ? t('dashboard.suggestion.showReply') : t('dashboard.suggestion.showChanges')}
+                                </Button>
+                              )}
+                            </div>
+                            {showEditDiff && selectedInquiry.edit ? (
+                              <DiffView segments={selectedInquiry.edit.diff} />
+                            ) : (
+                              <FlaggedText
+                                text={selectedInquiry.finalResponse}
+                                figures={selectedInquiry.figureCheck?.field === 'finalResponse' ? selectedInquiry.figureCheck.untraced : []}
+                              />
+                            )}
+                            {selectedInquiry.edit && (
+                              <p className="text-xs text-gray-500 mt-2">
+                                {t('dashboard.suggestion.editSummary', { ratio: selectedInquiry.edit.ratio, distance: selectedInquiry.edit.distance })}
+                              </p>
+                            )}
                           </div>
                         ) : (
                           <div className="rounded-lg bg-blue-50 p-4 border border-blue-200">
-                            <p className="text-sm text-gray-600 mb-2">Sugestia AI</p>
-                            <p className="whitespace-pre-wrap">{selectedInquiry.aiSuggestion}</p>
+                            <p className="text-sm text-gray-600 mb-2">
+                              {t('dashboard.tabs.suggestion')}{selectedInquiry.tone && ` · ${t(`tone.${selectedInquiry.tone}`)}`}
+                            </p>
+                            <FlaggedText
+                              text={selectedInquiry.aiSuggestion}
+                              figures={selectedInquiry.figureCheck?.field === 'aiSuggestion' ? selectedInquiry.figureCheck.untraced : []}
+                            />
+                          </div>
+                        )}
+                        {!!selectedInquiry.figureCheck?.untraced.length && (
+                          <p className="flex items-center gap-2 text-sm text-red-700">
+                            <AlertTriangle className="h-4 w-4" />
+                            {t('dashboard.suggestion.untraced', { count: selectedInquiry.figureCheck.untraced.length })}
+                          </p>
+                        )}
+                        {selectedInquiry.variants && selectedInquiry.variants.length > 1 && !selectedInquiry.finalResponse && (
+                          <div>
+                            <label className="text-sm text-gray-600">{t('dashboard.suggestion.variants')}</label>
+                            <div className="mt-1">
+                              <DraftVariantPicker
+                                variants={selectedInquiry.variants}
+                                selected={selectedInquiry.tone}
+                                disabled={!canMoveTo(selectedInquiry, 'approved')}
+                                onSelect={(tone) => handleSelectVariant(selectedInquiry.id, tone)}
+                              />
+                            </div>
+                          </div>
+                        )}
+                        <SourceCitations sources={selectedInquiry.sources} onOpen={openSource} />
+                        {selectedInquiry.drafts && selectedInquiry.drafts.length > 1 && (
+                          <div>
+                            <label className="text-sm text-gray-600">{t('dashboard.suggestion.versions')}</label>
+                            <div className="mt-1">
+                              <DraftVersions drafts={selectedInquiry.drafts} />
+                            </div>
                           </div>
                         )}
-                        <div className="text-sm text-gray-500">
-                          <p>Sugestia wygenerowana na podstawie:</p>
-                          <ul className="ml-4 mt-1 list-disc space-y-1">
-                            <li>Bazy wiedzy o firmie Nardos House</li>
-                            <li>Historii podobnych zapytań</li>
-                            <li>Aktualnego cennika i dostępności</li>
-                            <li>Kategorii zapytania: {selectedInquiry.category}</li>
-                          </ul>
-                        </div>
                       </div>
                     </TabsContent>
                   </Tabs>
                   <Dialog open={isEditOpen} onOpenChange={setIsEditOpen}>
                     <DialogContent className="sm:max-w-lg">
                       <DialogHeader>
-                        <DialogTitle>Edytuj odpowiedź przed wysłaniem</DialogTitle>
+                        <DialogTitle>{t('dashboard.edit.title')}</DialogTitle>
                         <DialogDescription>
-                          Zmodyfikuj treść sugerowanej odpowiedzi przed zatwierdzeniem i wysyłką.
+                          {t('dashboard.edit.description')}
                         </DialogDescription>
                       </DialogHeader>
                       <div className="space-y-2">
-                        <Label>Treść odpowiedzi</Label>
+                        <Label>{t('dashboard.edit.body')}</Label>
                         <Textarea
                           value={editedResponse}
                           onChange={(e) => setEditedResponse(e.target.value)}
@@ -569,8 +1184,60 @@ export function Dashboard() {
                         />
                       </div>
                       <div className="flex justify-end gap-2">
-                        <Button variant="outline" onClick={() => setIsEditOpen(false)}>Anuluj</Button>
-                        <Button onClick={handleEditAndSend}>Wyślij</Button>
+                        <Button variant="outline" onClick={() => setIsEditOpen(false)}>{t('common.cancel')}</Button>
+                        <Button onClick={handleEditAndSend}>{t('dashboard.edit.send')}</Button>
+                      </div>
+                    </DialogContent>
+                  </Dialog>
+                  <Dialog open={isRejectOpen} onOpenChange={setIsRejectOpen}>
+                    <DialogContent className="sm:max-w-lg">
+                      <DialogHeader>
+                        <DialogTitle>{t('dashboard.reject.title')}</DialogTitle>
+                        <DialogDescription>
+                          {t('dashboard.reject.description')}
+                        </DialogDescription>
+                      </DialogHeader>
+                      <div className="space-y-4">
+                        <div className="space-y-2">
+                          <Label>{t('dashboard.reject.reason')}</Label>
+                          <Select
+                            value={rejection.reason}
+                            onValueChange={(reason) => setRejection({ ...rejection, reason: reason as RejectionReason })}
+                          >
+                            <SelectTrigger>
+                              <SelectValue placeholder={t('dashboard.reject.reasonPlaceholder')} />
+                            </SelectTrigger>
+                            <SelectContent>
+                              {rejectionReasons.map(reason => (
+                                <SelectItem key={reason} value={reason}>{t(`rejection.${reason}`)}</SelectItem>
+                              ))}
+                            </SelectContent>
+                          </Select>
+                        </div>
+                        <div className="space-y-2">
+                          <Label>{t('dashboard.reject.instructions')}</Label>
+                          <Textarea
+                            value={rejection.instructions}
+                            onChange={(e) => setRejection({ ...rejection, instructions: e.target.value })}
+                            placeholder={t('dashboard.reject.instructionsPlaceholder')}
+                            rows={3}
+                          />
+                        </div>
+                      </div>
+                      <div className="flex justify-end gap-2">
+                        <Button variant="outline" onClick={() => handleReject(selectedInquiry.id, false)}>{t('dashboard.detail.reject')}</Button>
+                        <Button onClick={() => handleReject(selectedInquiry.id, true)}>{t('dashboard.reject.andRegenerate')}</Button>
+                      </div>
+                    </DialogContent>
+                  </Dialog>
+                  <Dialog open={viewedKnowledge !== null} onOpenChange={(open) => !open && setViewedKnowledge(null)}>
+                    <DialogContent className="sm:max-w-lg">
+                      <DialogHeader>
+                        <DialogTitle>{viewedKnowledge?.title}</DialogTitle>
+                        <DialogDescription>{t('dashboard.knowledge.description')}</DialogDescription>
+                      </DialogHeader>
+                      <div className="rounded bg-gray-50 p-3">
+                        <pre className="text-sm whitespace-pre-wrap">{viewedKnowledge?.content}</pre>
                       </div>
                     </DialogContent>
                   </Dialog>
@@ -581,9 +1248,9 @@ export function Dashboard() {
                 <CardContent className="flex items-center justify-center h-[600px]">
                   <div className="text-center">
                     <MessageSquare className="h-12 w-12 text-gray-400 mx-auto mb-4" />
-                    <p className="text-gray-600">Wybierz zapytanie z listy, aby zobaczyć szczegóły</p>
+                    <p className="text-gray-600">{t('dashboard.empty.title')}</p>
                     <p className="text-sm text-gray-500 mt-2">
-                      {inquiries.length === 0 ? 'Dodaj pierwsze zapytanie, aby rozpocząć pracę' : 'Kliknij na dowolne zapytanie po lewej stronie'}
+                      {inquiries.length === 0 ? t('dashboard.empty.noInquiries') : t('dashboard.empty.pick')}
                     </p>
                   </div>
                 </CardContent>
@@ -0,0 +1,24 @@
+export interface DiffSegment {
+  type: 'equal' | 'added' | 'removed';
+  text: string;
+}
+
+interface DiffViewProps {
+  segments: DiffSegment[];
+}
+
+export function DiffView({ segments }: DiffViewProps) {
+  return (
+    <p className="text-sm whitespace-pre-wrap">
+      {segments.map((segment, index) =>
+        segment.type === 'added' ? (
+          <ins key={index} className="bg-green-100 text-green-900 no-underline">{segment.text}</ins>
+        ) : segment.type === 'removed' ? (
+          <del key={index} className="bg-red-100 text-red-900">{segment.text}</del>
+        ) : (
+          <span key={index}>{segment.text}</span>
+        )
+      )}
+    </p>
+  );
+}
@@ -0,0 +1,54 @@
+import { Button } from './ui/button';
+import { Badge } from './ui/badge';
+import { useI18n } from './i18n';
+
+export type DraftTone = 'formal' | 'friendly' | 'concise' | 'upsell';
+
+export interface DraftVariant {
+  tone: DraftTone;
+  text: string;
+  confidence: number;
+  rawConfidence: number;
+}
+
+export const draftTones: DraftTone[] = ['formal', 'friendly', 'concise', 'upsell'];
+
+interface DraftVariantPickerProps {
+  variants: DraftVariant[];
+  selected?: DraftTone;
+  disabled?: boolean;
+  onSelect: (tone: DraftTone) => void;
+}
+
+// Variants of the same draft side by side; the reviewer picks the one to approve or edit
+export function DraftVariantPicker({ variants, selected, disabled, onSelect }: DraftVariantPickerProps) {
+  const { t } = useI18n();
+
+  return (
+    <div className="space-y-2">
+      {variants.map((variant) => (
+        <div
+          key={variant.tone}
+          className={`rounded-lg border p-3 text-sm ${
+            variant.tone === selected ? 'border-blue-400 bg-blue-50' : 'bg-gray-50'
+          }`}
+        >
+          <div className="mb-1 flex items-center justify-between gap-2">
+            <div className="flex items-center gap-2">
+              <span className="font-medium">{t(`tone.${variant.tone}`)}</span>
+              <Badge variant="outline" className="text-xs">{variant.confidence}%</Badge>
+            </div>
+            {variant.tone === selected ? (
+              <Badge className="bg-blue-100 text-blue-800 text-xs">{t('variants.selected')}</Badge>
+            ) : (
+              <Button size="sm" variant="outline" disabled={disabled} onClick={() => onSelect(variant.tone)}>
+                {t('variants.choose')}
+              </Button>
+            )}
+          </div>
+          <p className="whitespace-pre-wrap text-gray-700">{variant.text}</p>
+        </div>
+      ))}
+    </div>
+  );
+}
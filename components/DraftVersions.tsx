@@ -0,0 +1,68 @@
+import { Badge } from './ui/badge';
+import { DraftTone } from './DraftVariantPicker';
+import { useI18n } from './i18n';
+
+export type RejectionReason = 'wrong_information' | 'missing_information' | 'tone' | 'too_long' | 'other';
+
+export interface Rejection {
+  reason: RejectionReason;
+  instructions?: string;
+  actor: string;
+  rejectedAt: string;
+}
+
+export interface DraftVersion {
+  version: number;
+  text: string;
+  confidence?: number;
+  createdAt: string;
+  guidance?: string;
+  rejection?: Rejection;
+  tone?: DraftTone;
+}
+
+export const rejectionReasons: RejectionReason[] = ['wrong_information', 'missing_information', 'tone', 'too_long', 'other'];
+
+interface DraftVersionsProps {
+  drafts: DraftVersion[];
+}
+
+// Every draft generated for an inquiry, newest first, with the reason each rejected one was turned down
+export function DraftVersions({ drafts }: DraftVersionsProps) {
+  const { t, formatDateTime } = useI18n();
+
+  return (
+    <ul className="space-y-2">
+      {[...drafts].reverse().map((draft) => (
+        <li key={draft.version} className="rounded-lg border bg-gray-50 p-3 text-sm">
+          <div className="mb-1 flex items-center justify-between gap-2">
+            <span className="font-medium">
+              {t('versions.version', { version: draft.version })}{draft.tone && ` · ${t(`tone.${draft.tone}`)}`}
+            </span>
+            <div className="flex items-center gap-2">
+              {draft.confidence !== undefined && (
+                <Badge variant="outline" className="text-xs">{draft.confidence}%</Badge>
+              )}
+              {draft.rejection && (
+                <Badge className="bg-red-100 text-red-800 text-xs">
+                  {t(`rejection.${draft.rejection.reason}`)}
+                </Badge>
+              )}
+            </div>
+          </div>
+          <p className="whitespace-pre-wrap text-gray-700">{draft.text}</p>
+          <p className="mt-1 text-xs text-gray-500">
+            {formatDateTime(draft.createdAt)}
+            {draft.guidance && ` · ${t('versions.guidance', { guidance: draft.guidance })}`}
+          </p>
+          {draft.rejection && (
+            <p className="text-xs text-gray-500">
+              {t('versions.rejectedBy', { actor: draft.rejection.actor, date: formatDateTime(draft.rejection.rejectedAt) })}
+              {draft.rejection.instructions && ` · ${draft.rejection.instructions}`}
+            </p>
+          )}
+        </li>
+      ))}
+    </ul>
+  );
+}
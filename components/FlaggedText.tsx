@@ -0,0 +1,39 @@
+import { useI18n } from './i18n';
+
+export interface DraftFigure {
+  kind: 'amount' | 'duration' | 'date';
+  text: string;
+  start: number;
+  end: number;
+}
+
+interface FlaggedTextProps {
+  text: string;
+  figures: DraftFigure[];
+}
+
+// Renders a reply with the figures that could not be traced to the knowledge base or price list highlighted
+export function FlaggedText({ text, figures }: FlaggedTextProps) {
+  const { t } = useI18n();
+  const ordered = [...figures].sort((a, b) => a.start - b.start);
+  const parts: JSX.Element[] = [];
+  let position = 0;
+
+  ordered.forEach((figure, index) => {
+    if (figure.start < position) return;
+    parts.push(<span key={`text-${index}`}>{text.slice(position, figure.start)}</span>);
+    parts.push(
+      <mark
+        key={`figure-${index}`}
+        className="rounded bg-red-100 px-0.5 text-red-900 underline decoration-red-400 decoration-wavy"
+        title={t('figures.untraced', { kind: t(`figures.${figure.kind}`) })}
+      >
+        {text.slice(figure.start, figure.end)}
+      </mark>
+    );
+    position = figure.end;
+  });
+  parts.push(<span key="text-end">{text.slice(position)}</span>);
+
+  return <p className="whitespace-pre-wrap">{parts}</p>;
+}
@@ -0,0 +1,75 @@
+import { useState, useEffect } from 'react';
+import { Card, CardContent, CardHeader, CardTitle } from './ui/card';
+import { Badge } from './ui/badge';
+import { Loader2 } from 'lucide-react';
+import { apiCall } from '../utils/api';
+import { toast } from 'sonner@2.0.3';
+import type { KnowledgeRevision } from './KnowledgeHistory';
+import { useI18n } from './i18n';
+
+interface KnowledgeChange extends KnowledgeRevision {
+  itemId: string;
+}
+
+// Most recent edits to the knowledge base, across all items
+export function KnowledgeChangelog() {
+  const { t, formatDateTime } = useI18n();
+  const [changes, setChanges] = useState<KnowledgeChange[]>([]);
+  const [loading, setLoading] = useState(true);
+
+  const loadChanges = async () => {
+    try {
+      setLoading(true);
+      const response = await apiCall('/knowledge/changelog?limit=10');
+      if (response.success) {
+        setChanges(response.data);
+      }
+    } catch (error) {
+      console.error('Error loading knowledge changelog:', error);
+      toast.error(t('changelog.toast.loadError'));
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  useEffect(() => {
+    loadChanges();
+  }, []);
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle>{t('changelog.title')}</CardTitle>
+      </CardHeader>
+      <CardContent>
+        {loading ? (
+          <div className="flex items-center justify-center h-16">
+            <Loader2 className="h-5 w-5 animate-spin" />
+          </div>
+        ) : changes.length === 0 ? (
+          <p className="text-sm text-gray-500">{t('changelog.empty')}</p>
+        ) : (
+          <div className="space-y-4">
+            {changes.map((change) => (
+              <div
+                key={`${change.itemId}-${change.revision}`}
+                className="flex items-center justify-between p-3 bg-gray-50 rounded-lg"
+              >
+                <div>
+                  <p className="text-sm font-medium">{change.title}</p>
+                  <p className="text-xs text-gray-500">
+                    {formatDateTime(change.changedAt)} · {change.author} · {t('changelog.revision', { revision: change.revision })}
+                    {change.revertedFrom !== undefined && ` ${t('changelog.revertedFrom', { revision: change.revertedFrom })}`}
+                  </p>
+                </div>
+                <Badge variant="outline" className="text-xs">
+                  {t(`changelog.action.${change.action}`)}
+                </Badge>
+              </div>
+            ))}
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,207 @@
+import { useState, useEffect } from 'react';
+import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogDescription } from './ui/dialog';
+import { Button } from './ui/button';
+import { Badge } from './ui/badge';
+import { ScrollArea } from './ui/scroll-area';
+import { Loader2, RotateCcw } from 'lucide-react';
+import { apiCall } from '../utils/api';
+import { toast } from 'sonner@2.0.3';
+import { DiffView, DiffSegment } from './DiffView';
+import { useI18n } from './i18n';
+
+export interface KnowledgeRevision {
+  revision: number;
+  title: string;
+  content: string;
+  author: string;
+  changedAt: string;
+  action: 'created' | 'updated' | 'reverted';
+  revertedFrom?: number;
+}
+
+interface KnowledgeItem {
+  id: string;
+  title: string;
+  content: string;
+  createdAt?: string;
+  revision?: number;
+  updatedAt?: string;
+  updatedBy?: string;
+}
+
+interface RevisionDiff {
+  from: number;
+  to: number;
+  title: DiffSegment[];
+  content: DiffSegment[];
+}
+
+interface KnowledgeHistoryProps {
+  itemId: string | null;
+  author: string;
+  onClose: () => void;
+  onReverted: (item: KnowledgeItem) => void;
+}
+
+export function KnowledgeHistory({ itemId, author, onClose, onReverted }: KnowledgeHistoryProps) {
+  const { t, formatDateTime } = useI18n();
+  const [history, setHistory] = useState<KnowledgeRevision[]>([]);
+  const [selected, setSelected] = useState<number | null>(null);
+  const [diff, setDiff] = useState<RevisionDiff | null>(null);
+  const [loading, setLoading] = useState(false);
+  const [reverting, setReverting] = useState(false);
+
+  const loadHistory = async (id: string) => {
+    try {
+      setLoading(true);
+      const response = await apiCall(`/knowledge/${id}/history`);
+      if (response.success) {
+        setHistory(response.data);
+        setSelected(response.data[response.data.length - 1]?.revision ?? null);
+      }
+    } catch (error) {
+      console.error('Error loading knowledge history:', error);
+      toast.error(t('history.toast.loadError'));
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  // Each revision is compared with the one before it
+  const loadDiff = async (id: string, revision: number) => {
+    try {
+      const response = await apiCall(`/knowledge/${id}/diff?from=${revision - 1}&to=${revision}`);
+      if (response.success) {
+        setDiff(response.data);
+      }
+    } catch (error) {
+      console.error('Error loading revision diff:', error);
+      toast.error(t('history.toast.diffError'));
+    }
+  };
+
+  const handleRevert = async (revision: number) => {
+    if (!itemId) return;
+    try {
+      setReverting(true);
+      const response = await apiCall(`/knowledge/${itemId}/revert`, {
+        method: 'POST',
+        body: JSON.stringify({ revision, author })
+      });
+      if (response.success) {
+        onReverted(response.data);
+        toast.success(t('history.toast.reverted', { revision }));
+        await loadHistory(itemId);
+      }
+    } catch (error) {
+      console.error('Error reverting knowledge item:', error);
+      toast.error(t('history.toast.revertError'));
+    } finally {
+      setReverting(false);
+    }
+  };
+
+  useEffect(() => {
+    setHistory([]);
+    setDiff(null);
+    if (itemId) {
+      loadHistory(itemId);
+    }
+  }, [itemId]);
+
+  useEffect(() => {
+    setDiff(null);
+    if (itemId && selected && selected > 1) {
+      loadDiff(itemId, selected);
+    }
+  }, [itemId, selected]);
+
+  const current = history[history.length - 1];
+  const selectedRevision = history.find((entry) => entry.revision === selected);
+
+  return (
+    <Dialog open={!!itemId} onOpenChange={(open) => !open && onClose()}>
+      <DialogContent className="max-w-3xl">
+        <DialogHeader>
+          <DialogTitle>{t('history.title')}</DialogTitle>
+          <DialogDescription>{current?.title}</DialogDescription>
+        </DialogHeader>
+
+        {loading ? (
+          <div className="flex justify-center py-8">
+            <Loader2 className="h-6 w-6 animate-spin" />
+          </div>
+        ) : (
+          <div className="grid grid-cols-3 gap-4">
+            <ScrollArea className="h-[400px] pr-2">
+              <div className="space-y-2">
+                {[...history].reverse().map((entry) => (
+                  <button
+                    key={entry.revision}
+                    type="button"
+                    onClick={() => setSelected(entry.revision)}
+                    className={`w-full rounded-lg border p-3 text-left ${
+                      entry.revision === selected ? 'border-blue-500 bg-blue-50' : 'hover:bg-gray-50'
+                    }`}
+                  >
+                    <div className="flex items-center justify-between">
+                      <span className="text-sm font-medium">{t('versions.version', { version: entry.revision })}</span>
+                      <Badge variant="outline" className="text-xs">{t(`history.action.${entry.action}`)}</Badge>
+                    </div>
+                    <p className="text-xs text-gray-500 mt-1">{entry.author}</p>
+                    <p className="text-xs text-gray-500">{formatDateTime(entry.changedAt)}</p>
+                  </button>
+                ))}
+              </div>
+            </ScrollArea>
+
+            <div className="col-span-2 space-y-3">
+              {selectedRevision && (
+                <>
+                  <div className="flex items-center justify-between">
+                    <p className="text-sm text-gray-600">
+                      {selectedRevision.revertedFrom
+                        ? t('history.revertedFrom', { revision: selectedRevision.revertedFrom })
+                        : selectedRevision.revision === 1
+                          ? t('history.first')
+                          : t('history.changesSince', { revision: selectedRevision.revision - 1 })}
+                    </p>
+                    {selectedRevision.revision !== current?.revision && (
+                      <Button
+                        size="sm"
+                        variant="outline"
+                        onClick={() => handleRevert(selectedRevision.revision)}
+                        disabled={reverting}
+                      >
+                        <RotateCcw className="h-4 w-4 mr-1" />
+                        {t('history.revert')}
+                      </Button>
+                    )}
+                  </div>
+                  <ScrollArea className="h-[360px]">
+                    <div className="space-y-3">
+                      <div className="rounded bg-gray-50 p-3">
+                        {diff && diff.to === selectedRevision.revision ? (
+                          <DiffView segments={diff.title} />
+                        ) : (
+                          <p className="text-sm font-medium">{selectedRevision.title}</p>
+                        )}
+                      </div>
+                      <div className="rounded bg-gray-50 p-3">
+                        {diff && diff.to === selectedRevision.revision ? (
+                          <DiffView segments={diff.content} />
+                        ) : (
+                          <pre className="text-sm whitespace-pre-wrap">{selectedRevision.content}</pre>
+                        )}
+                      </div>
+                    </div>
+                  </ScrollArea>
+                </>
+              )}
+            </div>
+          </div>
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+}
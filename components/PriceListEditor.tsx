@@ -0,0 +1,367 @@
+import { useState, useEffect } from 'react';
+import { Card, CardContent, CardHeader, CardTitle } from './ui/card';
+import { Button } from './ui/button';
+import { Input } from './ui/input';
+import { Label } from './ui/label';
+import { Badge } from './ui/badge';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from './ui/table';
+import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogDescription } from './ui/dialog';
+import { Plus, Pencil, X, Save, Loader2 } from 'lucide-react';
+import { apiCall } from '../utils/api';
+import { toast } from 'sonner@2.0.3';
+import { useI18n } from './i18n';
+
+export interface PriceListEntry {
+  id: string;
+  service: string;
+  aliases?: { en?: string; de?: string };
+  minPrice: number;
+  maxPrice: number;
+  unit: string;
+  minLeadTimeWeeks?: number;
+  maxLeadTimeWeeks?: number;
+  validFrom?: string;
+  validTo?: string;
+}
+
+// Form state keeps every field as typed text until it is saved
+interface PriceForm {
+  id?: string;
+  service: string;
+  aliasEn: string;
+  aliasDe: string;
+  minPrice: string;
+  maxPrice: string;
+  unit: string;
+  minLeadTimeWeeks: string;
+  maxLeadTimeWeeks: string;
+  validFrom: string;
+  validTo: string;
+}
+
+const emptyForm: PriceForm = {
+  service: '',
+  aliasEn: '',
+  aliasDe: '',
+  minPrice: '',
+  maxPrice: '',
+  unit: 'projekt',
+  minLeadTimeWeeks: '',
+  maxLeadTimeWeeks: '',
+  validFrom: '',
+  validTo: ''
+};
+
+const toForm = (entry: PriceListEntry): PriceForm => ({
+  id: entry.id,
+  service: entry.service,
+  aliasEn: entry.aliases?.en ?? '',
+  aliasDe: entry.aliases?.de ?? '',
+  minPrice: String(entry.minPrice),
+  maxPrice: String(entry.maxPrice),
+  unit: entry.unit,
+  minLeadTimeWeeks: entry.minLeadTimeWeeks?.toString() ?? '',
+  maxLeadTimeWeeks: entry.maxLeadTimeWeeks?.toString() ?? '',
+  validFrom: entry.validFrom ?? '',
+  validTo: entry.validTo ?? ''
+});
+
+const optionalNumber = (value: string) => value.trim() === '' ? undefined : Number(value);
+
+const isActive = (entry: PriceListEntry) => {
+  const today = new Date().toISOString().slice(0, 10);
+  return (!entry.validFrom || entry.validFrom <= today) && (!entry.validTo || today <= entry.validTo);
+};
+
+export function PriceListEditor() {
+  const { t, formatDate, formatNumber } = useI18n();
+  const [prices, setPrices] = useState<PriceListEntry[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [saving, setSaving] = useState(false);
+  const [form, setForm] = useState<PriceForm | null>(null);
+
+  const formatPrice = (entry: PriceListEntry) => t('prices.amount', {
+    amount: entry.minPrice === entry.maxPrice
+      ? formatNumber(entry.minPrice)
+      : `${formatNumber(entry.minPrice)}-${formatNumber(entry.maxPrice)}`
+  });
+
+  const formatLeadTime = (entry: PriceListEntry) => {
+    const { minLeadTimeWeeks: min, maxLeadTimeWeeks: max } = entry;
+    if (min === undefined && max === undefined) return '—';
+    if (min === undefined || max === undefined || min === max) return t('prices.weeks', { weeks: (min ?? max)! });
+    return t('prices.weeks', { weeks: `${min}-${max}` });
+  };
+
+  const formatDay = (day?: string) => day ? formatDate(`${day}T00:00:00`) : '…';
+
+  const loadPrices = async () => {
+    try {
+      setLoading(true);
+      const response = await apiCall('/prices');
+      if (response.success) {
+        setPrices(response.data);
+      }
+    } catch (error) {
+      console.error('Error loading price list:', error);
+      toast.error(t('prices.toast.loadError'));
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const savePrice = async () => {
+    if (!form) return;
+    try {
+      setSaving(true);
+      const body = {
+        service: form.service,
+        aliases: { en: form.aliasEn, de: form.aliasDe },
+        minPrice: Number(form.minPrice),
+        maxPrice: Number(form.maxPrice),
+        unit: form.unit,
+        minLeadTimeWeeks: optionalNumber(form.minLeadTimeWeeks),
+        maxLeadTimeWeeks: optionalNumber(form.maxLeadTimeWeeks),
+        validFrom: form.validFrom || undefined,
+        validTo: form.validTo || undefined
+      };
+      const response = await apiCall(form.id ? `/prices/${form.id}` : '/prices', {
+        method: form.id ? 'PUT' : 'POST',
+        body: JSON.stringify(body)
+      });
+
+      if (response.success) {
+        setPrices(prev => form.id
+          ? prev.map(entry => entry.id === form.id ? response.data : entry)
+          : [...prev, response.data]);
+        setForm(null);
+        toast.success(t('prices.toast.saved'));
+      }
+    } catch (error) {
+      console.error('Error saving price entry:', error);
+      toast.error(t('prices.toast.saveError', { error: (error as Error).message }));
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const removePrice = async (id: string) => {
+    try {
+      const response = await apiCall(`/prices/${id}`, {
+        method: 'DELETE'
+      });
+
+      if (response.success) {
+        setPrices(prev => prev.filter(entry => entry.id !== id));
+        toast.success(t('prices.toast.removed'));
+      }
+    } catch (error) {
+      console.error('Error removing price entry:', error);
+      toast.error(t('prices.toast.removeError'));
+    }
+  };
+
+  useEffect(() => {
+    loadPrices();
+  }, []);
+
+  return (
+    <Card>
+      <CardHeader className="flex flex-row items-center justify-between">
+        <div>
+          <CardTitle>{t('prices.title')}</CardTitle>
+          <p className="text-sm text-gray-500 mt-1">
+            {t('prices.hint')}
+          </p>
+        </div>
+        <Button size="sm" onClick={() => setForm(emptyForm)}>
+          <Plus className="h-4 w-4 mr-1" />
+          {t('prices.add')}
+        </Button>
+      </CardHeader>
+      <CardContent>
+        {loading ? (
+          <div className="flex justify-center py-8">
+            <Loader2 className="h-6 w-6 animate-spin" />
+          </div>
+        ) : (
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>{t('prices.service')}</TableHead>
+                <TableHead>{t('prices.price')}</TableHead>
+                <TableHead>{t('prices.unit')}</TableHead>
+                <TableHead>{t('prices.leadTime')}</TableHead>
+                <TableHead>{t('prices.validity')}</TableHead>
+                <TableHead />
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {prices.map((entry) => (
+                <TableRow key={entry.id}>
+                  <TableCell className="font-medium">
+                    {entry.service}
+                    {!isActive(entry) && (
+                      <Badge variant="outline" className="ml-2 text-xs">{t('prices.inactive')}</Badge>
+                    )}
+                    {(entry.aliases?.en || entry.aliases?.de) && (
+                      <p className="text-xs font-normal text-gray-500">
+                        {[entry.aliases.en, entry.aliases.de].filter(Boolean).join(' · ')}
+                      </p>
+                    )}
+                  </TableCell>
+                  <TableCell>{formatPrice(entry)}</TableCell>
+                  <TableCell>{entry.unit}</TableCell>
+                  <TableCell>{formatLeadTime(entry)}</TableCell>
+                  <TableCell className="text-sm text-gray-600">
+                    {entry.validFrom || entry.validTo
+                      ? `${formatDay(entry.validFrom)} – ${formatDay(entry.validTo)}`
+                      : t('prices.indefinite')}
+                  </TableCell>
+                  <TableCell>
+                    <div className="flex justify-end gap-2">
+                      <Button size="sm" variant="outline" onClick={() => setForm(toForm(entry))}>
+                        <Pencil className="h-4 w-4" />
+                      </Button>
+                      <Button
+                        size="sm"
+                        variant="outline"
+                        className="text-red-600 hover:bg-red-50"
+                        onClick={() => removePrice(entry.id)}
+                      >
+                        <X className="h-4 w-4" />
+                      </Button>
+                    </div>
+                  </TableCell>
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+        )}
+      </CardContent>
+
+      <Dialog open={!!form} onOpenChange={(open) => !open && setForm(null)}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>{form?.id ? t('prices.form.editTitle') : t('prices.form.newTitle')}</DialogTitle>
+            <DialogDescription>{t('prices.form.description')}</DialogDescription>
+          </DialogHeader>
+          {form && (
+            <div className="space-y-4">
+              <div className="space-y-2">
+                <Label htmlFor="price-service">{t('prices.service')}</Label>
+                <Input
+                  id="price-service"
+                  value={form.service}
+                  onChange={(e) => setForm({ ...form, service: e.target.value })}
+                  placeholder={t('prices.form.servicePlaceholder')}
+                />
+              </div>
+              <div className="grid grid-cols-2 gap-4">
+                <div className="space-y-2">
+                  <Label htmlFor="price-alias-en">{t('prices.form.aliasEn')}</Label>
+                  <Input
+                    id="price-alias-en"
+                    value={form.aliasEn}
+                    onChange={(e) => setForm({ ...form, aliasEn: e.target.value })}
+                    placeholder={t('prices.form.aliasEnPlaceholder')}
+                  />
+                </div>
+                <div className="space-y-2">
+                  <Label htmlFor="price-alias-de">{t('prices.form.aliasDe')}</Label>
+                  <Input
+                    id="price-alias-de"
+                    value={form.aliasDe}
+                    onChange={(e) => setForm({ ...form, aliasDe: e.target.value })}
+                    placeholder={t('prices.form.aliasDePlaceholder')}
+                  />
+                </div>
+              </div>
+              <div className="grid grid-cols-3 gap-4">
+                <div className="space-y-2">
+                  <Label htmlFor="price-min">{t('prices.form.minPrice')}</Label>
+                  <Input
+                    id="price-min"
+                    type="number"
+                    min={0}
+                    value={form.minPrice}
+                    onChange={(e) => setForm({ ...form, minPrice: e.target.value })}
+                  />
+                </div>
+                <div className="space-y-2">
+                  <Label htmlFor="price-max">{t('prices.form.maxPrice')}</Label>
+                  <Input
+                    id="price-max"
+                    type="number"
+                    min={0}
+                    value={form.maxPrice}
+                    onChange={(e) => setForm({ ...form, maxPrice: e.target.value })}
+                  />
+                </div>
+                <div className="space-y-2">
+                  <Label htmlFor="price-unit">{t('prices.unit')}</Label>
+                  <Input
+                    id="price-unit"
+                    value={form.unit}
+                    onChange={(e) => setForm({ ...form, unit: e.target.value })}
+                  />
+                </div>
+              </div>
+              <div className="grid grid-cols-2 gap-4">
+                <div className="space-y-2">
+                  <Label htmlFor="price-lead-min">{t('prices.form.minLeadTime')}</Label>
+                  <Input
+                    id="price-lead-min"
+                    type="number"
+                    min={1}
+                    value={form.minLeadTimeWeeks}
+                    onChange={(e) => setForm({ ...form, minLeadTimeWeeks: e.target.value })}
+                  />
+                </div>
+                <div className="space-y-2">
+                  <Label htmlFor="price-lead-max">{t('prices.form.maxLeadTime')}</Label>
+                  <Input
+                    id="price-lead-max"
+                    type="number"
+                    min={1}
+                    value={form.maxLeadTimeWeeks}
+                    onChange={(e) => setForm({ ...form, maxLeadTimeWeeks: e.target.value })}
+                  />
+                </div>
+              </div>
+              <div className="grid grid-cols-2 gap-4">
+                <div className="space-y-2">
+                  <Label htmlFor="price-valid-from">{t('prices.form.validFrom')}</Label>
+                  <Input
+                    id="price-valid-from"
+                    type="date"
+                    value={form.validFrom}
+                    onChange={(e) => setForm({ ...form, validFrom: e.target.value })}
+                  />
+                </div>
+                <div className="space-y-2">
+                  <Label htmlFor="price-valid-to">{t('prices.form.validTo')}</Label>
+                  <Input
+                    id="price-valid-to"
+                    type="date"
+                    value={form.validTo}
+                    onChange={(e) => setForm({ ...form, validTo: e.target.value })}
+                  />
+                </div>
+              </div>
+              <div className="flex gap-2">
+                <Button onClick={savePrice} disabled={saving || !form.service || !form.minPrice || !form.maxPrice}>
+                  <Save className="h-4 w-4 mr-1" />
+                  {t('common.save')}
+                </Button>
+                <Button variant="outline" onClick={() => setForm(null)}>
+                  {t('common.cancel')}
+                </Button>
+              </div>
+            </div>
+          )}
+        </DialogContent>
+      </Dialog>
+    </Card>
+  );
+}
@@ -0,0 +1,59 @@
+import { Database, MessageSquare } from 'lucide-react';
+import { useI18n } from './i18n';
+
+export interface DraftSource {
+  type: 'knowledge' | 'inquiry';
+  id: string;
+  title: string;
+  snippet: string;
+  score: number;
+}
+
+interface SourceCitationsProps {
+  sources?: DraftSource[];
+  onOpen: (source: DraftSource) => void;
+}
+
+export function SourceCitations({ sources, onOpen }: SourceCitationsProps) {
+  const { t } = useI18n();
+
+  if (!sources || sources.length === 0) {
+    return (
+      <div className="text-sm text-gray-500">
+        <p>{t('sources.none')}</p>
+      </div>
+    );
+  }
+
+  return (
+    <div className="text-sm text-gray-500">
+      <p>{t('sources.intro')}</p>
+      <ol className="mt-2 space-y-2">
+        {sources.map((source, index) => (
+          <li key={`${source.type}:${source.id}`}>
+            <button
+              type="button"
+              className="flex w-full items-start gap-2 rounded-lg border p-3 text-left transition-colors hover:bg-gray-50"
+              onClick={() => onOpen(source)}
+            >
+              <span className="text-xs text-gray-400">[{index + 1}]</span>
+              {source.type === 'knowledge' ? (
+                <Database className="h-4 w-4 mt-0.5 flex-shrink-0 text-blue-600" />
+              ) : (
+                <MessageSquare className="h-4 w-4 mt-0.5 flex-shrink-0 text-purple-600" />
+              )}
+              <span className="min-w-0">
+                <span className="block font-medium text-gray-900">
+                  {source.type === 'knowledge' ? t('sources.knowledge') : t('sources.inquiry')}: {source.title}
+                </span>
+                {source.snippet && (
+                  <span className="block text-xs text-gray-600 italic">{t('common.quoted', { text: source.snippet })}</span>
+                )}
+              </span>
+            </button>
+          </li>
+        ))}
+      </ol>
+    </div>
+  );
+}
@@ -0,0 +1,54 @@
+import { ArrowRight } from 'lucide-react';
+import { useI18n } from './i18n';
+
+export type InquiryStatus =
+  | 'new'
+  | 'pending_review'
+  | 'needs_info'
+  | 'approved'
+  | 'sent'
+  | 'auto_sent'
+  | 'rejected'
+  | 'spam'
+  | 'closed'
+  | 'reopened';
+
+export interface StatusTransition {
+  from: InquiryStatus;
+  to: InquiryStatus;
+  actor: string;
+  at: string;
+  note?: string;
+  // Set instead of a note when the system moved the inquiry
+  noteCode?: 'auto_send_cancelled' | 'follow_up' | 'new_version' | 'language_changed';
+}
+
+interface StatusHistoryProps {
+  transitions: StatusTransition[];
+}
+
+// Status changes of an inquiry, newest first
+export function StatusHistory({ transitions }: StatusHistoryProps) {
+  const { t, formatDateTime } = useI18n();
+
+  return (
+    <ul className="space-y-2">
+      {[...transitions].reverse().map((transition, index) => (
+        <li key={`${transition.at}-${index}`} className="rounded-lg border bg-gray-50 px-3 py-2 text-sm">
+          <div className="flex items-center gap-1">
+            <span>{t(`status.${transition.from}`)}</span>
+            <ArrowRight className="h-3 w-3 text-gray-400" />
+            <span className="font-medium">{t(`status.${transition.to}`)}</span>
+          </div>
+          <p className="text-xs text-gray-500">
+            {formatDateTime(transition.at)} ·{' '}
+            {transition.actor === 'system' ? t('statusHistory.system') : transition.actor}
+            {transition.noteCode
+              ? ` · ${t(`statusHistory.note.${transition.noteCode}`)}`
+              : transition.note && ` · ${transition.note}`}
+          </p>
+        </li>
+      ))}
+    </ul>
+  );
+}
@@ -0,0 +1,161 @@
+import { useState, useEffect } from 'react';
+import { Label } from './ui/label';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from './ui/select';
+import { Loader2 } from 'lucide-react';
+import { apiCall } from '../utils/api';
+import { useI18n } from './i18n';
+
+type ReplyLanguage = 'pl' | 'en' | 'de';
+
+interface InquirySummary {
+  id: string;
+  customerName: string;
+  subject: string;
+  timestamp: string;
+}
+
+interface TemplatePreviewProps {
+  template: string;
+  language: ReplyLanguage;
+}
+
+// Merge fields understood by the server's template engine
+const templateFields = [
+  '{{greeting}}',
+  '{{customerName}}',
+  '{{firstName}}',
+  '{{companyName}}',
+  '{{contactEmail}}',
+  '{{category}}',
+  '{{subject}}',
+  '{{availableFrom}}',
+  '{{priceRange service="..."}}',
+  '{{answer}}',
+  '{{#if category="pricing"}}...{{else}}...{{/if}}'
+];
+
+const ANSWER_SLOT = '{{answer}}';
+
+// Inquiries offered as preview data, newest first
+const PREVIEW_INQUIRIES = 20;
+
+// Waits for a pause in typing before rendering the template again
+const PREVIEW_DELAY_MS = 400;
+
+export function TemplatePreview({ template, language }: TemplatePreviewProps) {
+  const { t } = useI18n();
+  const [inquiries, setInquiries] = useState<InquirySummary[]>([]);
+  const [inquiryId, setInquiryId] = useState<string>('');
+  const [preview, setPreview] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [rendering, setRendering] = useState(false);
+
+  const loadInquiries = async () => {
+    try {
+      const response = await apiCall('/inquiries');
+      if (response.success) {
+        const recent: InquirySummary[] = [...response.data]
+          .sort((a, b) => new Date(b.timestamp).getTime() - new Date(a.timestamp).getTime())
+          .slice(0, PREVIEW_INQUIRIES);
+        setInquiries(recent);
+        setInquiryId((current) => current || recent[0]?.id || '');
+      }
+    } catch (error) {
+      console.error('Error loading inquiries for the preview:', error);
+    }
+  };
+
+  useEffect(() => {
+    loadInquiries();
+  }, []);
+
+  useEffect(() => {
+    if (!inquiryId) return;
+    // Aborted when the template changes again, so a slow response cannot replace a newer preview
+    const controller = new AbortController();
+    const timer = setTimeout(async () => {
+      setRendering(true);
+      try {
+        const response = await apiCall('/templates/preview', {
+          method: 'POST',
+          body: JSON.stringify({ template, inquiryId, language }),
+          signal: controller.signal
+        });
+        if (!controller.signal.aborted && response.success) {
+          setPreview(response.data.text);
+          setError(null);
+        }
+      } catch (error) {
+        if (!controller.signal.aborted) {
+          setPreview(null);
+          setError((error as Error).message);
+        }
+      } finally {
+        if (!controller.signal.aborted) setRendering(false);
+      }
+    }, PREVIEW_DELAY_MS);
+
+    return () => {
+      controller.abort();
+      clearTimeout(timer);
+    };
+  }, [template, inquiryId, language]);
+
+  const slotIndex = preview === null ? -1 : preview.indexOf(ANSWER_SLOT);
+
+  return (
+    <div className="space-y-3">
+      <div>
+        <p className="text-sm text-gray-500 mb-1">{t('templates.fields')}</p>
+        <div className="flex flex-wrap gap-1">
+          {templateFields.map((field) => (
+            <code key={field} className="text-xs bg-gray-100 rounded px-1.5 py-0.5">{field}</code>
+          ))}
+        </div>
+      </div>
+
+      <div className="space-y-2">
+        <div className="flex items-center justify-between gap-4">
+          <Label>{t('templates.preview')}</Label>
+          <Select value={inquiryId} onValueChange={setInquiryId}>
+            <SelectTrigger className="w-72">
+              <SelectValue placeholder={t('templates.noInquiries')} />
+            </SelectTrigger>
+            <SelectContent>
+              {inquiries.map((inquiry) => (
+                <SelectItem key={inquiry.id} value={inquiry.id}>
+                  {inquiry.customerName} — {inquiry.subject}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+
+        {error ? (
+          <p className="text-sm text-red-600">{t('templates.invalid', { error })}</p>
+        ) : !inquiryId ? (
+          <p className="text-sm text-gray-500">{t('templates.noInquiries')}</p>
+        ) : preview === null ? (
+          <div className="flex justify-center py-4">
+            <Loader2 className="h-5 w-5 animate-spin" />
+          </div>
+        ) : (
+          <div className={`rounded-md border bg-white p-3 text-sm whitespace-pre-wrap ${rendering ? 'opacity-60' : ''}`}>
+            {slotIndex === -1 ? (
+              <>
+                {preview}
+                <p className="mt-2 text-xs text-gray-500">{t('templates.noAnswerSlot')}</p>
+              </>
+            ) : (
+              <>
+                {preview.slice(0, slotIndex)}
+                <span className="italic text-gray-400">{t('templates.answerPlaceholder')}</span>
+                {preview.slice(slotIndex + ANSWER_SLOT.length)}
+              </>
+            )}
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,377 @@
+import type { MessageKey } from './pl';
+
+export const en: Record<MessageKey, string> = {
+  // Header and banners
+  'app.subtitle': 'Email assistant (demo)',
+  'app.nav.dashboard': 'Dashboard',
+  'app.nav.settings': 'Settings',
+  'app.locale': 'Interface language',
+  'app.support.title': 'GP Group support',
+  'app.support.body': 'The email assistant is delivered and supported by GP Group.',
+  'app.demo.title': 'Application demo',
+  'app.demo.body': 'This is a demonstration version of the application — not functional and intended for presentation purposes only.',
+
+  // Inquiry statuses
+  'status.new': 'New',
+  'status.pending_review': 'Pending',
+  'status.needs_info': 'Needs information',
+  'status.approved': 'Approved',
+  'status.sent': 'Sent',
+  'status.auto_sent': 'Automatic reply',
+  'status.rejected': 'Rejected',
+  'status.spam': 'Spam',
+  'status.closed': 'Closed',
+  'status.reopened': 'Reopened',
+  'statusHistory.system': 'automatically',
+  'statusHistory.note.auto_send_cancelled': 'Automatic sending cancelled',
+  'statusHistory.note.follow_up': 'New message from the customer',
+  'statusHistory.note.new_version': 'New version of the reply',
+  'statusHistory.note.language_changed': 'Reply language changed',
+
+  // Categories
+  'category.pricing': 'Pricing',
+  'category.timeline': 'Timeline',
+  'category.product': 'Product',
+  'category.general': 'General',
+
+  // Languages customers are answered in
+  'replyLanguage.pl': 'Polish',
+  'replyLanguage.en': 'English',
+  'replyLanguage.de': 'German',
+
+  // Draft tones and rejection reasons
+  'tone.formal': 'Formal',
+  'tone.friendly': 'Friendly',
+  'tone.concise': 'Concise',
+  'tone.upsell': 'With an upsell',
+  'rejection.wrong_information': 'Wrong information',
+  'rejection.missing_information': 'Missing information',
+  'rejection.tone': 'Wrong tone',
+  'rejection.too_long': 'Too long',
+  'rejection.other': 'Other reason',
+
+  // Draft details
+  'variants.selected': 'Selected',
+  'variants.choose': 'Choose',
+  'versions.version': 'Version {version}',
+  'versions.guidance': 'guidance: {guidance}',
+  'versions.rejectedBy': 'Rejected by {actor} {date}',
+  'sources.none': 'No sources were recorded for this suggestion.',
+  'sources.intro': 'Suggestion based on:',
+  'sources.knowledge': 'Knowledge base',
+  'sources.inquiry': 'Earlier inquiry',
+  'thread.customer': 'Customer ({from})',
+  'thread.ours': 'Our reply',
+  'attachments.extracted': 'content passed to the AI',
+  'figures.amount': 'Amount',
+  'figures.duration': 'Duration',
+  'figures.date': 'Date',
+  'figures.untraced': '{kind} is not in the knowledge base or the price list',
+
+  // Shared
+  'common.cancel': 'Cancel',
+  'common.save': 'Save',
+  'common.saveChanges': 'Save changes',
+  'common.quoted': '"{text}"',
+
+  // Dashboard
+  'dashboard.loading': 'Loading data...',
+  'dashboard.title': 'Nardos Group - Email reply assistant',
+  'dashboard.subtitle': 'Automatic reply suggestions for customer inquiries',
+  'dashboard.refresh': 'Refresh',
+  'dashboard.addInquiry': 'Add inquiry',
+  'dashboard.newInquiry.title': 'New customer inquiry',
+  'dashboard.newInquiry.description': 'Add a new customer inquiry to generate an automatic AI reply suggestion.',
+  'dashboard.newInquiry.name': 'Full name',
+  'dashboard.newInquiry.namePlaceholder': 'Jane Smith',
+  'dashboard.newInquiry.email': 'Email',
+  'dashboard.newInquiry.emailPlaceholder': 'jane@example.com',
+  'dashboard.newInquiry.subject': 'Subject',
+  'dashboard.newInquiry.subjectPlaceholder': 'Question about your services...',
+  'dashboard.newInquiry.message': 'Message',
+  'dashboard.newInquiry.messagePlaceholder': 'The customer\'s message...',
+  'dashboard.newInquiry.create': 'Create inquiry',
+  'dashboard.stats.pending': 'Pending',
+  'dashboard.stats.approved': 'Approved',
+  'dashboard.stats.avgConfidence': 'Average AI confidence',
+  'dashboard.stats.total': 'All inquiries',
+  'dashboard.list.title': 'Customer inquiries',
+  'dashboard.list.empty': 'No inquiries to show',
+  'dashboard.list.emptyHint': 'Add a new inquiry to get started',
+  'dashboard.list.receivedByEmail': 'Received by email',
+  'dashboard.list.needsReview': 'Needs review',
+  'dashboard.detail.title': 'Inquiry details',
+  'dashboard.detail.approve': 'Approve',
+  'dashboard.detail.reject': 'Reject',
+  'dashboard.detail.regenerate': 'Regenerate',
+  'dashboard.detail.editAndSend': 'Edit and send',
+  'dashboard.detail.changeStatus': 'Change status',
+  'dashboard.detail.customer': 'Customer:',
+  'dashboard.detail.subject': 'Subject:',
+  'dashboard.detail.category': 'Category:',
+  'dashboard.detail.categoryPredicted': 'Detected automatically ({score}% confidence)',
+  'dashboard.detail.categoryCorrected': 'Corrected by hand, the AI suggested: {category}',
+  'dashboard.detail.replyLanguage': 'Reply language:',
+  'dashboard.detail.languageDetected': 'Detected automatically',
+  'dashboard.detail.languageOverridden': 'Changed by hand, detected: {language}',
+  'dashboard.detail.thread': 'Conversation:',
+  'dashboard.detail.message': 'Message:',
+  'dashboard.detail.attachments': 'Attachments:',
+  'dashboard.detail.statusHistory': 'Status history:',
+  'dashboard.autoSend.scheduled': 'The reply will be sent automatically at {time}',
+  'dashboard.autoSend.cancel': 'Cancel sending',
+  'dashboard.delivery.sent': 'Sent {date}',
+  'dashboard.delivery.failed': 'Sending failed: {error}',
+  'dashboard.delivery.queued': 'Queued for sending',
+  'dashboard.delivery.lastAttempt': '(attempt {attempt}: {error})',
+  'dashboard.delivery.retry': 'Retry sending',
+  'dashboard.review.untracedFigures': 'The reply contains figures not found in the knowledge base or price list — manual review required',
+  'dashboard.review.lowConfidence': 'The suggestion\'s confidence is below the threshold — manual review required',
+  'dashboard.review.chooseVariant': '{count} reply variants were drafted — choose one in the "AI suggestion" tab before approving',
+  'dashboard.tabs.inquiry': 'Customer inquiry',
+  'dashboard.tabs.suggestion': 'AI suggestion',
+  'dashboard.suggestion.label': 'AI suggestion:',
+  'dashboard.suggestion.confidence': 'Confidence:',
+  'dashboard.suggestion.rawConfidence': 'Raw model score: {confidence}%',
+  'dashboard.suggestion.generating': 'Generating suggestion...',
+  'dashboard.suggestion.stop': 'Stop',
+  'dashboard.suggestion.missing': 'No suggestion has been generated yet',
+  'dashboard.suggestion.generate': 'Generate suggestion',
+  'dashboard.suggestion.changes': 'Changes to the AI suggestion',
+  'dashboard.suggestion.final': 'Final reply',
+  'dashboard.suggestion.showReply': 'Show reply',
+  'dashboard.suggestion.showChanges': 'Show changes',
+  'dashboard.suggestion.editSummary': '{ratio}% of the text changed (words inserted, removed or replaced: {distance})',
+  'dashboard.suggestion.untraced': 'The highlighted figures ({count}) are not in the knowledge base, the price list or the customer\'s message',
+  'dashboard.suggestion.variants': 'Reply variants:',
+  'dashboard.suggestion.versions': 'Reply versions:',
+  'dashboard.edit.title': 'Edit the reply before sending',
+  'dashboard.edit.description': 'Change the suggested reply before approving and sending it.',
+  'dashboard.edit.body': 'Reply text',
+  'dashboard.edit.send': 'Send',
+  'dashboard.reject.title': 'Reject suggestion',
+  'dashboard.reject.description': 'Give a reason for rejecting. The guidance will be used when generating a new version.',
+  'dashboard.reject.reason': 'Reason',
+  'dashboard.reject.reasonPlaceholder': 'Choose a reason',
+  'dashboard.reject.instructions': 'Guidance (optional)',
+  'dashboard.reject.instructionsPlaceholder': 'e.g. mention the free audit, make it shorter',
+  'dashboard.reject.andRegenerate': 'Reject and regenerate',
+  'dashboard.knowledge.description': 'Knowledge base entry used to write the suggestion.',
+  'dashboard.empty.title': 'Select an inquiry from the list to see its details',
+  'dashboard.empty.noInquiries': 'Add the first inquiry to get started',
+  'dashboard.empty.pick': 'Click any inquiry on the left',
+  'dashboard.toast.loadError': 'Error loading inquiries',
+  'dashboard.toast.refreshed': 'The inquiry list has been refreshed',
+  'dashboard.toast.refreshError': 'Error while refreshing',
+  'dashboard.toast.approved': 'The reply has been approved',
+  'dashboard.toast.approveError': 'Error while approving',
+  'dashboard.toast.chooseReason': 'Choose a reason for rejecting',
+  'dashboard.toast.rejected': 'The reply has been rejected',
+  'dashboard.toast.rejectError': 'Error while rejecting',
+  'dashboard.toast.regenerated': 'A new reply version was generated ({version})',
+  'dashboard.toast.regenerateError': 'Could not generate a new version: {error}',
+  'dashboard.toast.statusChanged': 'Status changed to: {status}',
+  'dashboard.toast.statusError': 'Could not change the status: {error}',
+  'dashboard.toast.sent': 'The reply has been sent',
+  'dashboard.toast.sendError': 'Error while sending the reply',
+  'dashboard.toast.categoryCorrected': 'The category has been corrected',
+  'dashboard.toast.categoryError': 'Error while changing the category',
+  'dashboard.toast.variantSelected': 'Variant selected: {tone}',
+  'dashboard.toast.variantError': 'Could not select the variant: {error}',
+  'dashboard.toast.languageChanged': 'Reply language: {language}',
+  'dashboard.toast.languageError': 'Could not change the language: {error}',
+  'dashboard.toast.autoSendCancelled': 'The automatic reply has been cancelled',
+  'dashboard.toast.autoSendCancelError': 'Could not cancel sending',
+  'dashboard.toast.retryError': 'Error while retrying',
+  'dashboard.toast.inquiryNotFound': 'The earlier inquiry was not found',
+  'dashboard.toast.knowledgeError': 'Could not open the knowledge base entry',
+  'dashboard.toast.attachmentError': 'Could not download the attachment',
+  'dashboard.toast.inquiryCreated': 'The inquiry has been added',
+  'dashboard.toast.createError': 'Error while creating the inquiry',
+  'dashboard.toast.draftStopped': 'Generating the suggestion was stopped',
+  'dashboard.toast.draftError': 'Could not generate a suggestion: {error}',
+  'dashboard.toast.initError': 'Error during initialisation',
+
+  // Providers of the language model
+  'provider.openai': 'OpenAI (compatible API)',
+  'provider.anthropic': 'Anthropic',
+  'provider.ollama': 'Ollama (local)',
+  'provider.fake': 'Test mode (offline)',
+
+  // Settings
+  'settings.loading': 'Loading configuration...',
+  'settings.title': 'AI Assistant settings',
+  'settings.subtitle': 'Configuration of the automatic reply system',
+  'settings.tabs.general': 'General',
+  'settings.tabs.knowledge': 'Knowledge base',
+  'settings.tabs.prices': 'Price list',
+  'settings.tabs.training': 'Learning',
+  'settings.general.title': 'Basic settings',
+  'settings.general.threshold': 'Minimum AI confidence (%)',
+  'settings.general.thresholdHint': 'Confidence is the calibrated probability that a reply is sent unchanged. Suggestions below this level need manual review',
+  'settings.general.autoResponse': 'Automatic replies',
+  'settings.general.autoResponseHint': 'Send high-confidence replies without review',
+  'settings.general.autoResponseDelay': 'Automatic reply delay (min)',
+  'settings.general.autoResponseDelayHint': 'During this time the reply can still be cancelled in the dashboard',
+  'settings.general.tones': 'Reply variants',
+  'settings.general.tonesHint': 'Each selected tone gets its own variant; with several variants you choose one before approving. With none selected a single reply following the template is drafted',
+  'settings.general.templates': 'Template and signature',
+  'settings.general.templatesHint': 'Replies are written in the customer\'s language; the signature is added when sending',
+  'settings.general.template': 'Reply template',
+  'settings.general.templatePlaceholder': 'Enter the basic reply template...',
+  'settings.general.signature': 'Signature',
+  'settings.general.signaturePlaceholder': 'e.g. Kind regards, the Nardos House team',
+  'settings.general.companyName': 'Company name',
+  'settings.general.contactEmail': 'Contact email',
+  'settings.model.title': 'Language model',
+  'settings.model.provider': 'Provider',
+  'settings.model.keysHint': 'API keys are read from the function secrets (OPENAI_API_KEY, ANTHROPIC_API_KEY)',
+  'settings.model.model': 'Model',
+  'settings.model.modelPlaceholder': 'provider default',
+  'settings.model.baseUrl': 'API address',
+  'settings.model.baseUrlPlaceholder': 'default',
+  'settings.availability.title': 'Team availability',
+  'settings.availability.leadIn': 'Lead time before a start (weeks)',
+  'settings.availability.earliestStart': 'Earliest start',
+  'settings.availability.bookedWeeks': 'Booked weeks per month (0-{max})',
+  'settings.availability.availableFrom': 'Replies currently offer a start from',
+  'settings.availability.savedConfig': '(based on the saved configuration)',
+  'settings.system.title': 'System status',
+  'settings.system.aiStatus': 'AI status',
+  'settings.system.active': 'Active',
+  'settings.knowledge.title': 'Company knowledge base',
+  'settings.knowledge.add': 'Add entry',
+  'settings.knowledge.author': 'Author of changes',
+  'settings.knowledge.authorPlaceholder': 'Your name, recorded in the change history',
+  'settings.knowledge.itemTitle': 'Title',
+  'settings.knowledge.titlePlaceholder': 'e.g. Service prices...',
+  'settings.knowledge.itemContent': 'Content',
+  'settings.knowledge.contentPlaceholder': 'Enter the details...',
+  'settings.training.title': 'Learning statistics',
+  'settings.training.from': 'From',
+  'settings.training.to': 'To',
+  'settings.training.empty': 'No inquiries in the selected period.',
+  'settings.training.approvedUnchanged': 'Approved unchanged',
+  'settings.training.approvedEdited': 'Approved after editing',
+  'settings.training.rejected': 'Rejected replies',
+  'settings.training.meanEditDistance': 'Average number of changed words',
+  'settings.training.outcomes': '{unchanged} unchanged · {edited} edited · {rejected} rejected',
+  'settings.training.meanEdits': 'avg. {distance} words changed',
+  'settings.training.tones': 'Chosen variants',
+  'settings.training.chosen': '{total} chosen',
+  'settings.categories.title': 'Categorisation accuracy',
+  'settings.categories.empty': 'No reviewed inquiries yet. Accuracy appears after the first decisions in the dashboard.',
+  'settings.categories.correct': '{correct} of {total} without correction',
+  'settings.categories.overall': 'Overall: {accuracy}% ({correct} of {total})',
+  'settings.edits.title': 'Most frequently corrected phrases',
+  'settings.edits.empty': 'No corrections yet. Phrases appear after the first replies sent with "{action}".',
+  'settings.edits.summary': 'Corrected replies: {count}, {ratio}% of the text changed on average',
+  'settings.edits.replacedBy': 'Replaced with:',
+  'settings.edits.removed': '(removed)',
+  'settings.learning.title': 'Learning settings',
+  'settings.learning.auto': 'Automatic learning',
+  'settings.learning.autoHint': 'The model learns automatically from approved replies',
+  'settings.learning.notifications': 'Correction notifications',
+  'settings.learning.notificationsHint': 'Receive information about model updates',
+  'settings.reset': 'Reset settings',
+  'settings.saving': 'Saving...',
+  'settings.toast.loadError': 'Error loading data',
+  'settings.toast.statsError': 'Error loading statistics',
+  'settings.toast.saved': 'The configuration has been saved',
+  'settings.toast.saveError': 'Error saving the configuration: {error}',
+  'settings.toast.knowledgeAdded': 'Entry added to the knowledge base',
+  'settings.toast.knowledgeAddError': 'Error adding the entry',
+  'settings.toast.knowledgeSaved': 'The changes have been saved',
+  'settings.toast.knowledgeSaveError': 'Error saving the changes',
+  'settings.toast.knowledgeRemoved': 'Entry removed from the knowledge base',
+  'settings.toast.knowledgeRemoveError': 'Error removing the entry',
+
+  // Price list
+  'prices.title': 'Service price list',
+  'prices.hint': 'The AI only quotes prices from price list entries that are currently valid',
+  'prices.add': 'Add entry',
+  'prices.service': 'Service',
+  'prices.price': 'Price (PLN)',
+  'prices.unit': 'Unit',
+  'prices.leadTime': 'Lead time',
+  'prices.validity': 'Valid',
+  'prices.inactive': 'inactive',
+  'prices.indefinite': 'indefinitely',
+  'prices.amount': 'PLN {amount}',
+  'prices.weeks': '{weeks} wk',
+  'prices.form.editTitle': 'Edit price list entry',
+  'prices.form.newTitle': 'New price list entry',
+  'prices.form.description': 'Amounts in zloty, lead times in weeks; the English and German names are used in replies in those languages',
+  'prices.form.servicePlaceholder': 'e.g. Business card website',
+  'prices.form.aliasEn': 'English name',
+  'prices.form.aliasEnPlaceholder': 'e.g. Business card website',
+  'prices.form.aliasDe': 'German name',
+  'prices.form.aliasDePlaceholder': 'e.g. Visitenkarten-Website',
+  'prices.form.minPrice': 'Price from',
+  'prices.form.maxPrice': 'Price to',
+  'prices.form.minLeadTime': 'Lead time from (weeks)',
+  'prices.form.maxLeadTime': 'Lead time to (weeks)',
+  'prices.form.validFrom': 'Valid from',
+  'prices.form.validTo': 'Valid to',
+  'prices.toast.loadError': 'Error loading the price list',
+  'prices.toast.saved': 'The price list has been updated',
+  'prices.toast.saveError': 'Error saving the entry: {error}',
+  'prices.toast.removed': 'Entry removed from the price list',
+  'prices.toast.removeError': 'Error removing the entry',
+
+  // Charts
+  'charts.title': 'Inquiry analysis',
+  'charts.daily': 'Daily',
+  'charts.weekly': 'Weekly',
+  'charts.volume': 'Number of inquiries',
+  'charts.quality': 'Approval and model confidence',
+  'charts.responseTime': 'Time to first reply (hours)',
+  'charts.byCategory': 'Inquiries by category',
+  'charts.series.total': 'Inquiries',
+  'charts.series.approvalRate': 'Approval (%)',
+  'charts.series.meanConfidence': 'Average confidence (%)',
+  'charts.series.responseHours': 'Time to reply (h)',
+  'charts.series.unchanged': 'Unchanged',
+  'charts.series.edited': 'Edited',
+  'charts.series.rejected': 'Rejected',
+  'charts.series.open': 'In progress',
+  'charts.toast.loadError': 'Error loading the charts',
+  'calibration.title': 'Confidence calibration',
+  'calibration.empty': 'No reviewed replies yet. The chart appears after the first decisions in the dashboard.',
+  'calibration.series': 'Approved unchanged (%)',
+  'calibration.point': 'Confidence ~{confidence}% ({count} replies)',
+  'calibration.summary': 'Reviewed replies: {samples}. Brier score: {calibrated} after calibration, {raw} for the raw model score (lower is better).',
+  'calibration.fit.category': 'own curve',
+  'calibration.fit.global': 'global curve',
+  'calibration.fit.none': 'not calibrated',
+  'calibration.toast.loadError': 'Error loading the calibration',
+
+  // Knowledge base history
+  'changelog.title': 'Recent knowledge base changes',
+  'changelog.empty': 'The knowledge base has not been changed yet.',
+  'changelog.revision': 'version {revision}',
+  'changelog.revertedFrom': '(from version {revision})',
+  'changelog.action.created': 'Added',
+  'changelog.action.updated': 'Changed',
+  'changelog.action.reverted': 'Restored',
+  'changelog.toast.loadError': 'Error loading the change history',
+  'history.title': 'Change history',
+  'history.action.created': 'Created',
+  'history.action.updated': 'Edited',
+  'history.action.reverted': 'Restored',
+  'history.revertedFrom': 'Restored the content of version {revision}',
+  'history.first': 'First version',
+  'history.changesSince': 'Changes since version {revision}',
+  'history.revert': 'Restore this version',
+  'history.toast.loadError': 'Could not load the change history',
+  'history.toast.diffError': 'Could not compare the versions',
+  'history.toast.reverted': 'Version {revision} restored',
+  'history.toast.revertError': 'Could not restore the version',
+
+  'templates.fields': 'Available fields',
+  'templates.preview': 'Preview for inquiry',
+  'templates.noInquiries': 'No inquiries to preview',
+  'templates.invalid': 'The template has an error: {error}',
+  'templates.answerPlaceholder': '[the assistant\'s answer goes here]',
+  'templates.noAnswerSlot': 'The template has no {{answer}} field, so it only guides the model.',
+};
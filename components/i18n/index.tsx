@@ -0,0 +1,85 @@
+import { createContext, useContext, useEffect, useState, ReactNode } from 'react';
+import { pl, MessageKey } from './pl';
+import { en } from './en';
+
+export type Locale = 'pl' | 'en';
+export type { MessageKey };
+
+export const locales: Locale[] = ['pl', 'en'];
+
+// Each language is offered under its own name
+export const localeNames: Record<Locale, string> = {
+  pl: 'Polski',
+  en: 'English'
+};
+
+const catalogues: Record<Locale, Record<MessageKey, string>> = { pl, en };
+
+// BCP 47 tags used for dates and numbers; English uses day-first dates like the rest of the team's documents
+const intlLocales: Record<Locale, string> = {
+  pl: 'pl-PL',
+  en: 'en-GB'
+};
+
+// The interface language is a per-browser preference
+const LOCALE_KEY = 'ui-locale';
+
+const storedLocale = (): Locale => {
+  const stored = localStorage.getItem(LOCALE_KEY);
+  return locales.includes(stored as Locale) ? stored as Locale : 'pl';
+};
+
+type Params = Record<string, string | number>;
+type DateInput = string | number | Date;
+
+interface I18n {
+  locale: Locale;
+  setLocale: (locale: Locale) => void;
+  // Message for the key in the active locale, with {placeholders} filled from params
+  t: (key: MessageKey, params?: Params) => string;
+  formatDate: (value: DateInput, options?: Intl.DateTimeFormatOptions) => string;
+  formatDateTime: (value: DateInput, options?: Intl.DateTimeFormatOptions) => string;
+  formatTime: (value: DateInput) => string;
+  formatNumber: (value: number, options?: Intl.NumberFormatOptions) => string;
+}
+
+const I18nContext = createContext<I18n | null>(null);
+
+export function I18nProvider({ children }: { children: ReactNode }) {
+  const [locale, setLocaleState] = useState<Locale>(storedLocale);
+
+  useEffect(() => {
+    document.documentElement.lang = locale;
+  }, [locale]);
+
+  const setLocale = (next: Locale) => {
+    setLocaleState(next);
+    localStorage.setItem(LOCALE_KEY, next);
+  };
+
+  const tag = intlLocales[locale];
+  const value: I18n = {
+    locale,
+    setLocale,
+    t: (key, params) => {
+      const message = catalogues[locale][key] ?? catalogues.pl[key] ?? key;
+      return params
+        ? message.replace(/\{(\w+)\}/g, (match, name) => name in params ? String(params[name]) : match)
+        : message;
+    },
+    formatDate: (value, options) => new Date(value).toLocaleDateString(tag, options),
+    formatDateTime: (value, options) => new Date(value).toLocaleString(tag, options),
+    formatTime: (value) => new Date(value).toLocaleTimeString(tag, { hour: '2-digit', minute: '2-digit' }),
+    formatNumber: (value, options) => value.toLocaleString(tag, options)
+  };
+
+  return <I18nContext.Provider value={value}>{children}</I18nContext.Provider>;
+}
+
+export function useI18n() {
+  const i18n = useContext(I18nContext);
+  if (!i18n) {
+    throw new Error('useI18n must be used inside I18nProvider');
+  }
+  return i18n;
+}
@@ -0,0 +1,378 @@
+// Polish is the source catalogue: every key the interface uses is defined here first
+export const pl = {
+  // Header and banners
+  'app.subtitle': 'Asystent e‑mail (demo)',
+  'app.nav.dashboard': 'Panel',
+  'app.nav.settings': 'Ustawienia',
+  'app.locale': 'Język interfejsu',
+  'app.support.title': 'Wsparcie GP Group',
+  'app.support.body': 'Aplikacja asystenta e‑mail jest dostarczana i wspierana przez GP Group.',
+  'app.demo.title': 'Demo Aplikacji',
+  'app.demo.body': 'To jest demonstracyjna wersja aplikacji — niefunkcjonalna i przeznaczona wyłącznie do celów prezentacyjnych.',
+
+  // Inquiry statuses
+  'status.new': 'Nowe',
+  'status.pending_review': 'Oczekuje',
+  'status.needs_info': 'Potrzebne informacje',
+  'status.approved': 'Zaakceptowane',
+  'status.sent': 'Wysłane',
+  'status.auto_sent': 'Wysyłka automatyczna',
+  'status.rejected': 'Odrzucone',
+  'status.spam': 'Spam',
+  'status.closed': 'Zamknięte',
+  'status.reopened': 'Wznowione',
+  'statusHistory.system': 'automatycznie',
+  'statusHistory.note.auto_send_cancelled': 'Anulowano wysyłkę automatyczną',
+  'statusHistory.note.follow_up': 'Nowa wiadomość od klienta',
+  'statusHistory.note.new_version': 'Nowa wersja odpowiedzi',
+  'statusHistory.note.language_changed': 'Zmieniono język odpowiedzi',
+
+  // Categories
+  'category.pricing': 'Wycena',
+  'category.timeline': 'Czas realizacji',
+  'category.product': 'Produkt',
+  'category.general': 'Ogólne',
+
+  // Languages customers are answered in
+  'replyLanguage.pl': 'Polski',
+  'replyLanguage.en': 'Angielski',
+  'replyLanguage.de': 'Niemiecki',
+
+  // Draft tones and rejection reasons
+  'tone.formal': 'Formalny',
+  'tone.friendly': 'Przyjazny',
+  'tone.concise': 'Zwięzły',
+  'tone.upsell': 'Z propozycją dodatkową',
+  'rejection.wrong_information': 'Błędne informacje',
+  'rejection.missing_information': 'Brakujące informacje',
+  'rejection.tone': 'Nieodpowiedni ton',
+  'rejection.too_long': 'Za długa',
+  'rejection.other': 'Inny powód',
+
+  // Draft details
+  'variants.selected': 'Wybrany',
+  'variants.choose': 'Wybierz',
+  'versions.version': 'Wersja {version}',
+  'versions.guidance': 'wskazówki: {guidance}',
+  'versions.rejectedBy': 'Odrzucił(a) {actor} {date}',
+  'sources.none': 'Brak zapisanych źródeł dla tej sugestii.',
+  'sources.intro': 'Sugestia wygenerowana na podstawie:',
+  'sources.knowledge': 'Baza wiedzy',
+  'sources.inquiry': 'Wcześniejsze zapytanie',
+  'thread.customer': 'Klient ({from})',
+  'thread.ours': 'Nasza odpowiedź',
+  'attachments.extracted': 'treść przekazana do AI',
+  'figures.amount': 'Kwota',
+  'figures.duration': 'Czas trwania',
+  'figures.date': 'Data',
+  'figures.untraced': '{kind} nie występuje w bazie wiedzy ani w cenniku',
+
+  // Shared
+  'common.cancel': 'Anuluj',
+  'common.save': 'Zapisz',
+  'common.saveChanges': 'Zapisz zmiany',
+  'common.quoted': '„{text}”',
+
+  // Dashboard
+  'dashboard.loading': 'Ładowanie danych...',
+  'dashboard.title': 'Nardos Group - Asystent odpowiedzi e‑mail',
+  'dashboard.subtitle': 'Automatyczne sugestie odpowiedzi na zapytania klientów',
+  'dashboard.refresh': 'Odśwież',
+  'dashboard.addInquiry': 'Dodaj zapytanie',
+  'dashboard.newInquiry.title': 'Nowe zapytanie klienta',
+  'dashboard.newInquiry.description': 'Dodaj nowe zapytanie klienta, aby wygenerować automatyczną sugestię odpowiedzi AI.',
+  'dashboard.newInquiry.name': 'Imię i nazwisko',
+  'dashboard.newInquiry.namePlaceholder': 'Jan Kowalski',
+  'dashboard.newInquiry.email': 'Email',
+  'dashboard.newInquiry.emailPlaceholder': 'jan@example.com',
+  'dashboard.newInquiry.subject': 'Temat',
+  'dashboard.newInquiry.subjectPlaceholder': 'Zapytanie o usługi...',
+  'dashboard.newInquiry.message': 'Wiadomość',
+  'dashboard.newInquiry.messagePlaceholder': 'Treść zapytania klienta...',
+  'dashboard.newInquiry.create': 'Utwórz zapytanie',
+  'dashboard.stats.pending': 'Oczekujące',
+  'dashboard.stats.approved': 'Zaakceptowane',
+  'dashboard.stats.avgConfidence': 'Średnia pewność AI',
+  'dashboard.stats.total': 'Wszystkie zapytania',
+  'dashboard.list.title': 'Zapytania klientów',
+  'dashboard.list.empty': 'Brak zapytań do wyświetlenia',
+  'dashboard.list.emptyHint': 'Dodaj nowe zapytanie, aby rozpocząć',
+  'dashboard.list.receivedByEmail': 'Odebrane e-mailem',
+  'dashboard.list.needsReview': 'Do weryfikacji',
+  'dashboard.detail.title': 'Szczegóły zapytania',
+  'dashboard.detail.approve': 'Akceptuj',
+  'dashboard.detail.reject': 'Odrzuć',
+  'dashboard.detail.regenerate': 'Wygeneruj ponownie',
+  'dashboard.detail.editAndSend': 'Modyfikuj i wyślij',
+  'dashboard.detail.changeStatus': 'Zmień status',
+  'dashboard.detail.customer': 'Klient:',
+  'dashboard.detail.subject': 'Temat:',
+  'dashboard.detail.category': 'Kategoria:',
+  'dashboard.detail.categoryPredicted': 'Rozpoznana automatycznie (pewność {score}%)',
+  'dashboard.detail.categoryCorrected': 'Poprawiona ręcznie, AI wskazało: {category}',
+  'dashboard.detail.replyLanguage': 'Język odpowiedzi:',
+  'dashboard.detail.languageDetected': 'Wykryty automatycznie',
+  'dashboard.detail.languageOverridden': 'Zmieniony ręcznie, wykryto: {language}',
+  'dashboard.detail.thread': 'Korespondencja:',
+  'dashboard.detail.message': 'Wiadomość:',
+  'dashboard.detail.attachments': 'Załączniki:',
+  'dashboard.detail.statusHistory': 'Historia statusu:',
+  'dashboard.autoSend.scheduled': 'Odpowiedź zostanie wysłana automatycznie o {time}',
+  'dashboard.autoSend.cancel': 'Anuluj wysyłkę',
+  'dashboard.delivery.sent': 'Wysłano {date}',
+  'dashboard.delivery.failed': 'Wysyłka nie powiodła się: {error}',
+  'dashboard.delivery.queued': 'W kolejce do wysyłki',
+  'dashboard.delivery.lastAttempt': '(próba {attempt}: {error})',
+  'dashboard.delivery.retry': 'Ponów wysyłkę',
+  'dashboard.review.untracedFigures': 'Odpowiedź zawiera wartości spoza bazy wiedzy i cennika — wymagana ręczna weryfikacja',
+  'dashboard.review.lowConfidence': 'Pewność sugestii jest poniżej progu — wymagana ręczna weryfikacja',
+  'dashboard.review.chooseVariant': 'Przygotowano {count} warianty odpowiedzi — wybierz jeden w zakładce „Sugestia AI” przed akceptacją',
+  'dashboard.tabs.inquiry': 'Zapytanie klienta',
+  'dashboard.tabs.suggestion': 'Sugestia AI',
+  'dashboard.suggestion.label': 'Sugestia AI:',
+  'dashboard.suggestion.confidence': 'Pewność:',
+  'dashboard.suggestion.rawConfidence': 'Surowa ocena modelu: {confidence}%',
+  'dashboard.suggestion.generating': 'Generowanie sugestii...',
+  'dashboard.suggestion.stop': 'Zatrzymaj',
+  'dashboard.suggestion.missing': 'Sugestia nie została jeszcze wygenerowana',
+  'dashboard.suggestion.generate': 'Wygeneruj sugestię',
+  'dashboard.suggestion.changes': 'Zmiany względem sugestii AI',
+  'dashboard.suggestion.final': 'Ostateczna odpowiedź',
+  'dashboard.suggestion.showReply': 'Pokaż odpowiedź',
+  'dashboard.suggestion.showChanges': 'Pokaż zmiany',
+  'dashboard.suggestion.editSummary': 'Zmieniono {ratio}% treści ({distance} słów wstawionych, usuniętych lub zastąpionych)',
+  'dashboard.suggestion.untraced': 'Zaznaczone wartości ({count}) nie występują w bazie wiedzy, cenniku ani w wiadomości klienta',
+  'dashboard.suggestion.variants': 'Warianty odpowiedzi:',
+  'dashboard.suggestion.versions': 'Wersje odpowiedzi:',
+  'dashboard.edit.title': 'Edytuj odpowiedź przed wysłaniem',
+  'dashboard.edit.description': 'Zmodyfikuj treść sugerowanej odpowiedzi przed zatwierdzeniem i wysyłką.',
+  'dashboard.edit.body': 'Treść odpowiedzi',
+  'dashboard.edit.send': 'Wyślij',
+  'dashboard.reject.title': 'Odrzuć sugestię',
+  'dashboard.reject.description': 'Podaj powód odrzucenia. Wskazówki zostaną wykorzystane przy generowaniu nowej wersji.',
+  'dashboard.reject.reason': 'Powód',
+  'dashboard.reject.reasonPlaceholder': 'Wybierz powód',
+  'dashboard.reject.instructions': 'Wskazówki (opcjonalnie)',
+  'dashboard.reject.instructionsPlaceholder': 'np. wspomnij o bezpłatnym audycie, krócej',
+  'dashboard.reject.andRegenerate': 'Odrzuć i wygeneruj ponownie',
+  'dashboard.knowledge.description': 'Element bazy wiedzy użyty przy tworzeniu sugestii.',
+  'dashboard.empty.title': 'Wybierz zapytanie z listy, aby zobaczyć szczegóły',
+  'dashboard.empty.noInquiries': 'Dodaj pierwsze zapytanie, aby rozpocząć pracę',
+  'dashboard.empty.pick': 'Kliknij na dowolne zapytanie po lewej stronie',
+  'dashboard.toast.loadError': 'Błąd podczas ładowania zapytań',
+  'dashboard.toast.refreshed': 'Lista zapytań została odświeżona',
+  'dashboard.toast.refreshError': 'Błąd podczas odświeżania',
+  'dashboard.toast.approved': 'Odpowiedź została zaakceptowana',
+  'dashboard.toast.approveError': 'Błąd podczas akceptacji',
+  'dashboard.toast.chooseReason': 'Wybierz powód odrzucenia',
+  'dashboard.toast.rejected': 'Odpowiedź została odrzucona',
+  'dashboard.toast.rejectError': 'Błąd podczas odrzucenia',
+  'dashboard.toast.regenerated': 'Wygenerowano nową wersję odpowiedzi ({version})',
+  'dashboard.toast.regenerateError': 'Nie udało się wygenerować nowej wersji: {error}',
+  'dashboard.toast.statusChanged': 'Status zmieniony na: {status}',
+  'dashboard.toast.statusError': 'Nie udało się zmienić statusu: {error}',
+  'dashboard.toast.sent': 'Odpowiedź została wysłana',
+  'dashboard.toast.sendError': 'Błąd podczas wysyłania odpowiedzi',
+  'dashboard.toast.categoryCorrected': 'Kategoria została poprawiona',
+  'dashboard.toast.categoryError': 'Błąd podczas zmiany kategorii',
+  'dashboard.toast.variantSelected': 'Wybrano wariant: {tone}',
+  'dashboard.toast.variantError': 'Nie udało się wybrać wariantu: {error}',
+  'dashboard.toast.languageChanged': 'Język odpowiedzi: {language}',
+  'dashboard.toast.languageError': 'Nie udało się zmienić języka: {error}',
+  'dashboard.toast.autoSendCancelled': 'Automatyczna wysyłka została anulowana',
+  'dashboard.toast.autoSendCancelError': 'Nie udało się anulować wysyłki',
+  'dashboard.toast.retryError': 'Błąd podczas ponawiania wysyłki',
+  'dashboard.toast.inquiryNotFound': 'Nie znaleziono wcześniejszego zapytania',
+  'dashboard.toast.knowledgeError': 'Nie udało się otworzyć elementu bazy wiedzy',
+  'dashboard.toast.attachmentError': 'Nie udało się pobrać załącznika',
+  'dashboard.toast.inquiryCreated': 'Zapytanie zostało dodane',
+  'dashboard.toast.createError': 'Błąd podczas tworzenia zapytania',
+  'dashboard.toast.draftStopped': 'Generowanie sugestii zostało przerwane',
+  'dashboard.toast.draftError': 'Nie udało się wygenerować sugestii: {error}',
+  'dashboard.toast.initError': 'Błąd podczas inicjalizacji',
+
+  // Providers of the language model
+  'provider.openai': 'OpenAI (zgodne API)',
+  'provider.anthropic': 'Anthropic',
+  'provider.ollama': 'Ollama (lokalnie)',
+  'provider.fake': 'Tryb testowy (offline)',
+
+  // Settings
+  'settings.loading': 'Ładowanie konfiguracji...',
+  'settings.title': 'Ustawienia AI Assistant',
+  'settings.subtitle': 'Konfiguracja systemu automatycznych odpowiedzi',
+  'settings.tabs.general': 'Ogólne',
+  'settings.tabs.knowledge': 'Baza wiedzy',
+  'settings.tabs.prices': 'Cennik',
+  'settings.tabs.training': 'Uczenie',
+  'settings.general.title': 'Podstawowe ustawienia',
+  'settings.general.threshold': 'Minimalny poziom pewności AI (%)',
+  'settings.general.thresholdHint': 'Pewność to skalibrowane prawdopodobieństwo, że odpowiedź zostanie wysłana bez zmian. Sugestie z niższym poziomem pewności będą wymagały ręcznej weryfikacji',
+  'settings.general.autoResponse': 'Automatyczne odpowiedzi',
+  'settings.general.autoResponseHint': 'Wysyłanie odpowiedzi z wysokim poziomem pewności bez weryfikacji',
+  'settings.general.autoResponseDelay': 'Opóźnienie wysyłki automatycznej (min)',
+  'settings.general.autoResponseDelayHint': 'W tym czasie odpowiedź można jeszcze anulować w panelu',
+  'settings.general.tones': 'Warianty odpowiedzi',
+  'settings.general.tonesHint': 'Dla każdego zaznaczonego tonu powstaje osobny wariant; przy kilku wariantach wybierasz jeden przed akceptacją. Bez zaznaczenia powstaje jedna odpowiedź zgodna z szablonem',
+  'settings.general.templates': 'Szablon i podpis',
+  'settings.general.templatesHint': 'Odpowiedzi powstają w języku klienta; podpis jest dodawany przy wysyłce',
+  'settings.general.template': 'Szablon odpowiedzi',
+  'settings.general.templatePlaceholder': 'Wprowadź podstawowy szablon odpowiedzi...',
+  'settings.general.signature': 'Podpis',
+  'settings.general.signaturePlaceholder': 'np. Z poważaniem, Zespół Nardos House',
+  'settings.general.companyName': 'Nazwa firmy',
+  'settings.general.contactEmail': 'Email kontaktowy',
+  'settings.model.title': 'Model językowy',
+  'settings.model.provider': 'Dostawca',
+  'settings.model.keysHint': 'Klucze API są odczytywane z sekretów funkcji (OPENAI_API_KEY, ANTHROPIC_API_KEY)',
+  'settings.model.model': 'Model',
+  'settings.model.modelPlaceholder': 'domyślny dla dostawcy',
+  'settings.model.baseUrl': 'Adres API',
+  'settings.model.baseUrlPlaceholder': 'domyślny',
+  'settings.availability.title': 'Dostępność zespołu',
+  'settings.availability.leadIn': 'Wyprzedzenie przed startem (tyg.)',
+  'settings.availability.earliestStart': 'Najwcześniejszy start',
+  'settings.availability.bookedWeeks': 'Zarezerwowane tygodnie w miesiącu (0-{max})',
+  'settings.availability.availableFrom': 'Odpowiedzi podają obecnie start prac od',
+  'settings.availability.savedConfig': '(według zapisanej konfiguracji)',
+  'settings.system.title': 'Status systemu',
+  'settings.system.aiStatus': 'Status AI',
+  'settings.system.active': 'Aktywny',
+  'settings.knowledge.title': 'Baza wiedzy o firmie',
+  'settings.knowledge.add': 'Dodaj element',
+  'settings.knowledge.author': 'Autor zmian',
+  'settings.knowledge.authorPlaceholder': 'Twoje imię, zapisywane w historii zmian',
+  'settings.knowledge.itemTitle': 'Tytuł',
+  'settings.knowledge.titlePlaceholder': 'np. Cennik usług...',
+  'settings.knowledge.itemContent': 'Treść',
+  'settings.knowledge.contentPlaceholder': 'Wprowadź szczegółowe informacje...',
+  'settings.training.title': 'Statystyki uczenia',
+  'settings.training.from': 'Od',
+  'settings.training.to': 'Do',
+  'settings.training.empty': 'Brak zapytań w wybranym okresie.',
+  'settings.training.approvedUnchanged': 'Zaakceptowane bez zmian',
+  'settings.training.approvedEdited': 'Zaakceptowane po edycji',
+  'settings.training.rejected': 'Odrzucone odpowiedzi',
+  'settings.training.meanEditDistance': 'Średnia liczba zmienionych słów',
+  'settings.training.outcomes': '{unchanged} bez zmian · {edited} po edycji · {rejected} odrzucone',
+  'settings.training.meanEdits': 'śr. {distance} słów zmienionych',
+  'settings.training.tones': 'Wybrane warianty',
+  'settings.training.chosen': '{total} wybrane',
+  'settings.categories.title': 'Trafność kategoryzacji',
+  'settings.categories.empty': 'Brak ocenionych zapytań. Trafność pojawi się po pierwszych decyzjach w panelu.',
+  'settings.categories.correct': '{correct} z {total} bez poprawki',
+  'settings.categories.overall': 'Łącznie: {accuracy}% ({correct} z {total})',
+  'settings.edits.title': 'Najczęściej poprawiane fragmenty',
+  'settings.edits.empty': 'Brak poprawek. Fragmenty pojawią się po pierwszych odpowiedziach wysłanych przez „{action}”.',
+  'settings.edits.summary': 'Poprawione odpowiedzi: {count}, średnio zmieniono {ratio}% treści',
+  'settings.edits.replacedBy': 'Zastępowane przez:',
+  'settings.edits.removed': '(usunięte)',
+  'settings.learning.title': 'Ustawienia uczenia',
+  'settings.learning.auto': 'Automatyczne uczenie',
+  'settings.learning.autoHint': 'Model uczy się automatycznie z zaakceptowanych odpowiedzi',
+  'settings.learning.notifications': 'Powiadomienia o poprawkach',
+  'settings.learning.notificationsHint': 'Otrzymuj informacje o aktualizacjach modelu',
+  'settings.reset': 'Resetuj ustawienia',
+  'settings.saving': 'Zapisywanie...',
+  'settings.toast.loadError': 'Błąd podczas ładowania danych',
+  'settings.toast.statsError': 'Błąd podczas ładowania statystyk',
+  'settings.toast.saved': 'Konfiguracja została zapisana',
+  'settings.toast.saveError': 'Błąd podczas zapisywania konfiguracji: {error}',
+  'settings.toast.knowledgeAdded': 'Element dodany do bazy wiedzy',
+  'settings.toast.knowledgeAddError': 'Błąd podczas dodawania elementu',
+  'settings.toast.knowledgeSaved': 'Zmiany zostały zapisane',
+  'settings.toast.knowledgeSaveError': 'Błąd podczas zapisywania zmian',
+  'settings.toast.knowledgeRemoved': 'Element usunięty z bazy wiedzy',
+  'settings.toast.knowledgeRemoveError': 'Błąd podczas usuwania elementu',
+
+  // Price list
+  'prices.title': 'Cennik usług',
+  'prices.hint': 'AI podaje klientom wyłącznie ceny z aktualnie obowiązujących pozycji cennika',
+  'prices.add': 'Dodaj pozycję',
+  'prices.service': 'Usługa',
+  'prices.price': 'Cena (PLN)',
+  'prices.unit': 'Jednostka',
+  'prices.leadTime': 'Realizacja',
+  'prices.validity': 'Obowiązuje',
+  'prices.inactive': 'nieaktywna',
+  'prices.indefinite': 'bezterminowo',
+  'prices.amount': '{amount} zł',
+  'prices.weeks': '{weeks} tyg.',
+  'prices.form.editTitle': 'Edytuj pozycję cennika',
+  'prices.form.newTitle': 'Nowa pozycja cennika',
+  'prices.form.description': 'Kwoty w złotych, czas realizacji w tygodniach; nazwy obcojęzyczne trafiają do odpowiedzi w tych językach',
+  'prices.form.servicePlaceholder': 'np. Strona wizytówka',
+  'prices.form.aliasEn': 'Nazwa po angielsku',
+  'prices.form.aliasEnPlaceholder': 'np. Business card website',
+  'prices.form.aliasDe': 'Nazwa po niemiecku',
+  'prices.form.aliasDePlaceholder': 'np. Visitenkarten-Website',
+  'prices.form.minPrice': 'Cena od',
+  'prices.form.maxPrice': 'Cena do',
+  'prices.form.minLeadTime': 'Realizacja od (tyg.)',
+  'prices.form.maxLeadTime': 'Realizacja do (tyg.)',
+  'prices.form.validFrom': 'Obowiązuje od',
+  'prices.form.validTo': 'Obowiązuje do',
+  'prices.toast.loadError': 'Błąd podczas ładowania cennika',
+  'prices.toast.saved': 'Cennik został zaktualizowany',
+  'prices.toast.saveError': 'Błąd podczas zapisywania pozycji: {error}',
+  'prices.toast.removed': 'Pozycja usunięta z cennika',
+  'prices.toast.removeError': 'Błąd podczas usuwania pozycji',
+
+  // Charts
+  'charts.title': 'Analiza zapytań',
+  'charts.daily': 'Dziennie',
+  'charts.weekly': 'Tygodniowo',
+  'charts.volume': 'Liczba zapytań',
+  'charts.quality': 'Akceptacja i pewność modelu',
+  'charts.responseTime': 'Czas do pierwszej odpowiedzi (godziny)',
+  'charts.byCategory': 'Zapytania według kategorii',
+  'charts.series.total': 'Zapytania',
+  'charts.series.approvalRate': 'Akceptacja (%)',
+  'charts.series.meanConfidence': 'Średnia pewność (%)',
+  'charts.series.responseHours': 'Czas do odpowiedzi (h)',
+  'charts.series.unchanged': 'Bez zmian',
+  'charts.series.edited': 'Po edycji',
+  'charts.series.rejected': 'Odrzucone',
+  'charts.series.open': 'W toku',
+  'charts.toast.loadError': 'Błąd podczas ładowania wykresów',
+  'calibration.title': 'Kalibracja pewności',
+  'calibration.empty': 'Brak ocenionych odpowiedzi. Wykres pojawi się po pierwszych decyzjach w panelu.',
+  'calibration.series': 'Zaakceptowane bez zmian (%)',
+  'calibration.point': 'Pewność ~{confidence}% ({count} odp.)',
+  'calibration.summary': 'Ocenionych odpowiedzi: {samples}. Błąd Briera: {calibrated} po kalibracji, {raw} dla surowej oceny modelu (im niżej, tym lepiej).',
+  'calibration.fit.category': 'własna krzywa',
+  'calibration.fit.global': 'krzywa ogólna',
+  'calibration.fit.none': 'bez kalibracji',
+  'calibration.toast.loadError': 'Błąd podczas ładowania kalibracji',
+
+  // Knowledge base history
+  'changelog.title': 'Ostatnie zmiany w bazie wiedzy',
+  'changelog.empty': 'Baza wiedzy nie była jeszcze zmieniana.',
+  'changelog.revision': 'wersja {revision}',
+  'changelog.revertedFrom': '(z wersji {revision})',
+  'changelog.action.created': 'Dodano',
+  'changelog.action.updated': 'Zmieniono',
+  'changelog.action.reverted': 'Przywrócono',
+  'changelog.toast.loadError': 'Błąd podczas ładowania historii zmian',
+  'history.title': 'Historia zmian',
+  'history.action.created': 'Utworzenie',
+  'history.action.updated': 'Edycja',
+  'history.action.reverted': 'Przywrócenie',
+  'history.revertedFrom': 'Przywrócono treść wersji {revision}',
+  'history.first': 'Pierwsza wersja',
+  'history.changesSince': 'Zmiany względem wersji {revision}',
+  'history.revert': 'Przywróć tę wersję',
+  'history.toast.loadError': 'Nie udało się wczytać historii zmian',
+  'history.toast.diffError': 'Nie udało się porównać wersji',
+  'history.toast.reverted': 'Przywrócono wersję {revision}',
+  'history.toast.revertError': 'Nie udało się przywrócić wersji',
+
+  'templates.fields': 'Dostępne pola',
+  'templates.preview': 'Podgląd dla zapytania',
+  'templates.noInquiries': 'Brak zapytań do podglądu',
+  'templates.invalid': 'Szablon zawiera błąd: {error}',
+  'templates.answerPlaceholder': '[tu pojawi się odpowiedź asystenta]',
+  'templates.noAnswerSlot': 'Szablon nie zawiera pola {{answer}}, więc posłuży modelowi tylko jako wskazówka.',
+};
+
+export type MessageKey = keyof typeof pl;
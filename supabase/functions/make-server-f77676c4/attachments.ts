@@ -0,0 +1,173 @@
+import { createClient } from 'https://esm.sh/@supabase/supabase-js@2';
+import { extractText, getDocumentProxy } from 'npm:unpdf@0.12.1';
+import type { Attachment } from './types.ts';
+
+// A file as received with an email, before it is stored
+export interface InboundAttachment {
+  filename: string;
+  contentType: string;
+  content: Uint8Array;
+}
+
+interface AttachmentStore {
+  write(path: string, content: Uint8Array, contentType: string): Promise<void>;
+  read(path: string): Promise<Uint8Array<ArrayBuffer>>;
+  remove(paths: string[]): Promise<void>;
+}
+
+const BUCKET = 'make-f77676c4-attachments';
+const MAX_ATTACHMENT_BYTES = 10 * 1024 * 1024;
+// Extracted text is capped so a long PDF cannot crowd out the rest of the prompt
+const MAX_EXTRACTED_CHARS = 8000;
+
+// Private Supabase Storage bucket, created on first use
+function supabaseStore(): AttachmentStore {
+  const supabase = createClient(
+    Deno.env.get('SUPABASE_URL')!,
+    Deno.env.get('SUPABASE_SERVICE_ROLE_KEY')!
+  );
+  let bucketReady: Promise<void> | null = null;
+
+  const ensureBucket = () => {
+    bucketReady ??= (async () => {
+      const { data: buckets } = await supabase.storage.listBuckets();
+      if (!buckets?.some((bucket: { name: string }) => bucket.name === BUCKET)) {
+        const { error } = await supabase.storage.createBucket(BUCKET, { public: false });
+        if (error) {
+          throw new Error(error.message);
+        }
+      }
+    })();
+    return bucketReady;
+  };
+
+  return {
+    async write(path, content, contentType) {
+      await ensureBucket();
+      const { error } = await supabase.storage.from(BUCKET).upload(path, content, { contentType, upsert: true });
+      if (error) {
+        throw new Error(error.message);
+      }
+    },
+    async read(path) {
+      const { data, error } = await supabase.storage.from(BUCKET).download(path);
+      if (error) {
+        throw new Error(error.message);
+      }
+      return new Uint8Array(await data.arrayBuffer());
+    },
+    async remove(paths) {
+      const { error } = await supabase.storage.from(BUCKET).remove(paths);
+      if (error) {
+        throw new Error(error.message);
+      }
+    },
+  };
+}
+
+// Plain directory on disk, for running the function locally without Storage
+function localStore(root: string): AttachmentStore {
+  return {
+    async write(path, content) {
+      const file = `${root}/${path}`;
+      await Deno.mkdir(file.slice(0, file.lastIndexOf('/')), { recursive: true });
+      await Deno.writeFile(file, content);
+    },
+    async read(path) {
+      return new Uint8Array(await Deno.readFile(`${root}/${path}`));
+    },
+    async remove(paths) {
+      for (const path of paths) {
+        await Deno.remove(`${root}/${path}`).catch(() => {});
+      }
+    },
+  };
+}
+
+let store: AttachmentStore | null = null;
+
+// ATTACHMENTS_DIR switches to the local store
+function getStore() {
+  if (!store) {
+    const dir = Deno.env.get('ATTACHMENTS_DIR');
+    store = dir ? localStore(dir) : supabaseStore();
+  }
+  return store;
+}
+
+// Stores the files of one email and returns their metadata, skipping files over the size limit.
+// When one of them cannot be stored, the ones already written are removed again.
+export async function storeAttachments(
+  inquiryId: string,
+  files: InboundAttachment[] = [],
+  messageId?: string,
+): Promise<Attachment[]> {
+  const stored: Attachment[] = [];
+  try {
+    await storeEach(inquiryId, files, messageId, stored);
+  } catch (error) {
+    await removeAttachments(stored);
+    throw error;
+  }
+  return stored;
+}
+
+async function storeEach(inquiryId: string, files: InboundAttachment[], messageId: string | undefined, stored: Attachment[]) {
+  for (const [index, file] of files.entries()) {
+    if (file.content.byteLength > MAX_ATTACHMENT_BYTES) {
+      console.log(`Skipping attachment ${file.filename} of ${inquiryId}: ${file.content.byteLength} bytes`);
+      continue;
+    }
+
+    const id = `att_${Date.now()}_${index}`;
+    const filename = file.filename || `zalacznik-${index + 1}`;
+    const path = `${inquiryId}/${id}/${filename.replace(/[^\p{L}\p{N}._-]+/gu, '_')}`;
+    const extractedText = await extractAttachmentText(file);
+    await getStore().write(path, file.content, file.contentType);
+
+    stored.push({
+      id,
+      filename,
+      contentType: file.contentType || 'application/octet-stream',
+      size: file.content.byteLength,
+      path,
+      messageId,
+      extractedText,
+    });
+  }
+}
+
+// Deletes stored files that nothing will point to, e.g. when saving their inquiry failed.
+// Failures are only logged, so they do not hide the error that made the files orphans.
+export async function removeAttachments(attachments: Attachment[]) {
+  if (!attachments.length) return;
+  try {
+    await getStore().remove(attachments.map((attachment) => attachment.path));
+  } catch (error) {
+    console.log(`Error removing orphaned attachments: ${error}`);
+  }
+}
+
+export function readAttachment(attachment: Attachment) {
+  return getStore().read(attachment.path);
+}
+
+// Plain text of txt and PDF files; other types are listed but not read
+async function extractAttachmentText(file: InboundAttachment): Promise<string | undefined> {
+  const type = file.contentType.toLowerCase();
+  const name = file.filename.toLowerCase();
+  try {
+    let text: string | undefined;
+    if (type.startsWith('text/plain') || name.endsWith('.txt')) {
+      text = new TextDecoder().decode(file.content);
+    } else if (type === 'application/pdf' || name.endsWith('.pdf')) {
+      const pdf = await getDocumentProxy(new Uint8Array(file.content));
+      const result = await extractText(pdf, { mergePages: true });
+      text = result.text as string;
+    }
+    return text?.trim().slice(0, MAX_EXTRACTED_CHARS) || undefined;
+  } catch (error) {
+    console.log(`Could not extract text from ${file.filename}: ${error}`);
+    return undefined;
+  }
+}
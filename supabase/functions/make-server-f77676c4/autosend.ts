@@ -0,0 +1,63 @@
+import * as kv from './kv_store.ts';
+import { asObject } from './utils.ts';
+import { enqueueReply } from './outbox.ts';
+import { workflowTransition } from './status.ts';
+import type { AIConfig, Inquiry } from './types.ts';
+
+// Queue entry for a draft that will go out unless a reviewer cancels it first
+export interface AutoSendEntry {
+  inquiryId: string;
+  sendAt: string;
+  queuedAt: string;
+}
+
+// Decides whether a freshly drafted inquiry goes out automatically or waits for a reviewer.
+// Mutates the inquiry and returns the queue entry when one should be stored.
+export function applyAutoResponsePolicy(inquiry: Inquiry, config: AIConfig, now = new Date()): AutoSendEntry | null {
+  const confident = (inquiry.confidence ?? 0) >= config.confidenceThreshold;
+  const traceable = !inquiry.figureCheck?.untraced.length;
+  inquiry.needsReview = !confident || !traceable;
+
+  if (!config.autoResponse || inquiry.needsReview) {
+    return null;
+  }
+
+  const sendAt = new Date(now.getTime() + config.autoResponseDelayMinutes * 60 * 1000).toISOString();
+  workflowTransition(inquiry, 'auto_sent');
+  inquiry.autoSendAt = sendAt;
+
+  return { inquiryId: inquiry.id, sendAt, queuedAt: now.toISOString() };
+}
+
+export async function queueAutoSend(entry: AutoSendEntry) {
+  await kv.set(`autosend:${entry.inquiryId}`, entry);
+}
+
+export async function dequeueAutoSend(inquiryId: string) {
+  await kv.del(`autosend:${inquiryId}`);
+}
+
+// Entries whose delay window has passed, oldest first
+export async function dueAutoSends(now = new Date()): Promise<AutoSendEntry[]> {
+  const entries = await kv.getByPrefix('autosend:');
+  return entries
+    .map((item: any) => asObject<AutoSendEntry>(item?.value ?? item))
+    .filter((entry) => new Date(entry.sendAt).getTime() <= now.getTime())
+    .sort((a, b) => new Date(a.sendAt).getTime() - new Date(b.sendAt).getTime());
+}
+
+// Moves automatic replies whose delay window has passed into the outbox
+export async function releaseDueAutoSends(config: AIConfig, now = new Date()) {
+  const released: string[] = [];
+  for (const entry of await dueAutoSends(now)) {
+    const existing = await kv.get(`inquiry:${entry.inquiryId}`);
+    const inquiry = existing ? asObject<Inquiry>(existing) : null;
+    // Cancelled or already handled by a reviewer in the meantime
+    if (inquiry?.status === 'auto_sent') {
+      await enqueueReply(inquiry, config);
+      released.push(entry.inquiryId);
+    }
+    await dequeueAutoSend(entry.inquiryId);
+  }
+  return released;
+}
@@ -0,0 +1,86 @@
+import type { Availability, ReplyLanguage } from './types.ts';
+
+// A month counts as fully booked at this many booked weeks
+export const WEEKS_PER_MONTH = 4;
+// How far ahead to look for a free slot before giving up on the booking calendar
+const MAX_MONTHS_AHEAD = 24;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const MONTHS_GENITIVE = [
+  'stycznia', 'lutego', 'marca', 'kwietnia', 'maja', 'czerwca',
+  'lipca', 'sierpnia', 'września', 'października', 'listopada', 'grudnia',
+];
+
+function toDay(date: Date) {
+  return new Date(Date.UTC(date.getUTCFullYear(), date.getUTCMonth(), date.getUTCDate()));
+}
+
+export function isoDay(date: Date) {
+  return date.toISOString().slice(0, 10);
+}
+
+// Saturdays and Sundays move to the following Monday
+function nextWorkday(date: Date) {
+  const day = date.getUTCDay();
+  return day === 6 ? new Date(date.getTime() + 2 * DAY_MS) : day === 0 ? new Date(date.getTime() + DAY_MS) : date;
+}
+
+// Earliest day work on a new project can start: the notice period from today, no earlier than the
+// configured date, and past the weeks already booked at the start of each month
+export function earliestStartDate(availability: Availability, now = new Date()): Date {
+  let candidate = new Date(toDay(now).getTime() + availability.leadInWeeks * 7 * DAY_MS);
+  if (availability.earliestStartDate) {
+    const configured = new Date(`${availability.earliestStartDate}T00:00:00Z`);
+    if (configured > candidate) candidate = configured;
+  }
+
+  for (let i = 0; i < MAX_MONTHS_AHEAD; i++) {
+    const monthStart = new Date(Date.UTC(candidate.getUTCFullYear(), candidate.getUTCMonth(), 1));
+    const booked = availability.bookedWeeks[isoDay(monthStart).slice(0, 7)] ?? 0;
+    if (booked < WEEKS_PER_MONTH) {
+      const freeFrom = new Date(monthStart.getTime() + booked * 7 * DAY_MS);
+      if (freeFrom > candidate) candidate = freeFrom;
+      break;
+    }
+    candidate = new Date(Date.UTC(candidate.getUTCFullYear(), candidate.getUTCMonth() + 1, 1));
+  }
+
+  return nextWorkday(candidate);
+}
+
+// "3 listopada 2026"
+export function formatPolishDate(day: string) {
+  const [year, month, date] = day.split('-').map(Number);
+  return `${date} ${MONTHS_GENITIVE[month - 1]} ${year}`;
+}
+
+// "3 listopada 2026", "3 November 2026", "3. November 2026"
+export function formatDate(day: string, language: ReplyLanguage) {
+  if (language === 'pl') return formatPolishDate(day);
+  return new Intl.DateTimeFormat(language === 'de' ? 'de-DE' : 'en-GB', {
+    day: 'numeric',
+    month: 'long',
+    year: 'numeric',
+    timeZone: 'UTC',
+  }).format(new Date(`${day}T00:00:00Z`));
+}
+
+// Returns an error message for an invalid availability setting, or null
+export function validateAvailability(availability: Availability): string | null {
+  if (!Number.isInteger(availability.leadInWeeks) || availability.leadInWeeks < 0) {
+    return 'leadInWeeks must be a non-negative whole number';
+  }
+  if (availability.earliestStartDate && !/^\d{4}-\d{2}-\d{2}$/.test(availability.earliestStartDate)) {
+    return `Invalid earliestStartDate: ${availability.earliestStartDate}, expected YYYY-MM-DD`;
+  }
+  for (const [month, weeks] of Object.entries(availability.bookedWeeks ?? {})) {
+    if (!/^\d{4}-\d{2}$/.test(month)) {
+      return `Invalid month in bookedWeeks: ${month}, expected YYYY-MM`;
+    }
+    if (!Number.isInteger(weeks) || weeks < 0 || weeks > WEEKS_PER_MONTH) {
+      return `Booked weeks for ${month} must be between 0 and ${WEEKS_PER_MONTH}`;
+    }
+  }
+  return null;
+}
@@ -0,0 +1,175 @@
+import * as kv from './kv_store.ts';
+import { asObject } from './utils.ts';
+import { CATEGORIES } from './classifier.ts';
+import { decisionOf } from './status.ts';
+import type { Inquiry, InquiryCategory } from './types.ts';
+
+// A reviewed draft: the model's own score and whether the reply went out unchanged
+export interface CalibrationSample {
+  category: InquiryCategory;
+  score: number;
+  success: boolean;
+}
+
+// Isotonic fit: calibrated probability (0-1) at increasing raw scores, interpolated linearly in between
+export interface CalibrationCurve {
+  points: { score: number; probability: number }[];
+  samples: number;
+}
+
+export interface CalibrationModel {
+  global: CalibrationCurve | null;
+  byCategory: Partial<Record<InquiryCategory, CalibrationCurve>>;
+}
+
+export interface ReliabilityBin {
+  from: number;
+  to: number;
+  count: number;
+  // Mean stated confidence and observed share of unchanged approvals, both in percent
+  meanConfidence: number | null;
+  observedRate: number | null;
+}
+
+// Below these counts a fit is mostly noise, so the next broader level is used instead
+const MIN_GLOBAL_SAMPLES = 20;
+const MIN_CATEGORY_SAMPLES = 10;
+const RELIABILITY_BINS = 10;
+
+// Raw score the draft was given by the provider; inquiries drafted before calibration only have `confidence`
+const rawScoreOf = (inquiry: Inquiry) => inquiry.rawConfidence ?? inquiry.confidence;
+
+// Only reviewer decisions count: an approval without changes is a success, an edit or a rejection is not
+const isReviewed = (inquiry: Inquiry) => decisionOf(inquiry) === 'approved' || decisionOf(inquiry) === 'rejected';
+const isSuccess = (inquiry: Inquiry) => decisionOf(inquiry) === 'approved'
+  && (!inquiry.finalResponse || inquiry.finalResponse.trim() === (inquiry.aiSuggestion ?? '').trim());
+
+export function calibrationSamples(inquiries: Inquiry[]): CalibrationSample[] {
+  return inquiries
+    .filter((inquiry) => isReviewed(inquiry) && typeof rawScoreOf(inquiry) === 'number')
+    .map((inquiry) => ({ category: inquiry.category, score: rawScoreOf(inquiry)!, success: isSuccess(inquiry) }));
+}
+
+// Pool-adjacent-violators: merges neighbouring score blocks until the success rate never decreases
+export function fitIsotonic(samples: CalibrationSample[]): CalibrationCurve {
+  const blocks: { scoreSum: number; successes: number; count: number }[] = [];
+
+  for (const sample of [...samples].sort((a, b) => a.score - b.score)) {
+    const tail = blocks[blocks.length - 1];
+    // Drafts with the same score share a block, so ties do not depend on the order they were reviewed in
+    if (tail && tail.scoreSum / tail.count === sample.score) {
+      tail.scoreSum += sample.score;
+      tail.successes += sample.success ? 1 : 0;
+      tail.count++;
+    } else {
+      blocks.push({ scoreSum: sample.score, successes: sample.success ? 1 : 0, count: 1 });
+    }
+    while (blocks.length > 1) {
+      const last = blocks[blocks.length - 1];
+      const previous = blocks[blocks.length - 2];
+      if (previous.successes / previous.count <= last.successes / last.count) break;
+      blocks.pop();
+      previous.scoreSum += last.scoreSum;
+      previous.successes += last.successes;
+      previous.count += last.count;
+    }
+  }
+
+  // Laplace smoothing keeps small blocks away from 0 and 1; the running maximum restores monotonicity
+  let floor = 0;
+  const points = blocks.map((block) => {
+    floor = Math.max(floor, (block.successes + 1) / (block.count + 2));
+    return { score: block.scoreSum / block.count, probability: floor };
+  });
+
+  return { points, samples: samples.length };
+}
+
+export function fitCalibration(inquiries: Inquiry[]): CalibrationModel {
+  const samples = calibrationSamples(inquiries);
+  const byCategory: CalibrationModel['byCategory'] = {};
+
+  for (const category of CATEGORIES) {
+    const categorySamples = samples.filter((sample) => sample.category === category);
+    if (categorySamples.length >= MIN_CATEGORY_SAMPLES) {
+      byCategory[category] = fitIsotonic(categorySamples);
+    }
+  }
+
+  return {
+    global: samples.length >= MIN_GLOBAL_SAMPLES ? fitIsotonic(samples) : null,
+    byCategory,
+  };
+}
+
+function interpolate(curve: CalibrationCurve, score: number) {
+  const { points } = curve;
+  if (score <= points[0].score) return points[0].probability;
+
+  for (let i = 1; i < points.length; i++) {
+    if (score <= points[i].score) {
+      const left = points[i - 1];
+      const right = points[i];
+      return left.probability + ((score - left.score) / (right.score - left.score)) * (right.probability - left.probability);
+    }
+  }
+  return points[points.length - 1].probability;
+}
+
+// Calibrated probability, in percent, that a draft with this raw score is approved without changes.
+// Without enough reviewed drafts the raw score is returned as is.
+export function calibrate(model: CalibrationModel, category: InquiryCategory, score: number) {
+  const curve = model.byCategory[category] ?? model.global;
+  return curve ? Math.round(interpolate(curve, score) * 100) : score;
+}
+
+export async function loadCalibration(): Promise<CalibrationModel> {
+  const items = await kv.getByPrefix('inquiry:');
+  return fitCalibration(items.map((item: any) => asObject<Inquiry>(item?.value ?? item)));
+}
+
+function brierScore(pairs: { predicted: number; success: boolean }[]) {
+  if (!pairs.length) return null;
+  const total = pairs.reduce((sum, { predicted, success }) => sum + (predicted / 100 - (success ? 1 : 0)) ** 2, 0);
+  return Math.round((total / pairs.length) * 1000) / 1000;
+}
+
+function reliabilityBins(pairs: { predicted: number; success: boolean }[]): ReliabilityBin[] {
+  const width = 100 / RELIABILITY_BINS;
+  return Array.from({ length: RELIABILITY_BINS }, (_, index) => {
+    const from = index * width;
+    const to = from + width;
+    const inBin = pairs.filter(({ predicted }) => predicted >= from && (predicted < to || (to === 100 && predicted === 100)));
+    const successes = inBin.filter(({ success }) => success).length;
+    return {
+      from,
+      to,
+      count: inBin.length,
+      meanConfidence: inBin.length
+        ? Math.round(inBin.reduce((sum, { predicted }) => sum + predicted, 0) / inBin.length)
+        : null,
+      observedRate: inBin.length ? Math.round((successes / inBin.length) * 100) : null,
+    };
+  });
+}
+
+// How well the confidence stored with each reviewed draft matched what reviewers did, next to the raw score
+export function reliabilityReport(inquiries: Inquiry[]) {
+  const reviewed = inquiries.filter((inquiry) => isReviewed(inquiry) && typeof inquiry.confidence === 'number');
+  const stated = reviewed.map((inquiry) => ({ predicted: inquiry.confidence!, success: isSuccess(inquiry) }));
+  const raw = reviewed.map((inquiry) => ({ predicted: rawScoreOf(inquiry)!, success: isSuccess(inquiry) }));
+  const model = fitCalibration(inquiries);
+
+  return {
+    samples: reviewed.length,
+    bins: reliabilityBins(stated),
+    brierScore: { calibrated: brierScore(stated), raw: brierScore(raw) },
+    // Which fit new drafts in each category are calibrated with
+    fittedOn: Object.fromEntries(
+      CATEGORIES.map((category) => [
+        category,
+        model.byCategory[category] ? 'category' : model.global ? 'global' : 'none',
+      ])
+    ) as Record<InquiryCategory, 'category' | 'global' | 'none'>,
+  };
+}
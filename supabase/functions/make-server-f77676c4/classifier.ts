@@ -0,0 +1,175 @@
+import * as kv from './kv_store.ts';
+import { asObject } from './utils.ts';
+import { tokenize } from './retrieval.ts';
+import type { Inquiry, InquiryCategory } from './types.ts';
+
+// 'general' comes first so it wins ties
+export const CATEGORIES: InquiryCategory[] = ['general', 'pricing', 'timeline', 'product'];
+
+// A reviewer's verdict on the predicted category, kept as training signal
+export interface CategoryFeedback {
+  inquiryId: string;
+  text: string;
+  predicted: InquiryCategory;
+  actual: InquiryCategory;
+  score: number;
+  corrected: boolean;
+  recordedAt: string;
+}
+
+export interface CategoryPrediction {
+  category: InquiryCategory;
+  score: number;
+}
+
+export interface CategoryAccuracy {
+  total: number;
+  correct: number;
+  accuracy: number | null;
+}
+
+// Hand-written examples that let the classifier work before any reviewer feedback exists,
+// in each reply language since customers do not all write in Polish
+const SEED_EXAMPLES: Record<InquiryCategory, string[]> = {
+  pricing: [
+    'Ile kosztuje strona internetowa? Proszę o wycenę i cennik usług',
+    'Jaki jest koszt projektu, jaki budżet przygotować, cena w złotych netto brutto',
+    'Czy oferują Państwo rabat, jak wygląda płatność i faktura, oferta cenowa',
+    'Ile kosztuje sklep, strona, logo lub pozycjonowanie, prosimy o kosztorys',
+    'How much does a website cost? Please send a quote, price list and estimate',
+    'What budget should we plan, price of an online shop or logo, discount, invoice and payment',
+    'Was kostet eine Webseite? Bitte um ein Angebot, Preisliste und Kostenvoranschlag',
+    'Welches Budget brauchen wir, Preis für Onlineshop oder Logo, Rabatt, Rechnung und Zahlung',
+  ],
+  timeline: [
+    'Jak długo trwa realizacja? Jaki jest termin wykonania strony',
+    'Kiedy możecie zacząć i ile tygodni lub miesięcy zajmie projekt, harmonogram prac',
+    'Potrzebujemy tego pilnie, czy zdążycie przed terminem, deadline, szybko gotowe',
+    'How long does it take? When can you start, how many weeks or months, project schedule',
+    'We need it urgently, can you meet our deadline, delivery date and timeline',
+    'Wie lange dauert die Umsetzung? Wann können Sie anfangen, wie viele Wochen oder Monate, Zeitplan',
+    'Wir brauchen es dringend, schaffen Sie den Termin, Frist und Liefertermin',
+  ],
+  product: [
+    'Strona internetowa dla firmy, sklep internetowy, system CMS, WordPress',
+    'Projekt logo i identyfikacja wizualna, branding, fotografia produktowa, copywriting',
+    'Modernizacja strony, responsywny design, optymalizacja SEO, hosting i domena, funkcje aplikacji',
+    'Company website, online shop, CMS, WordPress, logo design, branding, product photography, copywriting',
+    'Website redesign, responsive design, SEO optimisation, hosting and domain, features and services you offer',
+    'Firmenwebseite, Onlineshop, CMS, WordPress, Logodesign, Corporate Design, Produktfotografie, Texte',
+    'Relaunch der Webseite, responsives Design, SEO-Optimierung, Hosting und Domain, Funktionen und Leistungen',
+  ],
+  general: [
+    'Chciałbym nawiązać współpracę, proszę o kontakt i spotkanie',
+    'Mam pytanie o firmę, doświadczenie, portfolio i referencje',
+    'Proszę o więcej informacji, rozmowa telefoniczna, dane kontaktowe',
+    'We would like to work with you, please get in touch and arrange a meeting',
+    'A question about your company, experience, portfolio, references, more information, phone call',
+    'Wir möchten mit Ihnen zusammenarbeiten, bitte kontaktieren Sie uns für ein Treffen',
+    'Eine Frage zu Ihrer Firma, Erfahrung, Portfolio, Referenzen, mehr Informationen, Telefonat',
+  ],
+};
+
+function inquiryText(subject: string, message: string) {
+  return `${subject}\n${message}`;
+}
+
+async function loadFeedback(): Promise<CategoryFeedback[]> {
+  const items = await kv.getByPrefix('category_feedback:');
+  return items.map((item: any) => asObject<CategoryFeedback>(item?.value ?? item));
+}
+
+// Multinomial naive Bayes over stemmed tokens, trained on the seed examples and every reviewed inquiry
+function train(feedback: CategoryFeedback[]) {
+  const documents = [
+    ...CATEGORIES.flatMap((category) => SEED_EXAMPLES[category].map((text) => ({ category, text }))),
+    ...feedback.map((entry) => ({ category: entry.actual, text: entry.text })),
+  ];
+
+  const docCounts = new Map<InquiryCategory, number>();
+  const tokenCounts = new Map<InquiryCategory, Map<string, number>>();
+  const totals = new Map<InquiryCategory, number>();
+  const vocabulary = new Set<string>();
+
+  for (const { category, text } of documents) {
+    docCounts.set(category, (docCounts.get(category) ?? 0) + 1);
+    const counts = tokenCounts.get(category) ?? new Map<string, number>();
+    for (const token of tokenize(text)) {
+      counts.set(token, (counts.get(token) ?? 0) + 1);
+      totals.set(category, (totals.get(category) ?? 0) + 1);
+      vocabulary.add(token);
+    }
+    tokenCounts.set(category, counts);
+  }
+
+  return { documents: documents.length, docCounts, tokenCounts, totals, vocabulary };
+}
+
+// Predicts the category of an inquiry; the score is the posterior probability of the winner, in percent
+export async function classifyInquiry(subject: string, message: string): Promise<CategoryPrediction> {
+  const model = train(await loadFeedback());
+  const tokens = tokenize(inquiryText(subject, message)).filter((token) => model.vocabulary.has(token));
+  if (!tokens.length) {
+    // Nothing to go on; leave the inquiry in the catch-all category for a reviewer to sort
+    return { category: 'general', score: 0 };
+  }
+
+  // Laplace smoothing on both the priors and the token likelihoods
+  const logScores = CATEGORIES.map((category) => {
+    const counts = model.tokenCounts.get(category);
+    const denominator = (model.totals.get(category) ?? 0) + model.vocabulary.size;
+    let score = Math.log(((model.docCounts.get(category) ?? 0) + 1) / (model.documents + CATEGORIES.length));
+    for (const token of tokens) {
+      score += Math.log(((counts?.get(token) ?? 0) + 1) / denominator);
+    }
+    return score;
+  });
+
+  const max = Math.max(...logScores);
+  const weights = logScores.map((score) => Math.exp(score - max));
+  const sum = weights.reduce((total, weight) => total + weight, 0);
+
+  let best = 0;
+  weights.forEach((weight, index) => {
+    if (weight > weights[best]) best = index;
+  });
+
+  return { category: CATEGORIES[best], score: Math.round((weights[best] / sum) * 100) };
+}
+
+// Records the category a reviewer settled on for an inquiry. Called on corrections and when a
+// reviewed inquiry is approved or rejected without one, which confirms the prediction.
+export async function recordCategoryFeedback(inquiry: Inquiry) {
+  if (!inquiry.predictedCategory) return;
+
+  const feedback: CategoryFeedback = {
+    inquiryId: inquiry.id,
+    text: inquiryText(inquiry.subject, inquiry.message),
+    predicted: inquiry.predictedCategory,
+    actual: inquiry.category,
+    score: inquiry.categoryScore ?? 0,
+    corrected: inquiry.predictedCategory !== inquiry.category,
+    recordedAt: new Date().toISOString(),
+  };
+  await kv.set(`category_feedback:${inquiry.id}`, feedback);
+}
+
+function accuracyOf(entries: CategoryFeedback[]): CategoryAccuracy {
+  const correct = entries.filter((entry) => !entry.corrected).length;
+  return {
+    total: entries.length,
+    correct,
+    accuracy: entries.length ? Math.round((correct / entries.length) * 100) : null,
+  };
+}
+
+// Share of reviewed inquiries whose predicted category was kept, overall and per actual category
+export async function categoryAccuracy() {
+  const feedback = await loadFeedback();
+  return {
+    overall: accuracyOf(feedback),
+    byCategory: Object.fromEntries(
+      CATEGORIES.map((category) => [category, accuracyOf(feedback.filter((entry) => entry.actual === category))])
+    ) as Record<InquiryCategory, CategoryAccuracy>,
+  };
+}
@@ -0,0 +1,76 @@
+import * as kv from './kv_store.ts';
+import { asObject } from './utils.ts';
+import { REPLY_LANGUAGES } from './language.ts';
+import type { AIConfig, ReplyLanguage } from './types.ts';
+
+export const DEFAULT_AI_CONFIG: AIConfig = {
+  confidenceThreshold: 85,
+  autoResponse: false,
+  responseTemplates: {
+    pl: '{{greeting}},\n\n{{answer}}\n\nW razie pytań zapraszamy do kontaktu pod adresem {{contactEmail}}.',
+    en: '{{greeting}},\n\n{{answer}}\n\nIf you have any questions, please contact us at {{contactEmail}}.',
+    de: '{{greeting}},\n\n{{answer}}\n\nBei Fragen erreichen Sie uns unter {{contactEmail}}.',
+  },
+  signatures: {
+    pl: 'Z poważaniem\nZespół Nardos House',
+    en: 'Kind regards\nThe Nardos House team',
+    de: 'Mit freundlichen Grüßen\nIhr Nardos House Team',
+  },
+  companyName: 'Nardos House',
+  contactEmail: 'kontakt@nardoshouse.pl',
+  autoResponseDelayMinutes: 10,
+  provider: 'fake',
+  model: 'fake-deterministic',
+  availability: {
+    leadInWeeks: 2,
+    bookedWeeks: {},
+  },
+  draftTones: [],
+};
+
+// Configs saved before templates were kept per language have a single Polish responseTemplate
+type StoredAIConfig = Partial<AIConfig> & { responseTemplate?: string };
+
+// Stored configs predating newer fields are completed with the defaults
+export async function getAIConfig(): Promise<AIConfig> {
+  const { responseTemplate, ...stored } = asObject<StoredAIConfig | null>(await kv.get('ai_config')) ?? {};
+  return {
+    ...DEFAULT_AI_CONFIG,
+    ...stored,
+    responseTemplates: {
+      ...DEFAULT_AI_CONFIG.responseTemplates,
+      ...(responseTemplate ? { pl: responseTemplate } : {}),
+      ...stored.responseTemplates,
+    },
+    signatures: { ...DEFAULT_AI_CONFIG.signatures, ...stored.signatures },
+  };
+}
+
+function perLanguage(values: Partial<Record<ReplyLanguage, string>> | undefined, defaults: Record<ReplyLanguage, string>) {
+  return Object.fromEntries(
+    REPLY_LANGUAGES.map((language) => [language, values?.[language] ?? defaults[language]]),
+  ) as Record<ReplyLanguage, string>;
+}
+
+// The config saved by PUT /config: only the known fields of the request body, the rest from the defaults
+export function configFromBody(body: Partial<AIConfig>): AIConfig {
+  const availability = body.availability ?? DEFAULT_AI_CONFIG.availability;
+  return {
+    confidenceThreshold: body.confidenceThreshold ?? DEFAULT_AI_CONFIG.confidenceThreshold,
+    autoResponse: body.autoResponse ?? DEFAULT_AI_CONFIG.autoResponse,
+    responseTemplates: perLanguage(body.responseTemplates, DEFAULT_AI_CONFIG.responseTemplates),
+    signatures: perLanguage(body.signatures, DEFAULT_AI_CONFIG.signatures),
+    companyName: body.companyName ?? DEFAULT_AI_CONFIG.companyName,
+    contactEmail: body.contactEmail ?? DEFAULT_AI_CONFIG.contactEmail,
+    autoResponseDelayMinutes: body.autoResponseDelayMinutes ?? DEFAULT_AI_CONFIG.autoResponseDelayMinutes,
+    provider: body.provider ?? DEFAULT_AI_CONFIG.provider,
+    model: body.model ?? DEFAULT_AI_CONFIG.model,
+    baseUrl: body.baseUrl,
+    availability: {
+      leadInWeeks: availability.leadInWeeks ?? DEFAULT_AI_CONFIG.availability.leadInWeeks,
+      earliestStartDate: availability.earliestStartDate,
+      bookedWeeks: availability.bookedWeeks ?? DEFAULT_AI_CONFIG.availability.bookedWeeks,
+    },
+    draftTones: body.draftTones ?? DEFAULT_AI_CONFIG.draftTones,
+  };
+}
@@ -0,0 +1,105 @@
+import type { DiffSegment } from './types.ts';
+
+// Words and the whitespace between them, so joining the tokens gives back the original text
+function splitWords(text: string) {
+  return text.match(/\s+|[^\s]+/g) ?? [];
+}
+
+// Word-level diff from the longest common subsequence of the two token lists.
+// Adjacent tokens of the same kind are merged into one segment.
+export function diffWords(before: string, after: string): DiffSegment[] {
+  const a = splitWords(before);
+  const b = splitWords(after);
+  const width = b.length + 1;
+
+  // lengths[i * width + j] = LCS length of a[i..] and b[j..]
+  const lengths = new Uint32Array((a.length + 1) * width);
+  for (let i = a.length - 1; i >= 0; i--) {
+    for (let j = b.length - 1; j >= 0; j--) {
+      lengths[i * width + j] = a[i] === b[j]
+        ? lengths[(i + 1) * width + j + 1] + 1
+        : Math.max(lengths[(i + 1) * width + j], lengths[i * width + j + 1]);
+    }
+  }
+
+  const segments: DiffSegment[] = [];
+  const push = (type: DiffSegment['type'], text: string) => {
+    const last = segments[segments.length - 1];
+    if (last?.type === type) {
+      last.text += text;
+    } else {
+      segments.push({ type, text });
+    }
+  };
+
+  let i = 0;
+  let j = 0;
+  while (i < a.length && j < b.length) {
+    if (a[i] === b[j]) {
+      push('equal', a[i]);
+      i++;
+      j++;
+    } else if (lengths[(i + 1) * width + j] >= lengths[i * width + j + 1]) {
+      push('removed', a[i++]);
+    } else {
+      push('added', b[j++]);
+    }
+  }
+  while (i < a.length) push('removed', a[i++]);
+  while (j < b.length) push('added', b[j++]);
+
+  return coalesce(segments);
+}
+
+// A lone space kept between two changes splits one replacement into several
+// ("8,000" -> "5", " ", "000"); such runs become a single removed and a single added segment
+function coalesce(segments: DiffSegment[]): DiffSegment[] {
+  const result: DiffSegment[] = [];
+  let removed = '';
+  let added = '';
+
+  const flush = () => {
+    if (removed) result.push({ type: 'removed', text: removed });
+    if (added) result.push({ type: 'added', text: added });
+    removed = '';
+    added = '';
+  };
+
+  segments.forEach((segment, index) => {
+    const next = segments[index + 1];
+    if (segment.type === 'removed') {
+      removed += segment.text;
+    } else if (segment.type === 'added') {
+      added += segment.text;
+    } else if ((removed || added) && next && next.type !== 'equal' && !segment.text.trim()) {
+      removed += segment.text;
+      added += segment.text;
+    } else {
+      flush();
+      result.push(segment);
+    }
+  });
+  flush();
+
+  return result;
+}
+
+// Levenshtein distance counted in words: how many words were inserted, deleted or replaced
+export function wordEditDistance(before: string, after: string) {
+  const a = before.split(/\s+/).filter(Boolean);
+  const b = after.split(/\s+/).filter(Boolean);
+
+  let previous = Array.from({ length: b.length + 1 }, (_, j) => j);
+  for (let i = 1; i <= a.length; i++) {
+    const current = [i];
+    for (let j = 1; j <= b.length; j++) {
+      current[j] = Math.min(
+        previous[j] + 1,
+        current[j - 1] + 1,
+        previous[j - 1] + (a[i - 1] === b[j - 1] ? 0 : 1),
+      );
+    }
+    previous = current;
+  }
+  return previous[b.length];
+}
@@ -0,0 +1,77 @@
+import { diffWords, wordEditDistance } from './diff.ts';
+import type { Inquiry, ReviewerEdit } from './types.ts';
+
+export interface EditedPhrase {
+  phrase: string;
+  count: number;
+  // What reviewers wrote instead, most frequent first; an empty string means the phrase was dropped
+  replacements: { text: string; count: number }[];
+}
+
+// Phrases longer than this are cut, whole rewritten paragraphs would never repeat anyway
+const MAX_PHRASE_LENGTH = 80;
+const TOP_PHRASES = 10;
+const TOP_REPLACEMENTS = 3;
+
+// Compares the AI draft with the reply the reviewer actually sent
+export function measureEdit(suggestion: string, finalResponse: string): ReviewerEdit {
+  const distance = wordEditDistance(suggestion, finalResponse);
+  const words = Math.max(
+    suggestion.split(/\s+/).filter(Boolean).length,
+    finalResponse.split(/\s+/).filter(Boolean).length,
+    1,
+  );
+
+  return {
+    distance,
+    ratio: Math.round((distance / words) * 100),
+    diff: diffWords(suggestion, finalResponse),
+    editedAt: new Date().toISOString(),
+  };
+}
+
+function normalisePhrase(text: string) {
+  const phrase = text.replace(/\s+/g, ' ').trim().toLowerCase();
+  return phrase.length > MAX_PHRASE_LENGTH ? `${phrase.slice(0, MAX_PHRASE_LENGTH)}…` : phrase;
+}
+
+// Removed draft phrases across all edited inquiries, each paired with the text that replaced it
+export function editReport(inquiries: Inquiry[]) {
+  // Approvals stored before unchanged text stopped counting as an edit carry one of distance 0
+  const edited = inquiries.filter((inquiry) => inquiry.edit && inquiry.edit.distance > 0);
+  const phrases = new Map<string, { count: number; replacements: Map<string, number> }>();
+
+  for (const { edit } of edited) {
+    const diff = edit!.diff;
+    diff.forEach((segment, index) => {
+      if (segment.type !== 'removed') return;
+
+      const phrase = normalisePhrase(segment.text);
+      if (!/[\p{L}\p{N}]/u.test(phrase)) return;
+
+      const next = diff[index + 1];
+      const replacement = next?.type === 'added' ? normalisePhrase(next.text) : '';
+      const entry = phrases.get(phrase) ?? { count: 0, replacements: new Map<string, number>() };
+      entry.count++;
+      entry.replacements.set(replacement, (entry.replacements.get(replacement) ?? 0) + 1);
+      phrases.set(phrase, entry);
+    });
+  }
+
+  const ratios = edited.map((inquiry) => inquiry.edit!.ratio);
+  return {
+    editedCount: edited.length,
+    averageRatio: ratios.length ? Math.round(ratios.reduce((sum, ratio) => sum + ratio, 0) / ratios.length) : null,
+    phrases: [...phrases.entries()]
+      .map(([phrase, { count, replacements }]): EditedPhrase => ({
+        phrase,
+        count,
+        replacements: [...replacements.entries()]
+          .map(([text, replacementCount]) => ({ text, count: replacementCount }))
+          .sort((a, b) => b.count - a.count)
+          .slice(0, TOP_REPLACEMENTS),
+      }))
+      .sort((a, b) => b.count - a.count || a.phrase.localeCompare(b.phrase, 'pl'))
+      .slice(0, TOP_PHRASES),
+  };
+}
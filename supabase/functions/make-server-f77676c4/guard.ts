@@ -0,0 +1,187 @@
+import * as kv from './kv_store.ts';
+import { asObject } from './utils.ts';
+import { isPriceActive, listPrices } from './pricing.ts';
+import type { DraftFigure, FigureCheck, Inquiry, KnowledgeItem, PriceListEntry } from './types.ts';
+
+// Figures a draft may quote: everything stated in the knowledge base, the price catalogue
+// or by the customer, normalised so "3,000 zł" and "3 000 zł" compare equal
+export interface TraceContext {
+  amounts: Set<number>;
+  durations: Set<string>;
+  dates: Set<string>;
+}
+
+interface ExtractedFigure extends DraftFigure {
+  // Amounts in PLN, durations as "<value> <unit>", dates as YYYY-MM or YYYY-MM-DD
+  keys: (number | string)[];
+}
+
+// 3,000 / 3 000 / 3.000 (thousands grouped) or 3000 / 1,5 (plain, optional decimals)
+const NUMBER = String.raw`\d{1,3}(?:[ \u00a0.,]\d{3})+(?![\d])|\d+(?:[.,]\d+)?`;
+const RANGE = String.raw`(?:od\s+)?(${NUMBER})(?:\s*(?:-|–|—|do)\s*(${NUMBER}))?`;
+const NOT_AFTER_WORD = String.raw`(?<![\p{L}\p{N}])`;
+const NOT_BEFORE_WORD = String.raw`(?![\p{L}])`;
+
+const AMOUNT_PATTERN = new RegExp(
+  String.raw`${NOT_AFTER_WORD}${RANGE}\s*(tys\.?\s*)?(?:zł|złotych|złote|zl|pln)${NOT_BEFORE_WORD}`,
+  'giu',
+);
+// Polish, English and German units, as drafts are written in the customer's language
+const DURATION_PATTERN = new RegExp(
+  String.raw`${NOT_AFTER_WORD}${RANGE}\s*(tygodni[ea]?|tydzień|tyg\.?|dni|dzień|dnia|miesiąc[ea]?|miesięcy|mies\.?|weeks?|days?|months?|wochen|woche|tagen?|monaten?|monat)${NOT_BEFORE_WORD}`,
+  'giu',
+);
+
+// Month names in any grammatical case, matched by stem; Polish first, then English and German
+const MONTHS = [
+  'stycz|jan', 'lut|feb', 'mar|mär', 'kwie|apr', 'maj|may|mai', 'czerw|jun', 'lip|jul', 'sierp|aug', 'wrze|sep',
+  'październik|paźdz|oct|okt', 'listopad|nov', 'grud|dec|dez',
+];
+const MONTH_NAME = String.raw`(${MONTHS.map((stem) => `(?:${stem})\\p{L}*`).join('|')})`;
+const DATE_PATTERNS = [
+  new RegExp(String.raw`${NOT_AFTER_WORD}(\d{4})-(\d{2})-(\d{2})${NOT_BEFORE_WORD}`, 'gu'),
+  new RegExp(String.raw`${NOT_AFTER_WORD}(\d{1,2})\.(\d{1,2})\.(\d{4})${NOT_BEFORE_WORD}`, 'gu'),
+  // "3 listopada 2026", "3 November 2026", "3. November 2026"
+  new RegExp(String.raw`${NOT_AFTER_WORD}(?:(\d{1,2})\.?\s+)?${MONTH_NAME}\s+(\d{4})${NOT_BEFORE_WORD}`, 'giu'),
+];
+
+function parseNumber(value: string) {
+  if (/^\d{1,3}(?:[ \u00a0.,]\d{3})+$/.test(value)) {
+    return Number(value.replace(/[ \u00a0.,]/g, ''));
+  }
+  return Number(value.replace(',', '.'));
+}
+
+function durationUnit(unit: string) {
+  const lower = unit.toLowerCase();
+  if (lower.startsWith('ty') || lower.startsWith('week') || lower.startsWith('woch')) return 'week';
+  if (lower.startsWith('mies') || lower.startsWith('mon')) return 'month';
+  return 'day';
+}
+
+function monthOf(name: string) {
+  const lower = name.toLowerCase();
+  return MONTHS.findIndex((stem) => new RegExp(`^(?:${stem})`).test(lower)) + 1;
+}
+
+const pad = (value: number | string) => String(value).padStart(2, '0');
+
+function figure(kind: DraftFigure['kind'], match: RegExpExecArray, keys: (number | string)[]): ExtractedFigure {
+  return { kind, text: match[0], start: match.index, end: match.index + match[0].length, keys };
+}
+
+// Every monetary amount, duration and date in a text, in order of appearance
+export function extractFigures(text: string): ExtractedFigure[] {
+  const figures: ExtractedFigure[] = [];
+
+  for (const match of text.matchAll(AMOUNT_PATTERN)) {
+    const multiplier = match[3] ? 1000 : 1;
+    const values = [match[1], match[2]].filter(Boolean).map((value) => parseNumber(value) * multiplier);
+    figures.push(figure('amount', match as RegExpExecArray, values));
+  }
+
+  for (const match of text.matchAll(DURATION_PATTERN)) {
+    const unit = durationUnit(match[3]);
+    const values = [match[1], match[2]].filter(Boolean).map((value) => `${parseNumber(value)} ${unit}`);
+    figures.push(figure('duration', match as RegExpExecArray, values));
+  }
+
+  const [iso, dotted, named] = DATE_PATTERNS;
+  for (const match of text.matchAll(iso)) {
+    figures.push(figure('date', match as RegExpExecArray, [`${match[1]}-${match[2]}-${match[3]}`]));
+  }
+  for (const match of text.matchAll(dotted)) {
+    figures.push(figure('date', match as RegExpExecArray, [`${match[3]}-${pad(match[2])}-${pad(match[1])}`]));
+  }
+  for (const match of text.matchAll(named)) {
+    const month = `${match[3]}-${pad(monthOf(match[2]))}`;
+    figures.push(figure('date', match as RegExpExecArray, [match[1] ? `${month}-${pad(match[1])}` : month]));
+  }
+
+  return figures.sort((a, b) => a.start - b.start);
+}
+
+export function buildTraceContext(texts: string[], prices: PriceListEntry[]): TraceContext {
+  const context: TraceContext = { amounts: new Set(), durations: new Set(), dates: new Set() };
+
+  for (const entry of prices) {
+    context.amounts.add(entry.minPrice);
+    context.amounts.add(entry.maxPrice);
+    for (const weeks of [entry.minLeadTimeWeeks, entry.maxLeadTimeWeeks]) {
+      if (weeks !== undefined) context.durations.add(`${weeks} week`);
+    }
+  }
+
+  for (const found of texts.flatMap(extractFigures)) {
+    for (const key of found.keys) {
+      if (found.kind === 'amount') context.amounts.add(key as number);
+      if (found.kind === 'duration') context.durations.add(key as string);
+      if (found.kind === 'date') {
+        context.dates.add(key as string);
+        // A stated day also backs a mention of its month
+        context.dates.add((key as string).slice(0, 7));
+      }
+    }
+  }
+
+  return context;
+}
+
+function isTraced(found: ExtractedFigure, context: TraceContext) {
+  return found.keys.every((key) => {
+    switch (found.kind) {
+      case 'amount':
+        return context.amounts.has(key as number);
+      case 'duration':
+        return context.durations.has(key as string);
+      case 'date':
+        return context.dates.has(key as string);
+    }
+  });
+}
+
+// Figures of a text that cannot be traced back to the context
+export function untracedFigures(text: string, context: TraceContext): DraftFigure[] {
+  return extractFigures(text)
+    .filter((found) => !isTraced(found, context))
+    .map(({ keys: _keys, ...found }) => found);
+}
+
+// Knowledge and active prices, loaded once and shared by every inquiry checked in one request
+export async function loadReferenceData() {
+  const knowledgeItems = await kv.getByPrefix('knowledge:');
+  const knowledge = knowledgeItems.map((item: any) => asObject<KnowledgeItem>(item?.value ?? item));
+  const prices = (await listPrices()).filter((entry) => isPriceActive(entry));
+  return {
+    texts: knowledge.map((item) => `${item.title}\n${item.content}`),
+    prices,
+  };
+}
+
+// Checks the reply that would be sent, the reviewer's version when there is one, against the
+// reference data, everything the customer wrote and the start date the draft was given
+export function checkInquiryFigures(
+  inquiry: Inquiry,
+  reference: { texts: string[]; prices: PriceListEntry[] },
+): FigureCheck {
+  const field = inquiry.finalResponse ? 'finalResponse' : 'aiSuggestion';
+  const customerTexts = [inquiry.message, ...(inquiry.thread ?? [])
+    .filter((message) => message.direction === 'inbound')
+    .map((message) => message.text)];
+  const context = buildTraceContext([...reference.texts, ...customerTexts], reference.prices);
+  // The start date computed from the availability setting when the draft was written
+  if (inquiry.availableFrom) {
+    context.dates.add(inquiry.availableFrom);
+    context.dates.add(inquiry.availableFrom.slice(0, 7));
+  }
+
+  return {
+    field,
+    untraced: untracedFigures(inquiry[field] ?? '', context),
+    checkedAt: new Date().toISOString(),
+  };
+}
+
+export async function checkDraftFigures(inquiry: Inquiry): Promise<FigureCheck> {
+  return checkInquiryFigures(inquiry, await loadReferenceData());
+}
@@ -0,0 +1,122 @@
+import { ImapFlow } from 'npm:imapflow@1.0.171';
+import { simpleParser } from 'npm:mailparser@3.7.2';
+import * as kv from './kv_store.ts';
+import { ingestEmail } from './ingest.ts';
+
+export interface PollResult {
+  fetched: number;
+  created: string[];
+  duplicates: number;
+  failed: number;
+  // Messages set aside with \Flagged: without a sender, or failing on every run
+  flagged: number;
+}
+
+// Runs a message may fail in before it is flagged instead of retried, so a broken one does not
+// cost a draft attempt on every poll
+const MAX_INGEST_ATTEMPTS = 3;
+
+// Mailbox settings come from the function secrets (IMAP_HOST, IMAP_PORT, IMAP_SECURE, IMAP_USER, IMAP_PASSWORD, IMAP_MAILBOX)
+function createClient() {
+  const host = Deno.env.get('IMAP_HOST');
+  if (!host) {
+    throw new Error('IMAP_HOST is not set');
+  }
+  const port = Number(Deno.env.get('IMAP_PORT') ?? 993);
+
+  return new ImapFlow({
+    host,
+    port,
+    secure: Deno.env.get('IMAP_SECURE') === 'true' || port === 993,
+    auth: {
+      user: Deno.env.get('IMAP_USER') ?? '',
+      pass: Deno.env.get('IMAP_PASSWORD') ?? '',
+    },
+    logger: false,
+  });
+}
+
+// Turns every unseen message into an inquiry and flags it \Seen afterwards.
+// Messages that fail to ingest stay unseen and are picked up by the next run, up to MAX_INGEST_ATTEMPTS;
+// the Message-ID check in ingestEmail covers a crash between creating and flagging.
+export async function pollMailbox(): Promise<PollResult> {
+  const client = createClient();
+  const result: PollResult = { fetched: 0, created: [], duplicates: 0, failed: 0, flagged: 0 };
+  const mailbox = Deno.env.get('IMAP_MAILBOX') ?? 'INBOX';
+
+  // Seen so the next run skips it, flagged so it stands out in the mail client for someone to handle
+  const setAside = async (uid: number) => {
+    await client.messageFlagsAdd(String(uid), ['\\Seen', '\\Flagged'], { uid: true });
+    result.flagged++;
+  };
+
+  await client.connect();
+  const lock = await client.getMailboxLock(mailbox);
+  try {
+    // The connection cannot run other commands while a fetch is streaming, so collect first
+    const messages: { uid: number; source: Uint8Array }[] = [];
+    for await (const message of client.fetch({ seen: false }, { uid: true, source: true }, { uid: true })) {
+      messages.push({ uid: message.uid, source: message.source });
+    }
+    result.fetched = messages.length;
+
+    for (const { uid, source } of messages) {
+      const failureKey = `imap_failures:${mailbox}:${uid}`;
+      try {
+        const parsed = await simpleParser(source);
+        const from = parsed.from?.value?.[0];
+        // No one to reply to, like the webhook's 400 for a missing sender
+        if (!from?.address) {
+          console.log(`Skipping IMAP message ${uid} without a sender address`);
+          await setAside(uid);
+          continue;
+        }
+        const { inquiry, duplicate } = await ingestEmail({
+          messageId: parsed.messageId,
+          inReplyTo: parsed.inReplyTo,
+          references: typeof parsed.references === 'string' ? [parsed.references] : parsed.references,
+          fromName: from.name ?? '',
+          fromAddress: from.address,
+          subject: parsed.subject ?? '',
+          text: parsed.text ?? '',
+          receivedAt: parsed.date?.toISOString(),
+          attachments: (parsed.attachments ?? [])
+            .filter((attachment: any) => attachment.contentDisposition !== 'inline' || attachment.filename)
+            .map((attachment: any) => ({
+              filename: attachment.filename ?? '',
+              contentType: attachment.contentType ?? 'application/octet-stream',
+              content: new Uint8Array(attachment.content),
+            })),
+        }, 'imap');
+
+        if (duplicate) {
+          result.duplicates++;
+        } else if (inquiry) {
+          result.created.push(inquiry.id);
+        }
+        await client.messageFlagsAdd(String(uid), ['\\Seen'], { uid: true });
+        await kv.del(failureKey);
+      } catch (error) {
+        result.failed++;
+        console.log(`Error ingesting IMAP message ${uid}: ${error}`);
+        try {
+          const attempts = Number(await kv.get(failureKey) ?? 0) + 1;
+          if (attempts >= MAX_INGEST_ATTEMPTS) {
+            console.log(`Giving up on IMAP message ${uid} after ${attempts} attempts`);
+            await setAside(uid);
+            await kv.del(failureKey);
+          } else {
+            await kv.set(failureKey, attempts);
+          }
+        } catch (flagError) {
+          console.log(`Error recording the failure of IMAP message ${uid}: ${flagError}`);
+        }
+      }
+    }
+  } finally {
+    lock.release();
+    await client.logout();
+  }
+
+  return result;
+}
@@ -0,0 +1,229 @@
+import type { InboundEmail } from './ingest.ts';
+import type { InboundAttachment } from './attachments.ts';
+
+export const INBOUND_PROVIDERS = ['mailgun', 'sendgrid', 'postmark'] as const;
+export type InboundProvider = typeof INBOUND_PROVIDERS[number];
+
+// Thrown when a webhook call cannot be proven to come from the mail provider
+export class InboundVerificationError extends Error {}
+
+// Thrown for a webhook payload that cannot be read
+export class InboundPayloadError extends Error {}
+
+// Mailgun signatures older than this are treated as replays
+const MAX_SIGNATURE_AGE_S = 15 * 60;
+
+export function isInboundProvider(value: string): value is InboundProvider {
+  return (INBOUND_PROVIDERS as readonly string[]).includes(value);
+}
+
+// Verifies a webhook request and normalises its payload into an InboundEmail
+export async function parseInboundRequest(provider: InboundProvider, req: Request): Promise<InboundEmail> {
+  switch (provider) {
+    case 'mailgun':
+      return parseMailgun(await formBody(req));
+    case 'sendgrid':
+      verifyToken(req, 'SENDGRID_INBOUND_TOKEN');
+      return await parseSendGrid(await formBody(req));
+    case 'postmark':
+      verifyToken(req, 'POSTMARK_INBOUND_TOKEN');
+      return parsePostmark(await jsonBody(req));
+  }
+}
+
+// A body that cannot be read will never parse, so it is rejected rather than failed and retried
+async function jsonBody(req: Request) {
+  try {
+    return await req.json();
+  } catch (_) {
+    throw new InboundPayloadError('Request body is not valid JSON');
+  }
+}
+
+async function formBody(req: Request) {
+  try {
+    return await req.formData();
+  } catch (_) {
+    throw new InboundPayloadError('Request body is not valid form data');
+  }
+}
+
+function base64Bytes(value: string, filename: string) {
+  try {
+    return Uint8Array.from(atob(value), (ch) => ch.charCodeAt(0));
+  } catch (_) {
+    throw new InboundPayloadError(`Attachment ${filename} is not valid base64`);
+  }
+}
+
+// Mailgun Routes (multipart "forward" action), signed with the webhook signing key
+async function parseMailgun(form: FormData): Promise<InboundEmail> {
+  const timestamp = field(form, 'timestamp');
+  const token = field(form, 'token');
+  const signature = field(form, 'signature');
+
+  if (Math.abs(Date.now() / 1000 - Number(timestamp)) > MAX_SIGNATURE_AGE_S) {
+    throw new InboundVerificationError('Mailgun signature has expired');
+  }
+  const expected = await hmacSha256Hex(requireSecret('MAILGUN_WEBHOOK_SIGNING_KEY'), timestamp + token);
+  if (!timingSafeEqual(expected, signature)) {
+    throw new InboundVerificationError('Invalid Mailgun signature');
+  }
+
+  let headers: [string, string][] = [];
+  try {
+    headers = JSON.parse(field(form, 'message-headers') || '[]');
+  } catch (_) {
+    // optional field, fall back to the flat ones
+  }
+  const header = (name: string) => headers.find(([key]) => key.toLowerCase() === name)?.[1];
+
+  const from = parseAddress(field(form, 'from') || field(form, 'sender'));
+  return {
+    messageId: field(form, 'Message-Id') || header('message-id'),
+    inReplyTo: field(form, 'In-Reply-To') || header('in-reply-to'),
+    references: parseReferences(field(form, 'References') || header('references')),
+    fromName: from.name,
+    fromAddress: from.address,
+    subject: field(form, 'subject'),
+    text: field(form, 'body-plain') || stripHtml(field(form, 'body-html')),
+    receivedAt: toISODate(header('date')),
+    attachments: await fileAttachments(form, Number(field(form, 'attachment-count') || 0), (i) => `attachment-${i}`),
+  };
+}
+
+// SendGrid Inbound Parse (multipart, not the raw MIME variant). SendGrid does not sign
+// these posts, so the webhook URL carries a shared secret: /inbound/sendgrid?token=...
+async function parseSendGrid(form: FormData): Promise<InboundEmail> {
+  const rawHeaders = field(form, 'headers');
+  const header = (name: string) => rawHeaders.match(new RegExp(`^${name}:\\s*(.+)$`, 'im'))?.[1]?.trim();
+
+  const from = parseAddress(field(form, 'from'));
+  return {
+    messageId: header('Message-ID'),
+    inReplyTo: header('In-Reply-To'),
+    references: parseReferences(header('References')),
+    fromName: from.name,
+    fromAddress: from.address,
+    subject: field(form, 'subject'),
+    text: field(form, 'text') || stripHtml(field(form, 'html')),
+    receivedAt: toISODate(header('Date')),
+    attachments: await fileAttachments(form, Number(field(form, 'attachments') || 0), (i) => `attachment${i}`),
+  };
+}
+
+// Postmark inbound JSON. Postmark does not sign these posts either; see parseSendGrid.
+function parsePostmark(body: any): InboundEmail {
+  const headers: { Name: string; Value: string }[] = Array.isArray(body?.Headers) ? body.Headers : [];
+  const header = (name: string) => headers.find((h) => h.Name?.toLowerCase() === name)?.Value;
+
+  const from = body?.FromFull?.Email
+    ? { name: body.FromFull.Name ?? '', address: body.FromFull.Email }
+    : parseAddress(body?.From ?? '');
+  return {
+    messageId: header('message-id'),
+    inReplyTo: header('in-reply-to'),
+    references: parseReferences(header('references')),
+    fromName: body?.FromName || from.name,
+    fromAddress: from.address,
+    subject: body?.Subject ?? '',
+    text: body?.TextBody || stripHtml(body?.HtmlBody ?? ''),
+    receivedAt: toISODate(body?.Date),
+    attachments: (Array.isArray(body?.Attachments) ? body.Attachments : []).map((attachment: any) => ({
+      filename: attachment.Name ?? '',
+      contentType: attachment.ContentType ?? 'application/octet-stream',
+      content: base64Bytes(attachment.Content ?? '', attachment.Name ?? ''),
+    })),
+  };
+}
+
+function field(form: FormData, name: string) {
+  const value = form.get(name);
+  return typeof value === 'string' ? value : '';
+}
+
+// Multipart providers post files as numbered fields (attachment-1, attachment1...)
+async function fileAttachments(form: FormData, count: number, fieldName: (index: number) => string) {
+  const attachments: InboundAttachment[] = [];
+  for (let i = 1; i <= count; i++) {
+    const file = form.get(fieldName(i));
+    if (file instanceof File) {
+      attachments.push({
+        filename: file.name,
+        contentType: file.type || 'application/octet-stream',
+        content: new Uint8Array(await file.arrayBuffer()),
+      });
+    }
+  }
+  return attachments;
+}
+
+function requireSecret(name: string) {
+  const value = Deno.env.get(name);
+  if (!value) {
+    throw new Error(`${name} is not set`);
+  }
+  return value;
+}
+
+function verifyToken(req: Request, secretName: string) {
+  const token = new URL(req.url).searchParams.get('token') ?? '';
+  if (!timingSafeEqual(requireSecret(secretName), token)) {
+    throw new InboundVerificationError('Invalid webhook token');
+  }
+}
+
+async function hmacSha256Hex(key: string, data: string) {
+  const encoder = new TextEncoder();
+  const cryptoKey = await crypto.subtle.importKey(
+    'raw',
+    encoder.encode(key),
+    { name: 'HMAC', hash: 'SHA-256' },
+    false,
+    ['sign'],
+  );
+  const signature = await crypto.subtle.sign('HMAC', cryptoKey, encoder.encode(data));
+  return Array.from(new Uint8Array(signature), (byte) => byte.toString(16).padStart(2, '0')).join('');
+}
+
+function timingSafeEqual(a: string, b: string) {
+  if (a.length !== b.length) return false;
+  let diff = 0;
+  for (let i = 0; i < a.length; i++) {
+    diff |= a.charCodeAt(i) ^ b.charCodeAt(i);
+  }
+  return diff === 0;
+}
+
+// "Anna Kowalska" <anna@example.com>, Anna <anna@example.com> or a bare address
+export function parseAddress(value: string): { name: string; address: string } {
+  const match = value.match(/^\s*"?([^"<]*?)"?\s*<([^>]+)>\s*$/);
+  if (match) {
+    return { name: match[1].trim(), address: match[2].trim().toLowerCase() };
+  }
+  return { name: '', address: value.trim().toLowerCase() };
+}
+
+function parseReferences(value?: string) {
+  const ids = value?.match(/<[^>]+>/g);
+  return ids?.length ? ids : undefined;
+}
+
+function stripHtml(html: string) {
+  return html
+    .replace(/<(script|style)[\s\S]*?<\/\1>/gi, '')
+    .replace(/<br\s*\/?>|<\/p>|<\/div>/gi, '\n')
+    .replace(/<[^>]+>/g, '')
+    .replace(/&nbsp;/g, ' ')
+    .replace(/&amp;/g, '&')
+    .replace(/&lt;/g, '<')
+    .replace(/&gt;/g, '>')
+    .replace(/\n{3,}/g, '\n\n')
+    .trim();
+}
+
+function toISODate(value?: string) {
+  if (!value) return undefined;
+  const date = new Date(value);
+  return Number.isNaN(date.getTime()) ? undefined : date.toISOString();
+}
@@ -2,8 +2,59 @@ import { serve } from 'https://deno.land/std@0.168.0/http/server.ts';
 import { Hono } from 'npm:hono';
 import { cors } from 'npm:hono/cors';
 import { logger } from 'npm:hono/logger';
+import { streamSSE } from 'npm:hono/streaming';
 import { createClient } from 'https://esm.sh/@supabase/supabase-js@2';
 import * as kv from './kv_store.ts';
+import { asObject } from './utils.ts';
+import { configFromBody, DEFAULT_AI_CONFIG, getAIConfig } from './config.ts';
+import {
+  createInquiry,
+  isAwaitingDraft,
+  isDraftTone,
+  isRejectionReason,
+  recordRejection,
+  regenerateDraft,
+  selectVariant,
+  setReplyLanguage,
+  streamDraft,
+  VariantNotFoundError,
+} from './inquiries.ts';
+import {
+  createKnowledgeItem,
+  deleteKnowledgeItem,
+  diffRevisions,
+  knowledgeChangelog,
+  knowledgeHistory,
+  KnowledgeNotFoundError,
+  revertKnowledgeItem,
+  updateKnowledgeItem,
+} from './knowledge.ts';
+import { createPrice, deletePrice, listPrices, PriceListValidationError, updatePrice } from './pricing.ts';
+import { earliestStartDate, isoDay, validateAvailability } from './availability.ts';
+import { editReport, measureEdit } from './edits.ts';
+import { computeStats, STATS_PERIODS, StatsPeriod } from './stats.ts';
+import { reliabilityReport } from './calibration.ts';
+import { isReplyLanguage } from './language.ts';
+import { renderTemplate, templateContext, TemplateError, validateTemplate } from './template.ts';
+import {
+  IllegalTransitionError,
+  INQUIRY_STATUSES,
+  isInquiryStatus,
+  reviewTransition,
+  reviewTransitionTable,
+  statusOf,
+  UNKNOWN_ACTOR,
+  workflowTransition,
+} from './status.ts';
+import { checkDraftFigures, checkInquiryFigures, loadReferenceData } from './guard.ts';
+import { CATEGORIES, categoryAccuracy, recordCategoryFeedback } from './classifier.ts';
+import { dequeueAutoSend, releaseDueAutoSends } from './autosend.ts';
+import { deliver, enqueueReply, OutboxMessage, processOutbox, retryDelivery, withdrawReply } from './outbox.ts';
+import { pollMailbox } from './imap.ts';
+import { readAttachment } from './attachments.ts';
+import { ingestEmail } from './ingest.ts';
+import { InboundPayloadError, InboundVerificationError, isInboundProvider, parseInboundRequest } from './inbound.ts';
+import type { DraftTone, Inquiry, KnowledgeItem, PriceListEntry } from './types.ts';
 
 const app = new Hono();
 
@@ -27,19 +78,6 @@ const supabase = createClient(
   Deno.env.get('SUPABASE_SERVICE_ROLE_KEY')!
 );
 
-// Utility: parse JSON if string, otherwise pass-through
-function asObject<T = any>(value: unknown): T {
-  if (value == null) return value as T;
-  if (typeof value === 'string') {
-    try {
-      return JSON.parse(value) as T;
-    } catch (_) {
-      return value as T;
-    }
-  }
-  return value as T;
-}
-
 // Support requests that include the function slug in the path by rewriting
 app.all('/make-server-f77676c4/*', (c) => {
   const url = new URL(c.req.url);
@@ -51,11 +89,14 @@ app.all('/make-server-f77676c4/*', (c) => {
 app.get('/inquiries', async (c) => {
   try {
     const inquiries = await kv.getByPrefix('inquiry:');
+    // Inquiries stored before figures were checked (e.g. the seeded samples) are checked on the fly
+    const reference = await loadReferenceData();
     const formattedInquiries = inquiries
       .map((item: any) => {
-        const value = asObject(item?.value ?? item);
+        const value = asObject<Inquiry>(item?.value ?? item);
         const id = item?.key ? String(item.key).replace('inquiry:', '') : value?.id ?? '';
-        return { id, ...value };
+        const inquiry = { ...value, id, status: statusOf(value) };
+        return inquiry.figureCheck ? inquiry : { ...inquiry, figureCheck: checkInquiryFigures(inquiry, reference) };
       })
       .sort((a, b) => new Date(b.timestamp).getTime() - new Date(a.timestamp).getTime());
 
@@ -69,75 +110,425 @@ app.get('/inquiries', async (c) => {
 // Create new inquiry
 app.post('/inquiries', async (c) => {
   try {
-    const inquiry = await c.req.json();
-    const inquiryId = `inquiry_${Date.now()}`;
+    const { customerName, email, subject, message, tones, deferDraft } = await c.req.json();
+    if (tones !== undefined && !isToneList(tones)) {
+      return c.json({ success: false, error: `Unknown draft tones: ${tones}` }, 400);
+    }
+    const inquiryData = await createInquiry({
+      customerName, email, subject, message, tones, deferDraft: !!deferDraft, source: 'manual',
+    });
+
+    return c.json({ success: true, data: inquiryData });
+  } catch (error) {
+    console.log(`Error creating inquiry: ${error}`);
+    return c.json({ success: false, error: (error as Error).message }, 500);
+  }
+});
 
-    const inquiryData = {
-      ...inquiry,
-      id: inquiryId,
-      timestamp: new Date().toISOString(),
-      status: 'pending',
-    };
+// Draft the reply to an inquiry created with deferDraft, sending the text as server-sent events while it is
+// written: "delta" events with {text, tone}, then "done" with the saved inquiry or "error".
+// Closing the connection cancels generation and leaves the inquiry without a draft.
+app.post('/inquiries/:id/draft/stream', async (c) => {
+  try {
+    const inquiryId = c.req.param('id');
+    const existingData = await kv.get(`inquiry:${inquiryId}`);
+    if (!existingData) {
+      return c.json({ success: false, error: 'Inquiry not found' }, 404);
+    }
 
-    // Generate AI suggestion (mock for demo)
-    const aiSuggestion = await generateAISuggestion(inquiry);
-    inquiryData.aiSuggestion = aiSuggestion.response;
-    inquiryData.confidence = aiSuggestion.confidence;
+    const inquiry = asObject<Inquiry>(existingData);
+    if (!isAwaitingDraft(inquiry)) {
+      return c.json({ success: false, error: 'The inquiry already has a draft' }, 409);
+    }
+    const { tones } = await c.req.json().catch(() => ({}));
+    if (tones !== undefined && !isToneList(tones)) {
+      return c.json({ success: false, error: `Unknown draft tones: ${tones}` }, 400);
+    }
 
-    await kv.set(`inquiry:${inquiryId}`, inquiryData);
+    return streamSSE(c, async (stream) => {
+      const controller = new AbortController();
+      stream.onAbort(() => controller.abort());
 
-    return c.json({ success: true, data: inquiryData });
+      try {
+        const drafted = await streamDraft(inquiry, {
+          onDelta: (text, tone) => {
+            stream.writeSSE({ event: 'delta', data: JSON.stringify({ text, tone }) });
+          },
+          signal: controller.signal,
+        }, tones);
+        await stream.writeSSE({ event: 'done', data: JSON.stringify(drafted) });
+      } catch (error) {
+        if (controller.signal.aborted) {
+          console.log(`Draft generation cancelled for inquiry ${inquiryId}`);
+          return;
+        }
+        console.log(`Error streaming draft: ${error}`);
+        await stream.writeSSE({ event: 'error', data: JSON.stringify({ error: (error as Error).message }) });
+      }
+    });
   } catch (error) {
-    console.log(`Error creating inquiry: ${error}`);
+    console.log(`Error streaming draft: ${error}`);
+    return c.json({ success: false, error: (error as Error).message }, 500);
+  }
+});
+
+// Tones requested for draft variants; an empty list asks for a single draft
+function isToneList(value: unknown): value is DraftTone[] {
+  return Array.isArray(value) && value.every(isDraftTone);
+}
+
+// Download an attachment of an inquiry
+app.get('/inquiries/:id/attachments/:attachmentId', async (c) => {
+  try {
+    const inquiryId = c.req.param('id');
+    const existingData = await kv.get(`inquiry:${inquiryId}`);
+    if (!existingData) {
+      return c.json({ success: false, error: 'Inquiry not found' }, 404);
+    }
+
+    const inquiry = asObject<Inquiry>(existingData);
+    const attachment = inquiry.attachments?.find((item) => item.id === c.req.param('attachmentId'));
+    if (!attachment) {
+      return c.json({ success: false, error: 'Attachment not found' }, 404);
+    }
+
+    const content = await readAttachment(attachment);
+    return new Response(content, {
+      headers: {
+        'Content-Type': attachment.contentType,
+        'Content-Length': String(content.byteLength),
+        'Content-Disposition': `attachment; filename*=UTF-8''${encodeURIComponent(attachment.filename)}`,
+        'Access-Control-Allow-Origin': '*',
+      },
+    });
+  } catch (error) {
+    console.log(`Error downloading attachment: ${error}`);
     return c.json({ success: false, error: (error as Error).message }, 500);
   }
 });
 
-// Update inquiry status
+// Correct the category assigned by the classifier
+app.put('/inquiries/:id/category', async (c) => {
+  try {
+    const inquiryId = c.req.param('id');
+    const { category } = await c.req.json();
+    if (!CATEGORIES.includes(category)) {
+      return c.json({ success: false, error: `Unknown category: ${category}` }, 400);
+    }
+
+    const existingData = await kv.get(`inquiry:${inquiryId}`);
+    if (!existingData) {
+      return c.json({ success: false, error: 'Inquiry not found' }, 404);
+    }
+
+    const inquiry = asObject<Inquiry>(existingData);
+    inquiry.category = category;
+    inquiry.categoryCorrectedAt = new Date().toISOString();
+    inquiry.updatedAt = inquiry.categoryCorrectedAt;
+
+    await kv.set(`inquiry:${inquiryId}`, inquiry);
+    await recordCategoryFeedback(inquiry);
+
+    return c.json({ success: true, data: inquiry });
+  } catch (error) {
+    console.log(`Error updating inquiry category: ${error}`);
+    return c.json({ success: false, error: (error as Error).message }, 500);
+  }
+});
+
+// Cancel a queued automatic reply while its delay window is still open
+app.post('/inquiries/:id/cancel-auto-send', async (c) => {
+  try {
+    const inquiryId = c.req.param('id');
+    const existingData = await kv.get(`inquiry:${inquiryId}`);
+    if (!existingData) {
+      return c.json({ success: false, error: 'Inquiry not found' }, 404);
+    }
+
+    const { actor } = await c.req.json().catch(() => ({}));
+    const inquiry = asObject<Inquiry>(existingData);
+    if (inquiry.status !== 'auto_sent' || !inquiry.autoSendAt) {
+      return c.json({ success: false, error: 'Inquiry is not queued for automatic sending' }, 409);
+    }
+    if (new Date(inquiry.autoSendAt).getTime() <= Date.now()) {
+      return c.json({ success: false, error: 'The cancellation window has already closed' }, 409);
+    }
+
+    workflowTransition(inquiry, 'pending_review', actor || UNKNOWN_ACTOR, 'auto_send_cancelled');
+    inquiry.needsReview = true;
+    inquiry.autoSendCancelledAt = inquiry.updatedAt;
+    inquiry.autoSendAt = undefined;
+
+    await dequeueAutoSend(inquiryId);
+    await kv.set(`inquiry:${inquiryId}`, inquiry);
+
+    return c.json({ success: true, data: inquiry });
+  } catch (error) {
+    console.log(`Error cancelling automatic reply: ${error}`);
+    return c.json({ success: false, error: (error as Error).message }, 500);
+  }
+});
+
+// List the inquiry statuses and the transitions a reviewer may pick from each of them
+app.get('/statuses', (c) => {
+  return c.json({ success: true, data: { statuses: INQUIRY_STATUSES, transitions: reviewTransitionTable() } });
+});
+
+// Move an inquiry to another status; only the transitions allowed from the current status are accepted
 app.put('/inquiries/:id/status', async (c) => {
   try {
     const inquiryId = c.req.param('id');
-    const { status, feedback, finalResponse } = await c.req.json();
+    const { status, feedback, finalResponse, actor, note, reason, instructions, tone } = await c.req.json();
+    if (!isInquiryStatus(status)) {
+      return c.json({ success: false, error: `Unknown status: ${status}` }, 400);
+    }
+    if (tone !== undefined && !isDraftTone(tone)) {
+      return c.json({ success: false, error: `Unknown draft tone: ${tone}` }, 400);
+    }
+    // A rejection says what was wrong, so that a new version can be drafted from it
+    if (status === 'rejected' && !isRejectionReason(reason)) {
+      return c.json({ success: false, error: `Unknown rejection reason: ${reason}` }, 400);
+    }
 
     const existingData = await kv.get(`inquiry:${inquiryId}`);
     if (!existingData) {
       return c.json({ success: false, error: 'Inquiry not found' }, 404);
     }
 
-    const inquiry: any = asObject(existingData);
-    inquiry.status = status;
-    inquiry.updatedAt = new Date().toISOString();
+    const inquiry = asObject<Inquiry>(existingData);
+    // The reviewer picks one of several variants before approving it
+    if (tone) {
+      await selectVariant(inquiry, tone, await getAIConfig());
+    }
+    if (status === 'approved' && (inquiry.variants?.length ?? 0) > 1 && !inquiry.tone) {
+      return c.json({ success: false, error: 'Choose a draft variant before approving' }, 400);
+    }
+    const previousStatus = statusOf(inquiry);
+    reviewTransition(inquiry, status, actor || UNKNOWN_ACTOR, note);
+    if (previousStatus === 'approved' && status !== 'approved') {
+      await withdrawReply(inquiry);
+    }
+    if (status === 'rejected') {
+      recordRejection(inquiry, {
+        reason,
+        instructions: typeof instructions === 'string' && instructions.trim() ? instructions.trim() : undefined,
+        actor: actor || UNKNOWN_ACTOR,
+        rejectedAt: inquiry.updatedAt!,
+      });
+    }
 
     if (feedback) {
       inquiry.feedback = feedback;
     }
+    // The editor always sends its text back; returned unchanged it approves the draft and is no edit
     if (finalResponse) {
-      inquiry.finalResponse = finalResponse;
+      const edited = finalResponse.trim() !== (inquiry.aiSuggestion ?? '').trim();
+      inquiry.finalResponse = edited ? finalResponse : undefined;
+      inquiry.edit = edited ? measureEdit(inquiry.aiSuggestion ?? '', finalResponse) : undefined;
+      inquiry.figureCheck = await checkDraftFigures(inquiry);
     }
 
     await kv.set(`inquiry:${inquiryId}`, inquiry);
 
-    // Update learning statistics
-    await updateLearningStats(status, inquiry.confidence);
+    // Approved replies go straight to the outbox; an approval whose reply cannot be queued is undone
+    let queued: OutboxMessage | null = null;
+    if (status === 'approved' && inquiry.delivery?.state !== 'sent') {
+      try {
+        queued = await enqueueReply(inquiry, await getAIConfig());
+      } catch (error) {
+        await kv.set(`inquiry:${inquiryId}`, existingData);
+        throw error;
+      }
+    }
+
+    // A reviewer's decision without a correction confirms the predicted category
+    if (status === 'approved' || status === 'rejected') {
+      await recordCategoryFeedback(inquiry);
+    }
+
+    // Failed deliveries are retried by /outbox/process
+    if (queued) {
+      await deliver(queued);
+      return c.json({ success: true, data: asObject<Inquiry>(await kv.get(`inquiry:${inquiryId}`)) });
+    }
 
     return c.json({ success: true, data: inquiry });
   } catch (error) {
+    if (error instanceof IllegalTransitionError) {
+      return c.json({ success: false, error: error.message }, 409);
+    }
+    if (error instanceof VariantNotFoundError) {
+      return c.json({ success: false, error: error.message }, 404);
+    }
     console.log(`Error updating inquiry status: ${error}`);
     return c.json({ success: false, error: (error as Error).message }, 500);
   }
 });
 
+// Draft a new version of the reply from the reviewer's rejection reason and instructions; earlier versions are kept
+app.post('/inquiries/:id/regenerate', async (c) => {
+  try {
+    const inquiryId = c.req.param('id');
+    const existingData = await kv.get(`inquiry:${inquiryId}`);
+    if (!existingData) {
+      return c.json({ success: false, error: 'Inquiry not found' }, 404);
+    }
+
+    const { actor, instructions, tones } = await c.req.json().catch(() => ({}));
+    if (tones !== undefined && !isToneList(tones)) {
+      return c.json({ success: false, error: `Unknown draft tones: ${tones}` }, 400);
+    }
+    const inquiry = await regenerateDraft(asObject<Inquiry>(existingData), actor || UNKNOWN_ACTOR, {
+      instructions: typeof instructions === 'string' ? instructions : undefined,
+      tones,
+    });
+
+    return c.json({ success: true, data: inquiry });
+  } catch (error) {
+    if (error instanceof IllegalTransitionError) {
+      return c.json({ success: false, error: error.message }, 409);
+    }
+    console.log(`Error regenerating draft: ${error}`);
+    return c.json({ success: false, error: (error as Error).message }, 500);
+  }
+});
+
+// Change the language the reply is written in; an existing draft is rewritten in that language
+app.put('/inquiries/:id/language', async (c) => {
+  try {
+    const inquiryId = c.req.param('id');
+    const { language, actor } = await c.req.json();
+    if (!isReplyLanguage(language)) {
+      return c.json({ success: false, error: `Unsupported reply language: ${language}` }, 400);
+    }
+
+    const existingData = await kv.get(`inquiry:${inquiryId}`);
+    if (!existingData) {
+      return c.json({ success: false, error: 'Inquiry not found' }, 404);
+    }
+
+    const inquiry = await setReplyLanguage(asObject<Inquiry>(existingData), language, actor || UNKNOWN_ACTOR);
+
+    return c.json({ success: true, data: inquiry });
+  } catch (error) {
+    if (error instanceof IllegalTransitionError) {
+      return c.json({ success: false, error: error.message }, 409);
+    }
+    console.log(`Error changing reply language: ${error}`);
+    return c.json({ success: false, error: (error as Error).message }, 500);
+  }
+});
+
+// Pick one of the draft variants as the suggestion to review
+app.put('/inquiries/:id/variant', async (c) => {
+  try {
+    const inquiryId = c.req.param('id');
+    const { tone } = await c.req.json();
+    if (!isDraftTone(tone)) {
+      return c.json({ success: false, error: `Unknown draft tone: ${tone}` }, 400);
+    }
+
+    const existingData = await kv.get(`inquiry:${inquiryId}`);
+    if (!existingData) {
+      return c.json({ success: false, error: 'Inquiry not found' }, 404);
+    }
+
+    const inquiry = asObject<Inquiry>(existingData);
+    await selectVariant(inquiry, tone, await getAIConfig());
+    await kv.set(`inquiry:${inquiryId}`, inquiry);
+
+    return c.json({ success: true, data: inquiry });
+  } catch (error) {
+    if (error instanceof IllegalTransitionError) {
+      return c.json({ success: false, error: error.message }, 409);
+    }
+    if (error instanceof VariantNotFoundError) {
+      return c.json({ success: false, error: error.message }, 404);
+    }
+    console.log(`Error selecting draft variant: ${error}`);
+    return c.json({ success: false, error: (error as Error).message }, 500);
+  }
+});
+
+// Retry a failed delivery of the approved reply
+app.post('/inquiries/:id/retry-delivery', async (c) => {
+  try {
+    const inquiryId = c.req.param('id');
+    const message = await retryDelivery(inquiryId);
+
+    return c.json({ success: true, data: message });
+  } catch (error) {
+    console.log(`Error retrying delivery: ${error}`);
+    return c.json({ success: false, error: (error as Error).message }, 500);
+  }
+});
+
+// Release due automatic replies and deliver queued mail.
+// Meant to be called every minute by a scheduler (e.g. pg_cron + pg_net).
+app.post('/outbox/process', async (c) => {
+  try {
+    const released = await releaseDueAutoSends(await getAIConfig());
+    const processed = await processOutbox();
+
+    return c.json({
+      success: true,
+      data: {
+        released,
+        sent: processed.filter((message) => message.state === 'sent').map((message) => message.inquiryId),
+        failed: processed.filter((message) => message.state !== 'sent').map((message) => message.inquiryId),
+      },
+    });
+  } catch (error) {
+    console.log(`Error processing outbox: ${error}`);
+    return c.json({ success: false, error: (error as Error).message }, 500);
+  }
+});
+
+// Poll the configured IMAP mailbox for new inquiries.
+// Meant to be called periodically by a scheduler, like /outbox/process.
+app.post('/ingest/imap', async (c) => {
+  try {
+    const result = await pollMailbox();
+
+    return c.json({ success: true, data: result });
+  } catch (error) {
+    console.log(`Error polling mailbox: ${error}`);
+    return c.json({ success: false, error: (error as Error).message }, 500);
+  }
+});
+
+// Inbound mail pushed by the mail provider (Mailgun, SendGrid or Postmark inbound parse)
+app.post('/inbound/:provider', async (c) => {
+  try {
+    const provider = c.req.param('provider');
+    if (!isInboundProvider(provider)) {
+      return c.json({ success: false, error: `Unsupported inbound provider: ${provider}` }, 404);
+    }
+
+    const email = await parseInboundRequest(provider, c.req.raw);
+    if (!email.fromAddress) {
+      return c.json({ success: false, error: 'Sender address is missing' }, 400);
+    }
+    const { inquiry, duplicate, followUp } = await ingestEmail(email, 'webhook');
+
+    // Duplicates are acknowledged with 200 so the provider stops retrying
+    return c.json({ success: true, data: { inquiryId: inquiry?.id ?? null, duplicate, followUp } });
+  } catch (error) {
+    if (error instanceof InboundVerificationError) {
+      return c.json({ success: false, error: error.message }, 401);
+    }
+    if (error instanceof InboundPayloadError) {
+      return c.json({ success: false, error: error.message }, 400);
+    }
+    console.log(`Error receiving inbound mail: ${error}`);
+    return c.json({ success: false, error: (error as Error).message }, 500);
+  }
+});
+
 // Get AI configuration
 app.get('/config', async (c) => {
   try {
-    const configRaw = await kv.get('ai_config');
-    const config = asObject(configRaw) || {
-      confidenceThreshold: 85,
-      autoResponse: false,
-      responseTemplate: 'Dziękuję za zapytanie! Na podstawie Państwa wymagań...',
-      companyName: 'Nardos House',
-      contactEmail: 'kontakt@nardoshouse.pl',
-    };
+    const config = await getAIConfig();
 
     return c.json({ success: true, data: config });
   } catch (error) {
@@ -149,7 +540,23 @@ app.get('/config', async (c) => {
 // Update AI configuration
 app.put('/config', async (c) => {
   try {
-    const config = await c.req.json();
+    const config = configFromBody(await c.req.json());
+    if (!['openai', 'anthropic', 'ollama', 'fake'].includes(config.provider)) {
+      return c.json({ success: false, error: `Unknown AI provider: ${config.provider}` }, 400);
+    }
+    if (!isToneList(config.draftTones)) {
+      return c.json({ success: false, error: `Unknown draft tones: ${config.draftTones}` }, 400);
+    }
+    const availabilityError = validateAvailability(config.availability);
+    if (availabilityError) {
+      return c.json({ success: false, error: availabilityError }, 400);
+    }
+    for (const [language, template] of Object.entries(config.responseTemplates)) {
+      const templateError = validateTemplate(template);
+      if (templateError) {
+        return c.json({ success: false, error: `Response template (${language}): ${templateError}` }, 400);
+      }
+    }
     await kv.set('ai_config', config);
 
     return c.json({ success: true, data: config });
@@ -159,6 +566,51 @@ app.put('/config', async (c) => {
   }
 });
 
+// Render a response template against an inquiry, as the draft in the given language would use it;
+// the answer slot is left in place for the drafted answer
+app.post('/templates/preview', async (c) => {
+  try {
+    const { template, inquiryId, language } = await c.req.json();
+    if (typeof template !== 'string') {
+      return c.json({ success: false, error: 'template is required' }, 400);
+    }
+    if (language !== undefined && !isReplyLanguage(language)) {
+      return c.json({ success: false, error: `Unsupported reply language: ${language}` }, 400);
+    }
+
+    const existingData = await kv.get(`inquiry:${inquiryId}`);
+    if (!existingData) {
+      return c.json({ success: false, error: 'Inquiry not found' }, 404);
+    }
+
+    const inquiry = asObject<Inquiry>(existingData);
+    const config = await getAIConfig();
+    const availableFrom = isoDay(earliestStartDate(config.availability));
+    const context = await templateContext({ ...inquiry, language: language ?? inquiry.language }, config, availableFrom);
+
+    return c.json({ success: true, data: { text: renderTemplate(template, context) } });
+  } catch (error) {
+    if (error instanceof TemplateError) {
+      return c.json({ success: false, error: error.message }, 400);
+    }
+    console.log(`Error previewing template: ${error}`);
+    return c.json({ success: false, error: (error as Error).message }, 500);
+  }
+});
+
+// Earliest start date for a new project under the current availability setting
+app.get('/availability', async (c) => {
+  try {
+    const { availability } = await getAIConfig();
+    const availableFrom = isoDay(earliestStartDate(availability));
+
+    return c.json({ success: true, data: { availableFrom } });
+  } catch (error) {
+    console.log(`Error computing availability: ${error}`);
+    return c.json({ success: false, error: (error as Error).message }, 500);
+  }
+});
+
 // Get knowledge base
 app.get('/knowledge', async (c) => {
   try {
@@ -179,29 +631,122 @@ app.get('/knowledge', async (c) => {
 // Add knowledge item
 app.post('/knowledge', async (c) => {
   try {
-    const item = await c.req.json();
-    const itemId = `knowledge_${Date.now()}`;
+    const { title, content, author } = await c.req.json();
+    const knowledgeItem = await createKnowledgeItem({ title, content }, author);
+
+    return c.json({ success: true, data: knowledgeItem });
+  } catch (error) {
+    console.log(`Error adding knowledge item: ${error}`);
+    return c.json({ success: false, error: (error as Error).message }, 500);
+  }
+});
+
+// Get recent knowledge base changes across all items
+app.get('/knowledge/changelog', async (c) => {
+  try {
+    const limit = Number(c.req.query('limit') ?? 20);
+    if (!Number.isInteger(limit) || limit < 1) {
+      return c.json({ success: false, error: 'limit must be a positive whole number' }, 400);
+    }
+
+    return c.json({ success: true, data: await knowledgeChangelog(limit) });
+  } catch (error) {
+    console.log(`Error fetching knowledge changelog: ${error}`);
+    return c.json({ success: false, error: (error as Error).message }, 500);
+  }
+});
+
+// Get single knowledge item
+app.get('/knowledge/:id', async (c) => {
+  try {
+    const itemId = c.req.param('id');
+    const existing = await kv.get(`knowledge:${itemId}`);
+    if (!existing) {
+      return c.json({ success: false, error: 'Knowledge item not found' }, 404);
+    }
 
-    const knowledgeItem = {
-      ...item,
-      id: itemId,
-      createdAt: new Date().toISOString(),
-    };
+    return c.json({ success: true, data: { ...asObject<KnowledgeItem>(existing), id: itemId } });
+  } catch (error) {
+    console.log(`Error fetching knowledge item: ${error}`);
+    return c.json({ success: false, error: (error as Error).message }, 500);
+  }
+});
 
-    await kv.set(`knowledge:${itemId}`, knowledgeItem);
+// Edit knowledge item, keeping the previous state in its history
+app.put('/knowledge/:id', async (c) => {
+  try {
+    const { title, content, author } = await c.req.json();
+    if (!title?.trim() || !content?.trim()) {
+      return c.json({ success: false, error: 'Title and content are required' }, 400);
+    }
+    const knowledgeItem = await updateKnowledgeItem(c.req.param('id'), { title, content }, author);
 
     return c.json({ success: true, data: knowledgeItem });
   } catch (error) {
-    console.log(`Error adding knowledge item: ${error}`);
+    if (error instanceof KnowledgeNotFoundError) {
+      return c.json({ success: false, error: error.message }, 404);
+    }
+    console.log(`Error updating knowledge item: ${error}`);
+    return c.json({ success: false, error: (error as Error).message }, 500);
+  }
+});
+
+// Get revision history of a knowledge item
+app.get('/knowledge/:id/history', async (c) => {
+  try {
+    const history = await knowledgeHistory(c.req.param('id'));
+
+    return c.json({ success: true, data: history });
+  } catch (error) {
+    if (error instanceof KnowledgeNotFoundError) {
+      return c.json({ success: false, error: error.message }, 404);
+    }
+    console.log(`Error fetching knowledge history: ${error}`);
+    return c.json({ success: false, error: (error as Error).message }, 500);
+  }
+});
+
+// Compare two revisions of a knowledge item: /knowledge/:id/diff?from=1&to=2
+app.get('/knowledge/:id/diff', async (c) => {
+  try {
+    const from = Number(c.req.query('from'));
+    const to = Number(c.req.query('to'));
+    if (!Number.isInteger(from) || !Number.isInteger(to)) {
+      return c.json({ success: false, error: 'Both from and to revisions are required' }, 400);
+    }
+    const diff = await diffRevisions(c.req.param('id'), from, to);
+
+    return c.json({ success: true, data: diff });
+  } catch (error) {
+    if (error instanceof KnowledgeNotFoundError) {
+      return c.json({ success: false, error: error.message }, 404);
+    }
+    console.log(`Error comparing knowledge revisions: ${error}`);
     return c.json({ success: false, error: (error as Error).message }, 500);
   }
 });
 
-// Delete knowledge item
+// Restore an earlier revision of a knowledge item
+app.post('/knowledge/:id/revert', async (c) => {
+  try {
+    const { revision, author } = await c.req.json();
+    const knowledgeItem = await revertKnowledgeItem(c.req.param('id'), Number(revision), author);
+
+    return c.json({ success: true, data: knowledgeItem });
+  } catch (error) {
+    if (error instanceof KnowledgeNotFoundError) {
+      return c.json({ success: false, error: error.message }, 404);
+    }
+    console.log(`Error reverting knowledge item: ${error}`);
+    return c.json({ success: false, error: (error as Error).message }, 500);
+  }
+});
+
+// Delete knowledge item together with its history
 app.delete('/knowledge/:id', async (c) => {
   try {
     const itemId = c.req.param('id');
-    await kv.del(`knowledge:${itemId}`);
+    await deleteKnowledgeItem(itemId);
 
     return c.json({ success: true });
   } catch (error) {
@@ -210,99 +755,137 @@ app.delete('/knowledge/:id', async (c) => {
   }
 });
 
-// Get learning statistics
-app.get('/stats', async (c) => {
+// Get price catalogue
+app.get('/prices', async (c) => {
   try {
-    const statsRaw = await kv.get('learning_stats');
-    const stats = asObject(statsRaw) || {
-      approved: 0,
-      rejected: 0,
-      avgAccuracy: 87,
-      totalProcessed: 0,
-    };
+    const prices = await listPrices();
 
-    return c.json({ success: true, data: stats });
+    return c.json({ success: true, data: prices });
   } catch (error) {
-    console.log(`Error fetching stats: ${error}`);
+    console.log(`Error fetching price list: ${error}`);
+    return c.json({ success: false, error: (error as Error).message }, 500);
+  }
+});
+
+// Add price catalogue entry
+app.post('/prices', async (c) => {
+  try {
+    const entry = await createPrice(await c.req.json());
+
+    return c.json({ success: true, data: entry });
+  } catch (error) {
+    if (error instanceof PriceListValidationError) {
+      return c.json({ success: false, error: error.message }, 400);
+    }
+    console.log(`Error adding price entry: ${error}`);
     return c.json({ success: false, error: (error as Error).message }, 500);
   }
 });
 
-// Mock AI suggestion generator
-async function generateAISuggestion(inquiry: any) {
-  const knowledgeItems = await kv.getByPrefix('knowledge:');
-  const knowledge = knowledgeItems.map((item: any) => asObject(item?.value ?? item));
+// Update price catalogue entry
+app.put('/prices/:id', async (c) => {
+  try {
+    const entry = await updatePrice(c.req.param('id'), await c.req.json());
+    if (!entry) {
+      return c.json({ success: false, error: 'Price entry not found' }, 404);
+    }
 
-  // Mock AI logic - in reality, this would call an AI service
-  let response = '';
-  let confidence = 75;
+    return c.json({ success: true, data: entry });
+  } catch (error) {
+    if (error instanceof PriceListValidationError) {
+      return c.json({ success: false, error: error.message }, 400);
+    }
+    console.log(`Error updating price entry: ${error}`);
+    return c.json({ success: false, error: (error as Error).message }, 500);
+  }
+});
 
-  const lowerMessage = inquiry.message.toLowerCase();
+// Delete price catalogue entry
+app.delete('/prices/:id', async (c) => {
+  try {
+    await deletePrice(c.req.param('id'));
 
-  if (lowerMessage.includes('cena') || lowerMessage.includes('koszt') || lowerMessage.includes('wycena')) {
-    response = `Dziękuję za zapytanie o wycenę! Na podstawie Państwa wymagań szacunkowy koszt wynosi 8,000-15,000 zł. Oferujemy bezpłatną konsultację, aby dokładnie omówić szczegóły projektu. Czy moglibyśmy umówić się na rozmowę?`;
-    confidence = 92;
-  } else if (lowerMessage.includes('czas') || lowerMessage.includes('termin') || lowerMessage.includes('realizacja')) {
-    response = `Dziękuję za zapytanie dotyczące czasu realizacji. Przewidywany czas wykonania wynosi 6-8 tygodni, w zależności od zakresu projektu. Możemy zacząć pracę już w styczniu 2025. Czy chcieliby Państwo omówić harmonogram szczegółowo?`;
-    confidence = 88;
-  } else if (lowerMessage.includes('usługa') || lowerMessage.includes('offer') || lowerMessage.includes('produkt')) {
-    response = `Dziękuję za zainteresowanie naszymi usługami! Oferujemy kompleksowe rozwiązania including projektowanie stron internetowych, sklepy online, branding i SEO. Chętnie przedstawimy szczegółową ofertę dostosowaną do Państwa potrzeb.`;
-    confidence = 85;
-  } else {
-    response = `Dziękuję za wiadomość! Cieszę się, że są Państwo zainteresowani współpracą z Nardos House. Chętnie odpowiem na wszystkie pytania i przedstawię szczegółową propozycję. Czy moglibyśmy umówić się na rozmowę telefoniczną?`;
-    confidence = 78;
+    return c.json({ success: true });
+  } catch (error) {
+    console.log(`Error deleting price entry: ${error}`);
+    return c.json({ success: false, error: (error as Error).message }, 500);
   }
+});
 
-  return { response, confidence };
-}
+// Get statistics computed from the inquiries: /stats?from=2026-01-01&to=2026-01-31&groupBy=week
+app.get('/stats', async (c) => {
+  try {
+    const from = c.req.query('from') || undefined;
+    const to = c.req.query('to') || undefined;
+    const groupBy = (c.req.query('groupBy') || 'day') as StatsPeriod;
+    for (const date of [from, to]) {
+      if (date && !/^\d{4}-\d{2}-\d{2}$/.test(date)) {
+        return c.json({ success: false, error: `Invalid date: ${date}, expected YYYY-MM-DD` }, 400);
+      }
+    }
+    if (!STATS_PERIODS.includes(groupBy)) {
+      return c.json({ success: false, error: `Unknown groupBy: ${groupBy}` }, 400);
+    }
 
-// Update learning statistics
-async function updateLearningStats(status: string, confidence: number) {
-  const statsData = await kv.get('learning_stats');
-  const stats: any = asObject(statsData) || {
-    approved: 0,
-    rejected: 0,
-    avgAccuracy: 87,
-    totalProcessed: 0,
-  };
+    const inquiries = await kv.getByPrefix('inquiry:');
+    const stats = computeStats(inquiries.map((item: any) => asObject<Inquiry>(item?.value ?? item)), { from, to, groupBy });
 
-  if (status === 'approved') {
-    stats.approved++;
-  } else if (status === 'rejected') {
-    stats.rejected++;
+    return c.json({ success: true, data: stats });
+  } catch (error) {
+    console.log(`Error fetching stats: ${error}`);
+    return c.json({ success: false, error: (error as Error).message }, 500);
   }
+});
 
-  stats.totalProcessed++;
-  stats.avgAccuracy = Math.round((stats.approved / stats.totalProcessed) * 100);
+// Get classifier accuracy, overall and per category
+app.get('/stats/categories', async (c) => {
+  try {
+    const accuracy = await categoryAccuracy();
 
-  await kv.set('learning_stats', stats);
-}
+    return c.json({ success: true, data: accuracy });
+  } catch (error) {
+    console.log(`Error fetching category accuracy: ${error}`);
+    return c.json({ success: false, error: (error as Error).message }, 500);
+  }
+});
+
+// Get the phrases reviewers most often change in AI drafts
+app.get('/stats/edits', async (c) => {
+  try {
+    const inquiries = await kv.getByPrefix('inquiry:');
+    const report = editReport(inquiries.map((item: any) => asObject<Inquiry>(item?.value ?? item)));
+
+    return c.json({ success: true, data: report });
+  } catch (error) {
+    console.log(`Error fetching edit report: ${error}`);
+    return c.json({ success: false, error: (error as Error).message }, 500);
+  }
+});
+
+// Get the reliability of the calibrated confidence against reviewer decisions
+app.get('/stats/calibration', async (c) => {
+  try {
+    const inquiries = await kv.getByPrefix('inquiry:');
+    const report = reliabilityReport(inquiries.map((item: any) => asObject<Inquiry>(item?.value ?? item)));
+
+    return c.json({ success: true, data: report });
+  } catch (error) {
+    console.log(`Error fetching calibration report: ${error}`);
+    return c.json({ success: false, error: (error as Error).message }, 500);
+  }
+});
 
 // Initialize default data
 app.get('/init', async (c) => {
   try {
     // Initialize default configuration
-    const defaultConfig = {
-      confidenceThreshold: 85,
-      autoResponse: false,
-      responseTemplate: 'Dziękuję za zapytanie! Na podstawie Państwa wymagań...',
-      companyName: 'Nardos House',
-      contactEmail: 'kontakt@nardoshouse.pl',
-    };
-
     const existingConfig = await kv.get('ai_config');
     if (!existingConfig) {
-      await kv.set('ai_config', defaultConfig);
+      await kv.set('ai_config', DEFAULT_AI_CONFIG);
     }
 
-    // Initialize default knowledge base
+    // Initialize default knowledge base; prices live in the price catalogue below
     const defaultKnowledge = [
-      {
-        id: 'knowledge_1',
-        title: 'Cennik stron internetowych',
-        content: 'Strona wizytówka: 3,000-5,000 zł\nStrona firmowa: 5,000-10,000 zł\nStrona z CMS: 8,000-15,000 zł\nSklep internetowy: 10,000-25,000 zł',
-        createdAt: new Date().toISOString(),
-      },
       {
         id: 'knowledge_2',
         title: 'Czas realizacji projektów',
@@ -312,7 +895,7 @@ app.get('/init', async (c) => {
       {
         id: 'knowledge_3',
         title: 'Usługi dodatkowe',
-        content: 'Logo i identyfikacja wizualna: 2,000-5,000 zł\nFotografia produktowa: 500-1,500 zł\nKopywriting: 300-800 zł/strona\nOptymalizacja SEO: 1,500-3,000 zł',
+        content: 'Logo i identyfikacja wizualna\nFotografia produktowa\nKopywriting\nOptymalizacja SEO\nAktualne ceny znajdują się w cenniku.',
         createdAt: new Date().toISOString(),
       },
     ];
@@ -324,6 +907,25 @@ app.get('/init', async (c) => {
       }
     }
 
+    // Initialize default price catalogue
+    const defaultPrices: PriceListEntry[] = [
+      { id: 'price_1', service: 'Strona wizytówka', aliases: { en: 'Business card website', de: 'Visitenkarten-Website' }, minPrice: 3000, maxPrice: 5000, unit: 'projekt', minLeadTimeWeeks: 2, maxLeadTimeWeeks: 3 },
+      { id: 'price_2', service: 'Strona firmowa', aliases: { en: 'Company website', de: 'Unternehmenswebsite' }, minPrice: 5000, maxPrice: 10000, unit: 'projekt', minLeadTimeWeeks: 4, maxLeadTimeWeeks: 6 },
+      { id: 'price_3', service: 'Strona z CMS', aliases: { en: 'Website with CMS', de: 'Website mit CMS' }, minPrice: 8000, maxPrice: 15000, unit: 'projekt', minLeadTimeWeeks: 6, maxLeadTimeWeeks: 8 },
+      { id: 'price_4', service: 'Sklep internetowy', aliases: { en: 'Online shop', de: 'Onlineshop' }, minPrice: 10000, maxPrice: 25000, unit: 'projekt', minLeadTimeWeeks: 8, maxLeadTimeWeeks: 12 },
+      { id: 'price_5', service: 'Logo i identyfikacja wizualna', aliases: { en: 'Logo and visual identity', de: 'Logo und Corporate Design' }, minPrice: 2000, maxPrice: 5000, unit: 'projekt' },
+      { id: 'price_6', service: 'Fotografia produktowa', aliases: { en: 'Product photography', de: 'Produktfotografie' }, minPrice: 500, maxPrice: 1500, unit: 'sesja' },
+      { id: 'price_7', service: 'Kopywriting', aliases: { en: 'Copywriting', de: 'Texterstellung' }, minPrice: 300, maxPrice: 800, unit: 'strona' },
+      { id: 'price_8', service: 'Optymalizacja SEO', aliases: { en: 'SEO optimisation', de: 'SEO-Optimierung' }, minPrice: 1500, maxPrice: 3000, unit: 'projekt' },
+    ].map((entry) => ({ ...entry, createdAt: new Date().toISOString() }));
+
+    for (const entry of defaultPrices) {
+      const existing = await kv.get(`price:${entry.id}`);
+      if (!existing) {
+        await kv.set(`price:${entry.id}`, entry);
+      }
+    }
+
     // Initialize sample inquiries
     const sampleInquiries = [
       {
@@ -333,7 +935,7 @@ app.get('/init', async (c) => {
         subject: 'Wycena strony internetowej dla salonu fryzjerskiego',
         message: 'Witam, prowadzę salon fryzjerski i potrzebuję profesjonalnej strony internetowej. Chciałabym mieć galerię prac, informacje o usługach, cennik oraz możliwość umawiania wizyt online. Jaka byłaby wycena takiego projektu?',
         category: 'pricing',
-        status: 'pending',
+        status: 'pending_review',
         timestamp: new Date(Date.now() - 2 * 60 * 60 * 1000).toISOString(),
         aiSuggestion: 'Dziękuję za zainteresowanie naszymi usługami! Dla salonu fryzjerskiego z galerią, cennikiem i systemem rezerwacji szacunkowa wycena wynosi 12,000-18,000 zł. Projekt obejmuje responsywny design, system CMS do zarządzania treścią oraz integrację z kalendarzem rezerwacji. Oferujemy bezpłatną konsultację, podczas której omówimy szczegóły i dostosujemy ofertę do Państwa potrzeb.',
         confidence: 94,
@@ -347,7 +949,7 @@ app.get('/init', async (c) => {
         category: 'timeline',
         status: 'approved',
         timestamp: new Date(Date.now() - 5 * 60 * 60 * 1000).toISOString(),
-        aiSuggestion: 'Dziękuję za zapytanie! Sklep internetowy z 200 produktami, systemem płatności i integracjami wymaga dokładnego planowania. Przewidywany czas realizacji to 10-14 tygodni, obejmujący: projektowanie (2 tygodnie), programowanie (6-8 tygodni), integracje (2 tygodnie), testy i wdrożenie (2 tygodnie). Możemy rozpocząć prace w styczniu 2025. Czy chcieliby Państwo omówić szczegółowy harmonogram?',
+        aiSuggestion: 'Dziękuję za zapytanie! Sklep internetowy z 200 produktami, systemem płatności i integracjami wymaga dokładnego planowania. Przewidywany czas realizacji to 10-14 tygodni, obejmujący: projektowanie (2 tygodnie), programowanie (6-8 tygodni), integracje (2 tygodnie), testy i wdrożenie (2 tygodnie). Termin rozpoczęcia potwierdzimy razem z ofertą, zgodnie z aktualną dostępnością zespołu. Czy chcieliby Państwo omówić szczegółowy harmonogram?',
         confidence: 91,
       },
       {
@@ -369,7 +971,7 @@ app.get('/init', async (c) => {
         subject: 'Strona dla restauracji z systemem zamówień',
         message: 'Dzień dobry, mam restaurację i chciałbym stronę internetową z menu online i możliwością składania zamówień na wynos. Dodatkowo potrzebuję integrację z systemami płatności. Czy to możliwe?',
         category: 'product',
-        status: 'pending',
+        status: 'pending_review',
         timestamp: new Date(Date.now() - 12 * 60 * 60 * 1000).toISOString(),
         aiSuggestion: 'Oczywiście! Tworzymy profesjonalne strony dla restauracji z pełną funkcjonalnością zamówień online. Oferujemy: prezentację menu z możliwością konfiguracji, koszyk zamówień, integrację z płatnościami online, panel administracyjny do zarządzania zamówieniami. Szacunkowy koszt: 15,000-22,000 zł, czas realizacji: 6-8 tygodni. Dodatkowo możemy zintegrować system z popularnymi platformami dostawczymi.',
         confidence: 93,
@@ -381,7 +983,7 @@ app.get('/init', async (c) => {
         subject: 'Modernizacja starej strony firmowej',
         message: 'Witam, nasza firma zajmuje się odnawialnymi źródłami energii i mamy przestarzałą stronę z 2018 roku. Potrzebujemy jej pełnej modernizacji - nowy design, lepsze SEO, responsywność i szybkość ładowania.',
         category: 'general',
-        status: 'pending',
+        status: 'pending_review',
         timestamp: new Date(Date.now() - 18 * 60 * 60 * 1000).toISOString(),
         aiSuggestion: 'Dziękuję za zapytanie! Modernizacja strony to doskonała inwestycja. Oferujemy: całkowity redesign w nowoczesnym stylu, optymalizację SEO, responsywny design, przyspieszenie ładowania, aktualizację contentu. Dla firm z branży OZE mamy doświadczenie w tworzeniu stron technicznych. Koszt modernizacji: 10,000-16,000 zł, czas realizacji: 5-7 tygodni. Możemy przeprowadzić bezpłatny audyt obecnej strony.',
         confidence: 89,
@@ -405,7 +1007,7 @@ app.get('/init', async (c) => {
         subject: 'Strona dla kancelarii prawnej z blogiem',
         message: 'Dzień dobry, jestem prawnikiem i potrzebuję profesjonalnej strony internetowej. Chciałabym mieć sekcję o specjalizacjach, blog z artykułami prawnymi, formularz kontaktowy i możliwość umówienia konsultacji online.',
         category: 'pricing',
-        status: 'pending',
+        status: 'pending_review',
         timestamp: new Date(Date.now() - 36 * 60 * 60 * 1000).toISOString(),
         aiSuggestion: 'Dziękuję za zainteresowanie! Strony dla kancelarii prawnych to nasza specjalizacja. Oferujemy: profesjonalny design budujący zaufanie, sekcję usług z opisami specjalizacji, blog z CMS, bezpieczny formularz kontaktowy, kalendarz konsultacji online, optymalizację SEO dla branży prawniczej. Szacunkowa wycena: 8,000-14,000 zł, czas realizacji: 4-6 tygodni. Zapewniamy zgodność z RODO.',
         confidence: 92,
@@ -432,17 +1034,6 @@ app.get('/init', async (c) => {
       }
     }
 
-    // Initialize stats
-    const existingStats = await kv.get('learning_stats');
-    if (!existingStats) {
-      await kv.set('learning_stats', {
-        approved: 4,
-        rejected: 1,
-        avgAccuracy: 91,
-        totalProcessed: 8,
-      });
-    }
-
     return c.json({ success: true, message: 'Initialized successfully with sample data' });
   } catch (error) {
     console.log(`Error initializing data: ${error}`);
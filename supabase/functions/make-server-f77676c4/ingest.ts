@@ -0,0 +1,88 @@
+import * as kv from './kv_store.ts';
+import { asObject } from './utils.ts';
+import { appendFollowUp, createInquiry, inquiryIdForMessage } from './inquiries.ts';
+import type { InboundAttachment } from './attachments.ts';
+import type { Inquiry, InquirySource } from './types.ts';
+
+// An inbound email reduced to the fields an inquiry is built from
+export interface InboundEmail {
+  messageId?: string;
+  inReplyTo?: string;
+  references?: string[];
+  fromName: string;
+  fromAddress: string;
+  subject: string;
+  text: string;
+  receivedAt?: string;
+  attachments?: InboundAttachment[];
+}
+
+export interface IngestResult {
+  inquiry: Inquiry | null;
+  duplicate: boolean;
+  followUp: boolean;
+}
+
+// Finds the inquiry a reply belongs to through In-Reply-To, then References from newest to oldest
+async function findParentInquiry(email: InboundEmail): Promise<Inquiry | null> {
+  const candidates = [email.inReplyTo, ...[...(email.references ?? [])].reverse()].filter((id): id is string => !!id);
+  for (const messageId of candidates) {
+    const inquiryId = await inquiryIdForMessage(messageId);
+    const existing = inquiryId ? await kv.get(`inquiry:${inquiryId}`) : null;
+    if (existing) {
+      return asObject<Inquiry>(existing);
+    }
+  }
+  return null;
+}
+
+// A claim left by a request that crashed or timed out while drafting frees the email for the next delivery
+const CLAIM_TTL_MS = 15 * 60 * 1000;
+
+// Creates an inquiry from an email, or adds it to the conversation it replies to.
+// Emails whose Message-ID was already ingested are skipped. The Message-ID is claimed before anything
+// is created, so concurrent deliveries of one email make one inquiry; the claim is released on failure
+// and replaced by the inquiry id once the email is stored.
+export async function ingestEmail(email: InboundEmail, source: InquirySource): Promise<IngestResult> {
+  if (email.messageId && !await kv.claim(`message:${email.messageId}`, CLAIM_TTL_MS)) {
+    return { inquiry: null, duplicate: true, followUp: false };
+  }
+
+  try {
+    return await ingestClaimed(email, source);
+  } catch (error) {
+    if (email.messageId) {
+      await kv.del(`message:${email.messageId}`);
+    }
+    throw error;
+  }
+}
+
+async function ingestClaimed(email: InboundEmail, source: InquirySource): Promise<IngestResult> {
+  const parent = await findParentInquiry(email);
+  if (parent) {
+    const inquiry = await appendFollowUp(parent, {
+      direction: 'inbound',
+      messageId: email.messageId,
+      from: email.fromAddress,
+      subject: email.subject,
+      text: email.text.trim(),
+      timestamp: email.receivedAt ?? new Date().toISOString(),
+    }, email.attachments);
+    return { inquiry, duplicate: false, followUp: true };
+  }
+
+  const inquiry = await createInquiry({
+    customerName: email.fromName || email.fromAddress,
+    email: email.fromAddress,
+    subject: email.subject.trim() || '(bez tematu)',
+    message: email.text.trim(),
+    source,
+    messageId: email.messageId,
+    references: email.references,
+    receivedAt: email.receivedAt,
+    attachments: email.attachments,
+  });
+
+  return { inquiry, duplicate: false, followUp: false };
+}
@@ -0,0 +1,453 @@
+import * as kv from './kv_store.ts';
+import { asObject } from './utils.ts';
+import { getAIConfig } from './config.ts';
+import { createProvider, DraftRevision, InquiryInput } from './providers.ts';
+import { applyAutoResponsePolicy, queueAutoSend } from './autosend.ts';
+import { withdrawReply } from './outbox.ts';
+import { removeAttachments, storeAttachments, InboundAttachment } from './attachments.ts';
+import { bestSnippet, rankDocuments, rankKnowledge } from './retrieval.ts';
+import { classifyInquiry } from './classifier.ts';
+import { relevantPrices } from './pricing.ts';
+import { checkDraftFigures } from './guard.ts';
+import { calibrate, loadCalibration } from './calibration.ts';
+import { decisionOf, IllegalTransitionError, statusOf, SYSTEM_ACTOR, workflowTransition } from './status.ts';
+import { earliestStartDate, isoDay } from './availability.ts';
+import { detectLanguage, languageOf } from './language.ts';
+import { frameAnswer, renderTemplate, splitFrame, templateContext } from './template.ts';
+import type {
+  AIConfig,
+  DraftSource,
+  DraftTone,
+  DraftVariant,
+  DraftVersion,
+  Inquiry,
+  InquirySource,
+  InquiryStatus,
+  KnowledgeItem,
+  Rejection,
+  RejectionReason,
+  ReplyLanguage,
+  ThreadMessage,
+} from './types.ts';
+
+// The category is not part of a new inquiry; the classifier assigns it
+export interface NewInquiry extends Omit<InquiryInput, 'category'> {
+  source: InquirySource;
+  messageId?: string;
+  references?: string[];
+  receivedAt?: string;
+  attachments?: InboundAttachment[];
+  // Overrides the tones set in the AI configuration
+  tones?: DraftTone[];
+  // Saves the inquiry without a draft, to be drafted with streamDraft
+  deferDraft?: boolean;
+}
+
+// Single entry point for new inquiries, whether typed in the Dashboard or received by email
+export async function createInquiry({ attachments, receivedAt, tones, deferDraft, ...input }: NewInquiry): Promise<Inquiry> {
+  const config = await getAIConfig();
+  const inquiryId = `inquiry_${Date.now()}`;
+  const prediction = await classifyInquiry(input.subject, input.message);
+  const language = detectLanguage(`${input.subject ?? ''}\n${input.message}`);
+
+  const inquiryData: Inquiry = {
+    ...input,
+    id: inquiryId,
+    category: prediction.category,
+    predictedCategory: prediction.category,
+    categoryScore: prediction.score,
+    detectedLanguage: language,
+    language,
+    timestamp: receivedAt ?? new Date().toISOString(),
+    status: 'new',
+    attachments: await storeAttachments(inquiryId, attachments),
+  };
+
+  // Stored files are removed again if the inquiry pointing to them cannot be saved
+  try {
+    if (deferDraft) {
+      await kv.set(`inquiry:${inquiryId}`, inquiryData);
+    } else {
+      await draftAndSave(inquiryData, config, { tones });
+    }
+  } catch (error) {
+    await removeAttachments(inquiryData.attachments ?? []);
+    throw error;
+  }
+  if (input.messageId) {
+    await linkMessage(input.messageId, inquiryId);
+  }
+
+  return inquiryData;
+}
+
+// Adds a customer's follow-up to an existing inquiry and drafts a new reply with the whole conversation in view
+export async function appendFollowUp(
+  inquiry: Inquiry,
+  message: ThreadMessage,
+  attachments?: InboundAttachment[],
+): Promise<Inquiry> {
+  const config = await getAIConfig();
+
+  // The previous reply and its delivery are kept in the thread
+  inquiry.thread = [...(inquiry.thread ?? []), message];
+  const stored = await storeAttachments(inquiry.id, attachments, message.messageId);
+  inquiry.attachments = [...(inquiry.attachments ?? []), ...stored];
+
+  // Spam is kept on record but not answered. A finished conversation is reopened,
+  // and a reply that has not gone out yet is replaced by a new draft.
+  const status = statusOf(inquiry);
+  try {
+    if (status === 'spam') {
+      inquiry.updatedAt = new Date().toISOString();
+      await kv.set(`inquiry:${inquiry.id}`, inquiry);
+    } else {
+      if (status === 'sent' || status === 'rejected' || status === 'closed') {
+        workflowTransition(inquiry, 'reopened', SYSTEM_ACTOR, 'follow_up');
+      } else if (status === 'approved' || status === 'auto_sent') {
+        workflowTransition(inquiry, 'pending_review', SYSTEM_ACTOR, 'follow_up');
+      }
+      inquiry.finalResponse = undefined;
+      await withdrawReply(inquiry);
+      inquiry.delivery = undefined;
+      inquiry.autoSendAt = undefined;
+      inquiry.updatedAt = new Date().toISOString();
+
+      await draftAndSave(inquiry, config);
+    }
+  } catch (error) {
+    await removeAttachments(stored);
+    throw error;
+  }
+
+  if (message.messageId) {
+    await linkMessage(message.messageId, inquiry.id);
+  }
+
+  return inquiry;
+}
+
+export const DRAFT_TONES: DraftTone[] = ['formal', 'friendly', 'concise', 'upsell'];
+
+export function isDraftTone(value: unknown): value is DraftTone {
+  return DRAFT_TONES.includes(value as DraftTone);
+}
+
+// Thrown when a reviewer picks a tone that was not drafted for the current version
+export class VariantNotFoundError extends Error {}
+
+export const REJECTION_REASONS: RejectionReason[] = ['wrong_information', 'missing_information', 'tone', 'too_long', 'other'];
+
+export function isRejectionReason(value: unknown): value is RejectionReason {
+  return REJECTION_REASONS.includes(value as RejectionReason);
+}
+
+// Every draft of the inquiry, oldest first. A draft stored before versions were kept counts as version 1.
+export function draftVersions(inquiry: Inquiry): DraftVersion[] {
+  if (inquiry.drafts?.length) return inquiry.drafts;
+  if (!inquiry.aiSuggestion) return [];
+  return [{
+    version: 1,
+    text: inquiry.aiSuggestion,
+    confidence: inquiry.confidence,
+    rawConfidence: inquiry.rawConfidence,
+    provider: inquiry.aiProvider,
+    model: inquiry.aiModel,
+    createdAt: inquiry.timestamp,
+  }];
+}
+
+// Keeps the reviewer's reason and instructions on the draft they rejected
+export function recordRejection(inquiry: Inquiry, rejection: Rejection) {
+  const versions = draftVersions(inquiry);
+  inquiry.drafts = versions.map((draft, index) => index === versions.length - 1 ? { ...draft, rejection } : draft);
+}
+
+// Statuses in which the current draft has not been approved or sent yet
+const REGENERABLE: InquiryStatus[] = ['new', 'pending_review', 'needs_info', 'rejected', 'reopened'];
+
+// Drafts a new version of the reply, following the reason and instructions given when the last one was rejected.
+// Instructions passed here take precedence over the ones recorded with the rejection.
+export async function regenerateDraft(
+  inquiry: Inquiry,
+  actor: string,
+  { instructions, tones }: { instructions?: string; tones?: DraftTone[] } = {},
+): Promise<Inquiry> {
+  const status = statusOf(inquiry);
+  if (!REGENERABLE.includes(status)) {
+    throw new IllegalTransitionError(`Cannot regenerate the draft of an inquiry in status ${status}`);
+  }
+
+  const config = await getAIConfig();
+  const versions = draftVersions(inquiry);
+  const previous = versions[versions.length - 1];
+  const revision: DraftRevision = {
+    previousDraft: previous?.text ?? inquiry.aiSuggestion ?? '',
+    reason: previous?.rejection?.reason,
+    instructions: instructions?.trim() || previous?.rejection?.instructions,
+  };
+
+  workflowTransition(inquiry, 'pending_review', actor, 'new_version');
+  inquiry.finalResponse = undefined;
+  inquiry.edit = undefined;
+
+  await draftAndSave(inquiry, config, { revision, tones, forReview: true });
+  return inquiry;
+}
+
+// A reviewer's choice of reply language; a draft already written is redrafted in the new language
+export async function setReplyLanguage(inquiry: Inquiry, language: ReplyLanguage, actor: string): Promise<Inquiry> {
+  if (languageOf(inquiry) === language) return inquiry;
+  if (isAwaitingDraft(inquiry)) {
+    inquiry.language = language;
+    inquiry.updatedAt = new Date().toISOString();
+    await kv.set(`inquiry:${inquiry.id}`, inquiry);
+    return inquiry;
+  }
+
+  const status = statusOf(inquiry);
+  if (!REGENERABLE.includes(status)) {
+    throw new IllegalTransitionError(`Cannot change the reply language of an inquiry in status ${status}`);
+  }
+
+  inquiry.language = language;
+  workflowTransition(inquiry, 'pending_review', actor, 'language_changed');
+  inquiry.finalResponse = undefined;
+  inquiry.edit = undefined;
+
+  await draftAndSave(inquiry, await getAIConfig(), { forReview: true });
+  return inquiry;
+}
+
+// Puts the chosen variant in place of the suggestion. The tone is kept on the inquiry and its latest version,
+// so that approved replies show which tones reviewers prefer.
+export async function selectVariant(inquiry: Inquiry, tone: DraftTone, config: AIConfig) {
+  if (inquiry.tone === tone) return;
+
+  const status = statusOf(inquiry);
+  if (!REGENERABLE.includes(status)) {
+    throw new IllegalTransitionError(`Cannot change the draft of an inquiry in status ${status}`);
+  }
+  const variant = inquiry.variants?.find((item) => item.tone === tone);
+  if (!variant) {
+    throw new VariantNotFoundError(`No ${tone} variant was drafted for this inquiry`);
+  }
+
+  inquiry.aiSuggestion = variant.text;
+  inquiry.confidence = variant.confidence;
+  inquiry.rawConfidence = variant.rawConfidence;
+  inquiry.tone = tone;
+  inquiry.figureCheck = await checkDraftFigures(inquiry);
+  inquiry.updatedAt = new Date().toISOString();
+  // Only refreshes needsReview; a chosen variant is never sent automatically
+  applyAutoResponsePolicy(inquiry, { ...config, autoResponse: false });
+
+  const versions = draftVersions(inquiry);
+  inquiry.drafts = versions.map((draft, index) => index === versions.length - 1
+    ? { ...draft, text: variant.text, confidence: variant.confidence, rawConfidence: variant.rawConfidence, tone }
+    : draft);
+}
+
+// Receives each piece of generated text, tagged with the variant's tone when several are drafted
+export interface InquiryDraftStream {
+  onDelta: (text: string, tone?: DraftTone) => void;
+  signal?: AbortSignal;
+}
+
+// An inquiry saved with deferDraft, or one whose streamed draft was cancelled
+export function isAwaitingDraft(inquiry: Inquiry) {
+  return statusOf(inquiry) === 'new' && !inquiry.aiSuggestion;
+}
+
+// Drafts the first reply of an inquiry, passing the text on as the model writes it.
+// Nothing is saved when the signal aborts, so the inquiry can be drafted again.
+export async function streamDraft(inquiry: Inquiry, stream: InquiryDraftStream, tones?: DraftTone[]): Promise<Inquiry> {
+  if (!isAwaitingDraft(inquiry)) {
+    throw new IllegalTransitionError('The inquiry already has a draft');
+  }
+  await draftAndSave(inquiry, await getAIConfig(), { tones, stream });
+  return inquiry;
+}
+
+interface DraftOptions {
+  revision?: DraftRevision;
+  // Falls back to the tones in the AI configuration
+  tones?: DraftTone[];
+  stream?: InquiryDraftStream;
+  // Drafted on a reviewer's request, so it goes back to that reviewer instead of out automatically
+  forReview?: boolean;
+}
+
+async function draftAndSave(
+  inquiry: Inquiry,
+  config: AIConfig,
+  { revision, tones = config.draftTones, stream, forReview }: DraftOptions = {},
+) {
+  const versions = draftVersions(inquiry);
+
+  // Generate AI suggestion with the configured provider, once per requested tone
+  const aiSuggestion = await generateAISuggestion(inquiry, conversationOf(inquiry), config, { revision, tones, stream });
+  const calibration = await loadCalibration();
+  const variants: DraftVariant[] = aiSuggestion.variants.map(({ tone, response, confidence }) => ({
+    tone,
+    text: response,
+    confidence: calibrate(calibration, inquiry.category, confidence),
+    rawConfidence: confidence,
+  }));
+  const [primary] = aiSuggestion.drafts;
+
+  inquiry.aiSuggestion = primary.response;
+  inquiry.rawConfidence = primary.confidence;
+  inquiry.confidence = calibrate(calibration, inquiry.category, primary.confidence);
+  inquiry.variants = variants.length ? variants : undefined;
+  inquiry.tone = variants.length === 1 ? variants[0].tone : undefined;
+  inquiry.aiProvider = primary.provider;
+  inquiry.aiModel = primary.model;
+  inquiry.knowledgeIds = aiSuggestion.knowledgeIds;
+  inquiry.sources = aiSuggestion.sources;
+  inquiry.availableFrom = aiSuggestion.availableFrom;
+  inquiry.figureCheck = await checkDraftFigures(inquiry);
+  inquiry.drafts = [...versions, {
+    version: versions.length + 1,
+    text: primary.response,
+    confidence: inquiry.confidence,
+    rawConfidence: inquiry.rawConfidence,
+    provider: inquiry.aiProvider,
+    model: inquiry.aiModel,
+    createdAt: new Date().toISOString(),
+    guidance: revision?.instructions,
+    tone: inquiry.tone,
+    variants: inquiry.variants,
+  }];
+
+  // Confident drafts quoting only known figures are queued for automatic sending when enabled,
+  // the rest wait for review, as do drafts requested by a reviewer and drafts with several variants to choose from
+  const reviewerDecides = forReview || variants.length > 1;
+  const autoSend = applyAutoResponsePolicy(inquiry, reviewerDecides ? { ...config, autoResponse: false } : config);
+  if (!autoSend) {
+    workflowTransition(inquiry, 'pending_review');
+  }
+
+  await kv.set(`inquiry:${inquiry.id}`, inquiry);
+  if (autoSend) {
+    await queueAutoSend(autoSend);
+  }
+}
+
+// Every message of the conversation in chronological order, starting with the original inquiry
+export function conversationOf(inquiry: Inquiry): ThreadMessage[] {
+  return [
+    {
+      direction: 'inbound',
+      messageId: inquiry.messageId,
+      from: inquiry.email,
+      subject: inquiry.subject,
+      text: inquiry.message,
+      timestamp: inquiry.timestamp,
+    },
+    ...(inquiry.thread ?? []),
+  ];
+}
+
+// Remembers which inquiry an email belongs to, for deduplication and for threading replies
+export async function linkMessage(messageId: string, inquiryId: string) {
+  await kv.set(`message:${messageId}`, inquiryId);
+}
+
+// Looks up the inquiry an email was ingested into or sent from; an email still being ingested has none yet
+export async function inquiryIdForMessage(messageId: string): Promise<string | null> {
+  const inquiryId = asObject(await kv.get(`message:${messageId}`));
+  return typeof inquiryId === 'string' && inquiryId ? inquiryId : null;
+}
+
+// Draft a reply to the latest customer message with the provider selected in the AI configuration,
+// grounded in the most relevant knowledge items and earlier approved replies
+async function generateAISuggestion(
+  inquiry: Inquiry,
+  conversation: ThreadMessage[],
+  config: AIConfig,
+  { revision, tones = [], stream }: DraftOptions = {},
+) {
+  const latest = [...conversation].reverse().find((message) => message.direction === 'inbound') ?? conversation[0];
+  const history = conversation.slice(0, conversation.lastIndexOf(latest));
+  const query = `${inquiry.subject ?? ''}\n${latest.text}`;
+
+  const knowledgeItems = await kv.getByPrefix('knowledge:');
+  const knowledge = knowledgeItems.map((item: any) => {
+    const value = asObject<KnowledgeItem>(item?.value ?? item);
+    const id = item?.key ? String(item.key).replace('knowledge:', '') : value?.id ?? '';
+    return { ...value, id };
+  });
+  const relevantKnowledge = rankKnowledge(query, knowledge);
+
+  const inquiryItems = await kv.getByPrefix('inquiry:');
+  const answered = inquiryItems
+    .map((item: any) => asObject<Inquiry>(item?.value ?? item))
+    .filter((past) => past.id !== inquiry.id && decisionOf(past) === 'approved');
+  const relevantInquiries = rankDocuments(query, answered, (past) => `${past.subject} ${past.message}`);
+
+  const now = new Date();
+  const availableFrom = isoDay(earliestStartDate(config.availability, now));
+
+  const provider = createProvider(config);
+  const request = {
+    inquiry: { ...inquiry, message: latest.text },
+    history,
+    attachments: (inquiry.attachments ?? [])
+      .filter((attachment) => attachment.extractedText)
+      .map((attachment) => ({ filename: attachment.filename, text: attachment.extractedText! })),
+    knowledge: relevantKnowledge.map((entry) => entry.item),
+    prices: await relevantPrices(query),
+    today: isoDay(now),
+    availableFrom,
+    similarInquiries: relevantInquiries.map(({ item }) => ({
+      subject: item.subject,
+      message: item.message,
+      reply: item.finalResponse || item.aiSuggestion || '',
+    })),
+    template: renderTemplate(config.responseTemplates[languageOf(inquiry)], await templateContext(inquiry, config, availableFrom)),
+    language: languageOf(inquiry),
+    config,
+    revision,
+  };
+  // The model writes the answer; the template text around its slot is streamed before and after it
+  const [before, after] = splitFrame(request.template);
+  const generate = async (tone?: DraftTone) => {
+    const emit = (text: string) => stream?.onDelta(text, tone);
+    if (before) emit(before);
+    const draft = await provider.generateDraft({
+      ...request,
+      tone,
+      stream: stream && { onDelta: emit, signal: stream.signal },
+    });
+    if (after) emit(after);
+    return { ...draft, response: frameAnswer(request.template, draft.response) };
+  };
+  const variants = await Promise.all(tones.map(async (tone) => ({ ...await generate(tone), tone })));
+  const drafts = variants.length ? variants : [await generate()];
+
+  const sources: DraftSource[] = [
+    ...relevantKnowledge.map(({ item, score }) => ({
+      type: 'knowledge' as const,
+      id: item.id,
+      title: item.title,
+      snippet: bestSnippet(query, item.content),
+      score,
+    })),
+    ...relevantInquiries.map(({ item, score }) => ({
+      type: 'inquiry' as const,
+      id: item.id,
+      title: item.subject,
+      snippet: bestSnippet(query, item.message),
+      score,
+    })),
+  ];
+
+  return {
+    drafts,
+    variants,
+    availableFrom,
+    knowledgeIds: relevantKnowledge.map((entry) => entry.item.id),
+    sources,
+  };
+}
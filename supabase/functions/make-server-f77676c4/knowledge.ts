@@ -0,0 +1,162 @@
+import * as kv from './kv_store.ts';
+import { asObject } from './utils.ts';
+import { diffWords } from './diff.ts';
+import type { KnowledgeItem, KnowledgeRevision } from './types.ts';
+
+export interface KnowledgeInput {
+  title: string;
+  content: string;
+}
+
+// Thrown when an item or one of its revisions does not exist
+export class KnowledgeNotFoundError extends Error {}
+
+export interface KnowledgeChange extends KnowledgeRevision {
+  itemId: string;
+}
+
+const UNKNOWN_AUTHOR = 'nieznany';
+
+async function loadItem(id: string): Promise<KnowledgeItem> {
+  const existing = await kv.get(`knowledge:${id}`);
+  if (!existing) {
+    throw new KnowledgeNotFoundError('Knowledge item not found');
+  }
+  return { ...asObject<KnowledgeItem>(existing), id };
+}
+
+// Revisions oldest first. Items created before history was kept get their current state as revision 1.
+export async function knowledgeHistory(id: string): Promise<KnowledgeRevision[]> {
+  const stored = await kv.get(`knowledge_history:${id}`);
+  if (stored) {
+    return asObject<KnowledgeRevision[]>(stored);
+  }
+
+  return [initialRevision(await loadItem(id))];
+}
+
+function initialRevision(item: KnowledgeItem): KnowledgeRevision {
+  return {
+    revision: 1,
+    title: item.title,
+    content: item.content,
+    author: item.updatedBy ?? UNKNOWN_AUTHOR,
+    changedAt: item.updatedAt ?? item.createdAt ?? new Date().toISOString(),
+    action: 'created',
+  };
+}
+
+// Revisions of every item in the knowledge base, newest first
+export async function knowledgeChangelog(limit = 20): Promise<KnowledgeChange[]> {
+  const items = await kv.getByPrefix('knowledge:');
+  const histories = new Map(
+    (await kv.getByPrefix('knowledge_history:')).map((entry: any) => [
+      String(entry.key).replace('knowledge_history:', ''),
+      asObject<KnowledgeRevision[]>(entry.value),
+    ])
+  );
+
+  const changes = items.flatMap((entry: any): KnowledgeChange[] => {
+    const itemId = String(entry.key).replace('knowledge:', '');
+    const item = asObject<KnowledgeItem>(entry.value);
+    const history = histories.get(itemId) ?? [initialRevision(item)];
+    return history.map((revision) => ({ ...revision, itemId }));
+  });
+
+  return changes
+    .sort((a, b) => b.changedAt.localeCompare(a.changedAt))
+    .slice(0, limit);
+}
+
+async function saveRevision(item: KnowledgeItem, history: KnowledgeRevision[], revision: KnowledgeRevision) {
+  const saved: KnowledgeItem = {
+    ...item,
+    title: revision.title,
+    content: revision.content,
+    revision: revision.revision,
+    updatedAt: revision.changedAt,
+    updatedBy: revision.author,
+  };
+  await kv.set(`knowledge:${item.id}`, saved);
+  await kv.set(`knowledge_history:${item.id}`, [...history, revision]);
+  return saved;
+}
+
+export async function createKnowledgeItem(input: KnowledgeInput, author?: string): Promise<KnowledgeItem> {
+  const now = new Date().toISOString();
+  const item: KnowledgeItem = {
+    id: `knowledge_${Date.now()}`,
+    title: input.title,
+    content: input.content,
+    createdAt: now,
+  };
+
+  return saveRevision(item, [], {
+    revision: 1,
+    title: input.title,
+    content: input.content,
+    author: author || UNKNOWN_AUTHOR,
+    changedAt: now,
+    action: 'created',
+  });
+}
+
+// Saves a new revision; an edit that changes nothing is not recorded
+export async function updateKnowledgeItem(id: string, input: KnowledgeInput, author?: string): Promise<KnowledgeItem> {
+  const item = await loadItem(id);
+  if (item.title === input.title && item.content === input.content) {
+    return item;
+  }
+
+  const history = await knowledgeHistory(id);
+  return saveRevision(item, history, {
+    revision: history[history.length - 1].revision + 1,
+    title: input.title,
+    content: input.content,
+    author: author || UNKNOWN_AUTHOR,
+    changedAt: new Date().toISOString(),
+    action: 'updated',
+  });
+}
+
+// Restores an earlier revision as a new one, so the revert itself stays in the history
+export async function revertKnowledgeItem(id: string, revision: number, author?: string): Promise<KnowledgeItem> {
+  const item = await loadItem(id);
+  const history = await knowledgeHistory(id);
+  const target = history.find((entry) => entry.revision === revision);
+  if (!target) {
+    throw new KnowledgeNotFoundError(`Revision ${revision} not found`);
+  }
+
+  return saveRevision(item, history, {
+    revision: history[history.length - 1].revision + 1,
+    title: target.title,
+    content: target.content,
+    author: author || UNKNOWN_AUTHOR,
+    changedAt: new Date().toISOString(),
+    action: 'reverted',
+    revertedFrom: revision,
+  });
+}
+
+// Word diff of title and content between two revisions
+export async function diffRevisions(id: string, from: number, to: number) {
+  const history = await knowledgeHistory(id);
+  const before = history.find((entry) => entry.revision === from);
+  const after = history.find((entry) => entry.revision === to);
+  if (!before || !after) {
+    throw new KnowledgeNotFoundError(`Revision ${!before ? from : to} not found`);
+  }
+
+  return {
+    from,
+    to,
+    title: diffWords(before.title, after.title),
+    content: diffWords(before.content, after.content),
+  };
+}
+
+export async function deleteKnowledgeItem(id: string) {
+  await kv.del(`knowledge:${id}`);
+  await kv.del(`knowledge_history:${id}`);
+}
@@ -59,3 +59,30 @@ export const getByPrefix = async (prefix: string): Promise<Array<{ key: string;
 };
 
 
+// Claim stores a pending marker under a key that is not taken yet and returns whether this call got it.
+// A marker older than ttlMs counts as abandoned and is taken over; only the call that removes it may retry.
+export const claim = async (key: string, ttlMs: number): Promise<boolean> => {
+  const supabase = client()
+  const { error } = await supabase.from("kv_store_f77676c4").insert({
+    key,
+    value: { claimedAt: new Date().toISOString() }
+  });
+  if (!error) {
+    return true;
+  }
+  if (error.code !== "23505") {
+    throw new Error(error.message);
+  }
+
+  const existing = await get(key);
+  const claimedAt = existing?.claimedAt;
+  if (typeof claimedAt !== "string" || Date.now() - new Date(claimedAt).getTime() < ttlMs) {
+    return false;
+  }
+  const { data, error: deleteError } = await supabase.from("kv_store_f77676c4").delete()
+    .eq("key", key).eq("value->>claimedAt", claimedAt).select("key");
+  if (deleteError) {
+    throw new Error(deleteError.message);
+  }
+  return data?.length ? claim(key, ttlMs) : false;
+};
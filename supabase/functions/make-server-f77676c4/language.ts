@@ -0,0 +1,59 @@
+import type { Inquiry, ReplyLanguage } from './types.ts';
+
+export const REPLY_LANGUAGES: ReplyLanguage[] = ['pl', 'en', 'de'];
+
+// Most customers write in Polish, so it wins ties and texts with no clue at all
+export const DEFAULT_LANGUAGE: ReplyLanguage = 'pl';
+
+// Short, frequent words that rarely appear in the other two languages
+const STOPWORDS: Record<ReplyLanguage, Set<string>> = {
+  pl: new Set([
+    'i', 'w', 'na', 'nie', 'się', 'jest', 'że', 'do', 'z', 'czy', 'jak', 'dla', 'oraz', 'to', 'mam', 'ile',
+    'kiedy', 'dzień', 'dobry', 'witam', 'pozdrawiam', 'proszę', 'bardzo', 'państwa', 'chciałbym', 'chciałabym',
+    'potrzebuję', 'jaki', 'jaka', 'koszt', 'strona', 'stronę', 'możliwe',
+  ]),
+  en: new Set([
+    'the', 'and', 'is', 'are', 'you', 'we', 'of', 'for', 'with', 'would', 'like', 'please', 'our', 'your',
+    'can', 'what', 'how', 'much', 'hello', 'hi', 'regards', 'thanks', 'thank', 'need', 'looking', 'website',
+    'could', 'does', 'cost',
+  ]),
+  de: new Set([
+    'der', 'die', 'das', 'und', 'ist', 'nicht', 'ich', 'sie', 'wir', 'mit', 'für', 'ein', 'eine', 'zu', 'auf',
+    'wie', 'viel', 'bitte', 'guten', 'tag', 'grüße', 'freundlichen', 'möchten', 'würde', 'unser', 'ihr', 'haben',
+    'kosten', 'webseite', 'können',
+  ]),
+};
+
+// Letters only one of the languages uses count double
+const LETTERS: Partial<Record<ReplyLanguage, RegExp>> = {
+  pl: /[ąćęłńóśźż]/giu,
+  de: /[äöüß]/giu,
+};
+
+// The language a customer wrote in, judged by stopwords and language-specific letters
+export function detectLanguage(text: string): ReplyLanguage {
+  const words = text.toLowerCase().match(/\p{L}+/gu) ?? [];
+  let best = DEFAULT_LANGUAGE;
+  let bestScore = 0;
+
+  for (const language of REPLY_LANGUAGES) {
+    const stopwords = words.filter((word) => STOPWORDS[language].has(word)).length;
+    const letters = LETTERS[language] ? (text.match(LETTERS[language]!) ?? []).length : 0;
+    const score = stopwords + 2 * letters;
+    if (score > bestScore) {
+      best = language;
+      bestScore = score;
+    }
+  }
+
+  return best;
+}
+
+export function isReplyLanguage(value: unknown): value is ReplyLanguage {
+  return REPLY_LANGUAGES.includes(value as ReplyLanguage);
+}
+
+// Inquiries stored before languages were detected were all answered in Polish
+export function languageOf(inquiry: Inquiry): ReplyLanguage {
+  return inquiry.language ?? DEFAULT_LANGUAGE;
+}
@@ -0,0 +1,59 @@
+import nodemailer from 'npm:nodemailer@6.9.16';
+
+// Passed to nodemailer as an address object, which quotes and encodes the display name itself.
+// Plain strings are what replies queued before display names were kept apart look like.
+export type MailAddress = string | { name: string; address: string };
+
+export interface OutgoingMail {
+  from: MailAddress;
+  to: MailAddress;
+  subject: string;
+  text: string;
+  messageId: string;
+  inReplyTo?: string;
+  references?: string[];
+}
+
+let transport: ReturnType<typeof nodemailer.createTransport> | null = null;
+
+// SMTP settings come from the function secrets; a local catcher such as MailHog
+// only needs SMTP_HOST=localhost and SMTP_PORT=1025.
+function getTransport() {
+  if (!transport) {
+    const host = Deno.env.get('SMTP_HOST');
+    if (!host) {
+      throw new Error('SMTP_HOST is not set');
+    }
+    const port = Number(Deno.env.get('SMTP_PORT') ?? 587);
+    const user = Deno.env.get('SMTP_USER');
+
+    transport = nodemailer.createTransport({
+      host,
+      port,
+      secure: Deno.env.get('SMTP_SECURE') === 'true' || port === 465,
+      auth: user ? { user, pass: Deno.env.get('SMTP_PASSWORD') ?? '' } : undefined,
+    });
+  }
+  return transport;
+}
+
+// Builds a Message-ID in the sender's domain, so replies can be matched back to the inquiry
+export function createMessageId(seed: string, fromAddress: string) {
+  const domain = fromAddress.split('@')[1] || 'localhost';
+  return `<${seed}.${Date.now().toString(36)}@${domain}>`;
+}
+
+// Renders the mail as a UTF-8 text/plain MIME message and hands it to the SMTP server
+export async function sendMail(mail: OutgoingMail) {
+  const info = await getTransport().sendMail({
+    from: mail.from,
+    to: mail.to,
+    subject: mail.subject,
+    text: mail.text,
+    messageId: mail.messageId,
+    inReplyTo: mail.inReplyTo,
+    references: mail.references?.length ? mail.references : undefined,
+    textEncoding: 'quoted-printable',
+  });
+  return { messageId: info.messageId as string, response: info.response as string };
+}
@@ -0,0 +1,195 @@
+import * as kv from './kv_store.ts';
+import { asObject } from './utils.ts';
+import { createMessageId, MailAddress, sendMail } from './mailer.ts';
+import { conversationOf, linkMessage } from './inquiries.ts';
+import { statusOf, workflowTransition } from './status.ts';
+import { languageOf } from './language.ts';
+import type { AIConfig, DeliveryState, Inquiry } from './types.ts';
+
+export interface OutboxMessage {
+  id: string;
+  inquiryId: string;
+  from: MailAddress;
+  to: MailAddress;
+  subject: string;
+  text: string;
+  messageId: string;
+  inReplyTo?: string;
+  references: string[];
+  state: DeliveryState;
+  attempts: number;
+  nextAttemptAt: string;
+  lastError?: string;
+  createdAt: string;
+  sentAt?: string;
+}
+
+export const MAX_ATTEMPTS = 5;
+const BASE_BACKOFF_MS = 60 * 1000;
+
+// 1, 2, 4, 8... minutes between attempts
+function backoff(attempts: number) {
+  return BASE_BACKOFF_MS * 2 ** Math.max(0, attempts - 1);
+}
+
+// In-Reply-To points at the customer's latest message, References lists the whole conversation (RFC 5322 3.6.4)
+function threadHeaders(inquiry: Inquiry) {
+  const conversation = conversationOf(inquiry);
+  const lastInbound = [...conversation].reverse().find((message) => message.direction === 'inbound' && message.messageId);
+  const references = [
+    ...(inquiry.references ?? []),
+    ...conversation.map((message) => message.messageId).filter((id): id is string => !!id),
+  ];
+  return { inReplyTo: lastInbound?.messageId, references: [...new Set(references)] };
+}
+
+// Queues the approved reply of an inquiry; re-approving replaces a reply that has not been sent yet
+export async function enqueueReply(inquiry: Inquiry, config: AIConfig): Promise<OutboxMessage> {
+  const reply = inquiry.finalResponse || inquiry.aiSuggestion;
+  if (!reply) {
+    throw new Error('Inquiry has no response to send');
+  }
+  // Drafts are written without a signature; the one for the reply language is added here
+  const signature = config.signatures[languageOf(inquiry)]?.trim();
+  const text = signature ? `${reply}\n\n${signature}` : reply;
+  if (inquiry.delivery?.state === 'sent') {
+    throw new Error('Reply has already been sent');
+  }
+
+  const existing = inquiry.delivery
+    ? asObject<OutboxMessage | null>(await kv.get(`outbox:${inquiry.delivery.outboxId}`))
+    : null;
+
+  const now = new Date().toISOString();
+  const message: OutboxMessage = {
+    id: existing?.id ?? `${inquiry.id}_${Date.now()}`,
+    inquiryId: inquiry.id,
+    from: { name: config.companyName, address: config.contactEmail },
+    to: { name: inquiry.customerName, address: inquiry.email },
+    subject: /^re:/i.test(inquiry.subject) ? inquiry.subject : `Re: ${inquiry.subject}`,
+    text,
+    messageId: existing?.messageId ?? createMessageId(inquiry.id, config.contactEmail),
+    ...threadHeaders(inquiry),
+    state: 'queued',
+    attempts: 0,
+    nextAttemptAt: now,
+    createdAt: now,
+  };
+
+  await kv.set(`outbox:${message.id}`, message);
+  await recordDelivery(message);
+  return message;
+}
+
+// Whether the inquiry still waits for this reply; a follow-up or a reviewer may have replaced it after it was queued
+async function isAwaitedReply(message: OutboxMessage) {
+  if (!await kv.get(`outbox:${message.id}`)) return false;
+  const inquiry = asObject<Inquiry | null>(await kv.get(`inquiry:${message.inquiryId}`));
+  if (!inquiry || inquiry.delivery?.outboxId !== message.id) return false;
+  const status = statusOf(inquiry);
+  return status === 'approved' || status === 'auto_sent';
+}
+
+// Attempts a single delivery and reschedules it with exponential backoff on failure.
+// A reply its inquiry no longer waits for is dropped from the outbox instead.
+export async function deliver(message: OutboxMessage): Promise<OutboxMessage> {
+  if (!await isAwaitedReply(message)) {
+    console.log(`Dropping outdated reply ${message.id} to ${message.inquiryId}`);
+    await kv.del(`outbox:${message.id}`);
+    return message;
+  }
+
+  const now = new Date();
+  try {
+    await sendMail(message);
+    message.state = 'sent';
+    message.sentAt = now.toISOString();
+    message.lastError = undefined;
+  } catch (error) {
+    message.lastError = (error as Error).message;
+    message.state = message.attempts + 1 >= MAX_ATTEMPTS ? 'failed' : 'queued';
+    message.nextAttemptAt = new Date(now.getTime() + backoff(message.attempts + 1)).toISOString();
+    console.log(`Delivery of reply to ${message.inquiryId} failed: ${message.lastError}`);
+  }
+  message.attempts++;
+
+  await kv.set(`outbox:${message.id}`, message);
+  await recordDelivery(message);
+  return message;
+}
+
+// Delivers every queued message that is due
+export async function processOutbox(now = new Date()) {
+  const items = await kv.getByPrefix('outbox:');
+  const due = items
+    .map((item: any) => asObject<OutboxMessage>(item?.value ?? item))
+    .filter((message) => message.state === 'queued' && new Date(message.nextAttemptAt).getTime() <= now.getTime());
+
+  const results: OutboxMessage[] = [];
+  for (const message of due) {
+    results.push(await deliver(message));
+  }
+  return results;
+}
+
+// Puts a failed message back in the queue with a fresh attempt budget
+export async function retryDelivery(inquiryId: string) {
+  const inquiry = asObject<Inquiry | null>(await kv.get(`inquiry:${inquiryId}`));
+  const message = inquiry?.delivery
+    ? asObject<OutboxMessage | null>(await kv.get(`outbox:${inquiry.delivery.outboxId}`))
+    : null;
+  if (!message) {
+    throw new Error('No queued reply for this inquiry');
+  }
+  if (message.state === 'sent') {
+    throw new Error('Reply has already been sent');
+  }
+
+  message.state = 'queued';
+  message.attempts = 0;
+  message.nextAttemptAt = new Date().toISOString();
+  return deliver(message);
+}
+
+// Takes an approved reply that has not been sent out of the outbox, when the inquiry leaves 'approved'
+export async function withdrawReply(inquiry: Inquiry) {
+  if (!inquiry.delivery || inquiry.delivery.state === 'sent') return;
+  await kv.del(`outbox:${inquiry.delivery.outboxId}`);
+  inquiry.delivery = undefined;
+}
+
+// Mirrors the outbox state onto the inquiry so the Dashboard can show it;
+// a sent reply also becomes part of the conversation thread and moves the inquiry to 'sent'
+async function recordDelivery(message: OutboxMessage) {
+  const existing = await kv.get(`inquiry:${message.inquiryId}`);
+  if (!existing) return;
+
+  const inquiry = asObject<Inquiry>(existing);
+  if (message.state === 'sent' && inquiry.delivery?.state !== 'sent') {
+    inquiry.thread = [...(inquiry.thread ?? []), {
+      direction: 'outbound',
+      messageId: message.messageId,
+      from: typeof message.from === 'string' ? message.from : message.from.address,
+      subject: message.subject,
+      text: message.text,
+      timestamp: message.sentAt ?? new Date().toISOString(),
+    }];
+    await linkMessage(message.messageId, inquiry.id);
+
+    const status = statusOf(inquiry);
+    if (status === 'approved' || status === 'auto_sent') {
+      workflowTransition(inquiry, 'sent');
+    }
+  }
+
+  inquiry.delivery = {
+    outboxId: message.id,
+    state: message.state,
+    attempts: message.attempts,
+    messageId: message.messageId,
+    lastError: message.lastError,
+    sentAt: message.sentAt,
+    nextAttemptAt: message.state === 'queued' ? message.nextAttemptAt : undefined,
+  };
+  await kv.set(`inquiry:${message.inquiryId}`, inquiry);
+}
@@ -0,0 +1,150 @@
+import * as kv from './kv_store.ts';
+import { asObject } from './utils.ts';
+import { rankDocuments } from './retrieval.ts';
+import { REPLY_LANGUAGES } from './language.ts';
+import type { PriceListEntry, ReplyLanguage } from './types.ts';
+
+export type PriceListInput = Omit<PriceListEntry, 'id' | 'createdAt' | 'updatedAt'>;
+
+// Thrown for catalogue entries that are incomplete or inconsistent
+export class PriceListValidationError extends Error {}
+
+// Catalogue entries offered to the drafting step
+const PRICE_TOP_K = 3;
+
+const DATE_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+
+// Drops empty names and languages that are not reply languages; Polish is the service name itself
+function validAliases(aliases: PriceListInput['aliases']): PriceListInput['aliases'] {
+  const entries = REPLY_LANGUAGES
+    .filter((language) => language !== 'pl')
+    .map((language) => [language, String(aliases?.[language] ?? '').trim()] as const)
+    .filter(([, name]) => name);
+  return entries.length ? Object.fromEntries(entries) : undefined;
+}
+
+function validate(input: PriceListInput): PriceListInput {
+  const entry: PriceListInput = {
+    service: String(input.service ?? '').trim(),
+    aliases: validAliases(input.aliases),
+    minPrice: Number(input.minPrice),
+    maxPrice: Number(input.maxPrice),
+    unit: String(input.unit ?? '').trim() || 'projekt',
+    minLeadTimeWeeks: input.minLeadTimeWeeks == null ? undefined : Number(input.minLeadTimeWeeks),
+    maxLeadTimeWeeks: input.maxLeadTimeWeeks == null ? undefined : Number(input.maxLeadTimeWeeks),
+    validFrom: input.validFrom || undefined,
+    validTo: input.validTo || undefined,
+  };
+
+  if (!entry.service) {
+    throw new PriceListValidationError('Service name is required');
+  }
+  if (!Number.isFinite(entry.minPrice) || !Number.isFinite(entry.maxPrice) || entry.minPrice < 0) {
+    throw new PriceListValidationError('Prices must be non-negative numbers');
+  }
+  if (entry.maxPrice < entry.minPrice) {
+    throw new PriceListValidationError('Maximum price cannot be lower than the minimum price');
+  }
+  const { minLeadTimeWeeks: minWeeks, maxLeadTimeWeeks: maxWeeks } = entry;
+  if ((minWeeks !== undefined && !(minWeeks > 0)) || (maxWeeks !== undefined && !(maxWeeks > 0))) {
+    throw new PriceListValidationError('Lead time must be a positive number of weeks');
+  }
+  if (minWeeks !== undefined && maxWeeks !== undefined && maxWeeks < minWeeks) {
+    throw new PriceListValidationError('Maximum lead time cannot be shorter than the minimum');
+  }
+  for (const date of [entry.validFrom, entry.validTo]) {
+    if (date && !DATE_PATTERN.test(date)) {
+      throw new PriceListValidationError(`Invalid date: ${date}, expected YYYY-MM-DD`);
+    }
+  }
+  if (entry.validFrom && entry.validTo && entry.validTo < entry.validFrom) {
+    throw new PriceListValidationError('validTo cannot be earlier than validFrom');
+  }
+
+  return entry;
+}
+
+export async function listPrices(): Promise<PriceListEntry[]> {
+  const items = await kv.getByPrefix('price:');
+  return items
+    .map((item: any) => asObject<PriceListEntry>(item?.value ?? item))
+    .sort((a, b) => a.service.localeCompare(b.service, 'pl'));
+}
+
+// Entries whose validity period includes the given day; open-ended bounds always match
+export function isPriceActive(entry: PriceListEntry, now = new Date()) {
+  const today = now.toISOString().slice(0, 10);
+  return (!entry.validFrom || entry.validFrom <= today) && (!entry.validTo || today <= entry.validTo);
+}
+
+// The currently valid entries that best match an inquiry
+export async function relevantPrices(query: string, now = new Date()): Promise<PriceListEntry[]> {
+  const active = (await listPrices()).filter((entry) => isPriceActive(entry, now));
+  return rankDocuments(query, active, (entry) => serviceNames(entry).join('\n'), PRICE_TOP_K).map(({ item }) => item);
+}
+
+// The service name and its aliases
+export function serviceNames(entry: PriceListEntry): string[] {
+  return [entry.service, ...Object.values(entry.aliases ?? {})];
+}
+
+// The name to quote in a reply; undefined when the service has no name in that language
+export function serviceName(entry: PriceListEntry, language: ReplyLanguage): string | undefined {
+  return language === 'pl' ? entry.service : entry.aliases?.[language];
+}
+
+export async function createPrice(input: PriceListInput): Promise<PriceListEntry> {
+  const entry: PriceListEntry = {
+    ...validate(input),
+    id: `price_${Date.now()}`,
+    createdAt: new Date().toISOString(),
+  };
+  await kv.set(`price:${entry.id}`, entry);
+  return entry;
+}
+
+export async function updatePrice(id: string, input: PriceListInput): Promise<PriceListEntry | null> {
+  const existing = await kv.get(`price:${id}`);
+  if (!existing) return null;
+
+  const entry: PriceListEntry = {
+    ...asObject<PriceListEntry>(existing),
+    ...validate(input),
+    id,
+    updatedAt: new Date().toISOString(),
+  };
+  await kv.set(`price:${id}`, entry);
+  return entry;
+}
+
+export async function deletePrice(id: string) {
+  await kv.del(`price:${id}`);
+}
+
+function formatAmount(value: number) {
+  return value.toLocaleString('pl-PL');
+}
+
+// "3000-5000 zł / projekt"; a fixed price is shown as a single amount
+export function formatPriceRange(entry: PriceListEntry) {
+  const amount = entry.minPrice === entry.maxPrice
+    ? formatAmount(entry.minPrice)
+    : `${formatAmount(entry.minPrice)}-${formatAmount(entry.maxPrice)}`;
+  return `${amount} zł / ${entry.unit}`;
+}
+
+const WEEKS: Record<ReplyLanguage, string> = { pl: 'tyg.', en: 'weeks', de: 'Wochen' };
+
+export function formatLeadTime(entry: PriceListEntry, language: ReplyLanguage = 'pl') {
+  const { minLeadTimeWeeks: min, maxLeadTimeWeeks: max } = entry;
+  if (min === undefined && max === undefined) return undefined;
+  if (min === undefined || max === undefined || min === max) return `${min ?? max} ${WEEKS[language]}`;
+  return `${min}-${max} ${WEEKS[language]}`;
+}
+
+// One catalogue line as shown to the model, with the names to use in other reply languages
+export function formatPriceEntry(entry: PriceListEntry) {
+  const leadTime = formatLeadTime(entry);
+  const aliases = Object.entries(entry.aliases ?? {}).map(([language, name]) => `${language}: ${name}`);
+  return `${entry.service}${aliases.length ? ` (${aliases.join(', ')})` : ''}: ${formatPriceRange(entry)}${leadTime ? `, realizacja ${leadTime}` : ''}`;
+}
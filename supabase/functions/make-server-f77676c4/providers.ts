@@ -0,0 +1,565 @@
+import { formatLeadTime, formatPriceEntry, formatPriceRange, serviceName } from './pricing.ts';
+import { formatDate, formatPolishDate } from './availability.ts';
+import { ANSWER_SLOT } from './template.ts';
+import type {
+  AIConfig,
+  DraftTone,
+  Inquiry,
+  KnowledgeItem,
+  PriceListEntry,
+  ProviderName,
+  RejectionReason,
+  ReplyLanguage,
+  ThreadMessage,
+} from './types.ts';
+
+export type InquiryInput = Pick<Inquiry, 'customerName' | 'email' | 'subject' | 'message' | 'category'>;
+
+// An earlier inquiry together with the reply that was approved for it
+export interface SimilarInquiry {
+  subject: string;
+  message: string;
+  reply: string;
+}
+
+// The rejected draft a new version replaces, with the reviewer's reason and instructions
+export interface DraftRevision {
+  previousDraft: string;
+  reason?: RejectionReason;
+  instructions?: string;
+}
+
+// Receives the reply text as the model writes it; aborting the signal stops generation
+export interface DraftStream {
+  onDelta: (text: string) => void;
+  signal?: AbortSignal;
+}
+
+export interface DraftRequest {
+  // `message` holds the latest customer message; earlier ones are in `history`
+  inquiry: InquiryInput;
+  history: ThreadMessage[];
+  // Text extracted from the files the customer sent
+  attachments: { filename: string; text: string }[];
+  knowledge: KnowledgeItem[];
+  // Currently valid catalogue entries matching the inquiry, best first
+  prices: PriceListEntry[];
+  // Dates as YYYY-MM-DD; start dates are quoted from `availableFrom`, never made up
+  today: string;
+  availableFrom: string;
+  similarInquiries: SimilarInquiry[];
+  // The response template with its merge fields filled in; the answer replaces ANSWER_SLOT when it has one
+  template: string;
+  // The reply is written in this language whatever the language of the prompt
+  language: ReplyLanguage;
+  config: AIConfig;
+  revision?: DraftRevision;
+  tone?: DraftTone;
+  stream?: DraftStream;
+}
+
+export interface DraftResult {
+  response: string;
+  // Raw model self-assessment, 0-100
+  confidence: number;
+  provider: ProviderName;
+  model: string;
+}
+
+export interface LLMProvider {
+  name: ProviderName;
+  generateDraft(request: DraftRequest): Promise<DraftResult>;
+}
+
+const DEFAULT_MODELS: Record<ProviderName, string> = {
+  openai: 'gpt-4o-mini',
+  anthropic: 'claude-3-5-haiku-latest',
+  ollama: 'llama3.1',
+  fake: 'fake-deterministic',
+};
+
+export function createProvider(config: AIConfig): LLMProvider {
+  switch (config.provider) {
+    case 'openai':
+      return openAIProvider(config);
+    case 'anthropic':
+      return anthropicProvider(config);
+    case 'ollama':
+      return ollamaProvider(config);
+    case 'fake':
+      return fakeProvider;
+    default:
+      throw new Error(`Unknown AI provider: ${config.provider}`);
+  }
+}
+
+function modelFor(config: AIConfig) {
+  return config.model || DEFAULT_MODELS[config.provider];
+}
+
+const REJECTION_REASONS: Record<RejectionReason, string> = {
+  wrong_information: 'zawierała błędne informacje',
+  missing_information: 'pomijała ważne informacje',
+  tone: 'miała nieodpowiedni ton',
+  too_long: 'była za długa',
+  other: 'nie spełniała oczekiwań',
+};
+
+const TONES: Record<DraftTone, string> = {
+  formal: 'Pisz formalnie i rzeczowo, zwracając się do klienta per Szanowni Państwo.',
+  friendly: 'Pisz ciepło i bezpośrednio, jak w rozmowie z dobrym znajomym firmy.',
+  concise: 'Pisz możliwie krótko: dwa, trzy zdania z samą odpowiedzią na pytanie.',
+  upsell: 'Odpowiedz na pytanie, a następnie zaproponuj usługę dodatkową z bazy wiedzy lub cennika, która może zainteresować klienta.',
+};
+
+const LANGUAGE_NAMES: Record<ReplyLanguage, string> = { pl: 'polskim', en: 'angielskim', de: 'niemieckim' };
+
+function buildPrompt({
+  inquiry, history, attachments, knowledge, prices, today, availableFrom, similarInquiries, template, language, config,
+  revision, tone,
+}: DraftRequest) {
+  const system = [
+    `Jesteś asystentem firmy ${config.companyName}, który przygotowuje szkice odpowiedzi na zapytania klientów.`,
+    'Korzystaj wyłącznie z informacji zawartych w bazie wiedzy; nie wymyślaj cen ani terminów.',
+    'Ceny podawaj wyłącznie z cennika, dokładnie w podanych widełkach; kwot z innych źródeł nie cytuj.',
+    'Jeśli w cenniku nie ma pasującej usługi, nie podawaj kwoty, tylko zaproponuj indywidualną wycenę.',
+    'W odpowiedzi w innym języku niż polski używaj nazw usług podanych w nawiasie dla tego języka;',
+    'gdy usługa nie ma takiej nazwy, opisz ją własnymi słowami zamiast cytować polską nazwę.',
+    `Dzisiaj jest ${formatPolishDate(today)}. Najwcześniejszy możliwy termin rozpoczęcia prac to ${formatDate(availableFrom, language)};`,
+    'podawaj dokładnie tę datę i nie wymieniaj innych miesięcy ani dat rozpoczęcia.',
+    `Jeśli czegoś brakuje, zaproponuj kontakt pod adresem ${config.contactEmail}.`,
+    'Odpowiedz wyłącznie obiektem JSON: {"response": "<treść odpowiedzi>", "confidence": <liczba 0-100>},',
+    'gdzie confidence określa, na ile odpowiedź jest kompletna i zgodna z bazą wiedzy.',
+    `Odpowiedź napisz w języku ${LANGUAGE_NAMES[language]}, niezależnie od języka instrukcji i bazy wiedzy.`,
+    'Nie dodawaj podpisu; zostanie dołączony przy wysyłce.',
+    ...(tone ? [TONES[tone]] : []),
+  ].join('\n');
+
+  const knowledgeText = knowledge.length
+    ? knowledge.map((item) => `## ${item.title}\n${item.content}`).join('\n\n')
+    : '(brak)';
+
+  const priceText = prices.length ? prices.map(formatPriceEntry).join('\n') : '(brak pasujących pozycji)';
+
+  const historyText = similarInquiries.length
+    ? similarInquiries.map((past) => `Temat: ${past.subject}\n${past.message}\nOdpowiedź: ${past.reply}`).join('\n\n')
+    : '(brak)';
+
+  const conversationText = history
+    .map((message) => `[${message.timestamp}] ${message.direction === 'inbound' ? 'Klient' : 'My'}:\n${message.text}`)
+    .join('\n\n');
+
+  const user = [
+    template.includes(ANSWER_SLOT)
+      ? `Szablon odpowiedzi; Twoja odpowiedź zastąpi ${ANSWER_SLOT}, więc nie powtarzaj powitania ani innych zdań szablonu:\n${template}`
+      : `Szablon odpowiedzi:\n${template || '(brak)'}`,
+    `Cennik:\n${priceText}`,
+    `Baza wiedzy:\n${knowledgeText}`,
+    `Zaakceptowane odpowiedzi na podobne zapytania:\n${historyText}`,
+    ...(history.length ? [`Dotychczasowa korespondencja z klientem:\n${conversationText}`] : []),
+    `${history.length ? 'Najnowsza wiadomość klienta' : 'Zapytanie klienta'} (kategoria: ${inquiry.category}):`,
+    `Od: ${inquiry.customerName} <${inquiry.email}>`,
+    `Temat: ${inquiry.subject}`,
+    inquiry.message,
+    ...attachments.map((attachment) => `Załącznik klienta "${attachment.filename}":\n${attachment.text}`),
+    ...(revision ? [
+      `Poprzednia wersja odpowiedzi została odrzucona, ponieważ ${REJECTION_REASONS[revision.reason ?? 'other']}:\n${revision.previousDraft}`,
+      `Przygotuj nową wersję${revision.instructions ? ` zgodnie ze wskazówkami recenzenta: ${revision.instructions}` : ', unikając tych problemów'}.`,
+    ] : []),
+  ].join('\n\n');
+
+  return { system, user };
+}
+
+// Models are asked for JSON but do not always comply, so fall back to the raw text
+function parseDraft(text: string): { response: string; confidence: number } {
+  const match = text.match(/\{[\s\S]*\}/);
+  if (match) {
+    try {
+      const parsed = JSON.parse(match[0]);
+      if (typeof parsed.response === 'string') {
+        const confidence = Number(parsed.confidence);
+        return {
+          response: parsed.response.trim(),
+          confidence: Number.isFinite(confidence) ? Math.max(0, Math.min(100, Math.round(confidence))) : 50,
+        };
+      }
+    } catch (_) {
+      // not JSON, use as-is
+    }
+  }
+  return { response: text.trim(), confidence: 50 };
+}
+
+// The reply text written so far. The model streams a JSON object, so the "response" string is decoded
+// up to the last complete character; a model ignoring the JSON instruction streams plain text.
+export function partialResponse(raw: string): string {
+  const start = raw.match(/"response"\s*:\s*"/);
+  if (!start) {
+    return raw.trimStart().startsWith('{') ? '' : raw.trimStart();
+  }
+
+  const escapes: Record<string, string> = { n: '\n', t: '\t', r: '\r', b: '\b', f: '\f', '"': '"', '\\': '\\', '/': '/' };
+  let text = '';
+  for (let i = start.index! + start[0].length; i < raw.length; i++) {
+    const char = raw[i];
+    if (char === '"') break;
+    if (char !== '\\') {
+      text += char;
+      continue;
+    }
+    const next = raw[i + 1];
+    if (next === undefined) break;
+    if (next === 'u') {
+      const code = raw.slice(i + 2, i + 6);
+      if (code.length < 4) break;
+      text += String.fromCharCode(parseInt(code, 16));
+      i += 5;
+    } else {
+      text += escapes[next] ?? next;
+      i += 1;
+    }
+  }
+  return text;
+}
+
+async function postJSON(url: string, headers: Record<string, string>, body: unknown, signal?: AbortSignal) {
+  const res = await fetch(url, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json', ...headers },
+    body: JSON.stringify(body),
+    signal,
+  });
+  if (!res.ok) {
+    const detail = await res.text().catch(() => '');
+    throw new Error(`${url} responded with ${res.status}: ${detail.slice(0, 300)}`);
+  }
+  return res.json();
+}
+
+// Posts a streaming request and passes the reply text on as it grows. `chunkOf` picks the generated text
+// out of one line of the response body; the whole generated text is returned at the end.
+async function postStream(
+  url: string,
+  headers: Record<string, string>,
+  body: unknown,
+  stream: DraftStream,
+  chunkOf: (line: string) => string,
+) {
+  const res = await fetch(url, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json', ...headers },
+    body: JSON.stringify(body),
+    signal: stream.signal,
+  });
+  if (!res.ok || !res.body) {
+    const detail = await res.text().catch(() => '');
+    throw new Error(`${url} responded with ${res.status}: ${detail.slice(0, 300)}`);
+  }
+
+  const reader = res.body.pipeThrough(new TextDecoderStream()).getReader();
+  let buffer = '';
+  let raw = '';
+  let sent = '';
+  while (true) {
+    const { value, done } = await reader.read();
+    buffer += value ?? '';
+    // The last line is kept until it is complete, unless the body has ended
+    const lines = buffer.split('\n');
+    buffer = done ? '' : lines.pop() ?? '';
+    for (const line of lines) {
+      if (line.trim()) raw += chunkOf(line.trim());
+    }
+    const text = partialResponse(raw);
+    if (text.length > sent.length) {
+      stream.onDelta(text.slice(sent.length));
+      sent = text;
+    }
+    if (done) break;
+  }
+  return raw;
+}
+
+// Server-sent event lines carry JSON after "data: "; anything else is ignored
+function sseData(line: string): any {
+  if (!line.startsWith('data:')) return null;
+  const payload = line.slice(5).trim();
+  if (payload === '[DONE]') return null;
+  try {
+    return JSON.parse(payload);
+  } catch (_) {
+    return null;
+  }
+}
+
+function requireEnv(name: string) {
+  const value = Deno.env.get(name);
+  if (!value) {
+    throw new Error(`${name} is not set`);
+  }
+  return value;
+}
+
+// Any endpoint implementing the OpenAI chat completions API (OpenAI, Azure proxies, vLLM, LM Studio...)
+function openAIProvider(config: AIConfig): LLMProvider {
+  return {
+    name: 'openai',
+    async generateDraft(request) {
+      const { system, user } = buildPrompt(request);
+      const model = modelFor(config);
+      const baseUrl = (config.baseUrl || 'https://api.openai.com/v1').replace(/\/$/, '');
+      const url = `${baseUrl}/chat/completions`;
+      const headers = { Authorization: `Bearer ${requireEnv('OPENAI_API_KEY')}` };
+      const body = {
+        model,
+        temperature: 0.3,
+        response_format: { type: 'json_object' },
+        messages: [
+          { role: 'system', content: system },
+          { role: 'user', content: user },
+        ],
+      };
+      if (request.stream) {
+        const text = await postStream(url, headers, { ...body, stream: true }, request.stream, (line) =>
+          sseData(line)?.choices?.[0]?.delta?.content ?? '');
+        return { ...parseDraft(text), provider: 'openai', model };
+      }
+      const data = await postJSON(url, headers, body);
+      const draft = parseDraft(data?.choices?.[0]?.message?.content ?? '');
+      return { ...draft, provider: 'openai', model };
+    },
+  };
+}
+
+function anthropicProvider(config: AIConfig): LLMProvider {
+  return {
+    name: 'anthropic',
+    async generateDraft(request) {
+      const { system, user } = buildPrompt(request);
+      const model = modelFor(config);
+      const baseUrl = (config.baseUrl || 'https://api.anthropic.com/v1').replace(/\/$/, '');
+      const url = `${baseUrl}/messages`;
+      const headers = {
+        'x-api-key': requireEnv('ANTHROPIC_API_KEY'),
+        'anthropic-version': '2023-06-01',
+      };
+      const body = {
+        model,
+        max_tokens: 1024,
+        temperature: 0.3,
+        system,
+        messages: [{ role: 'user', content: user }],
+      };
+      if (request.stream) {
+        const text = await postStream(url, headers, { ...body, stream: true }, request.stream, (line) => {
+          const event = sseData(line);
+          return event?.type === 'content_block_delta' ? event.delta?.text ?? '' : '';
+        });
+        return { ...parseDraft(text), provider: 'anthropic', model };
+      }
+      const data = await postJSON(url, headers, body);
+      const text = (data?.content ?? [])
+        .filter((block: any) => block?.type === 'text')
+        .map((block: any) => block.text)
+        .join('');
+      const draft = parseDraft(text);
+      return { ...draft, provider: 'anthropic', model };
+    },
+  };
+}
+
+function ollamaProvider(config: AIConfig): LLMProvider {
+  return {
+    name: 'ollama',
+    async generateDraft(request) {
+      const { system, user } = buildPrompt(request);
+      const model = modelFor(config);
+      const baseUrl = (config.baseUrl || 'http://localhost:11434').replace(/\/$/, '');
+      const url = `${baseUrl}/api/chat`;
+      const body = {
+        model,
+        stream: false,
+        format: 'json',
+        options: { temperature: 0.3 },
+        messages: [
+          { role: 'system', content: system },
+          { role: 'user', content: user },
+        ],
+      };
+      // Ollama streams one JSON object per line
+      if (request.stream) {
+        const text = await postStream(url, {}, { ...body, stream: true }, request.stream, (line) => {
+          try {
+            return JSON.parse(line)?.message?.content ?? '';
+          } catch (_) {
+            return '';
+          }
+        });
+        return { ...parseDraft(text), provider: 'ollama', model };
+      }
+      const data = await postJSON(url, {}, body);
+      const draft = parseDraft(data?.message?.content ?? '');
+      return { ...draft, provider: 'ollama', model };
+    },
+  };
+}
+
+// Phrases of the deterministic drafts in each reply language
+// A service without a name in the reply language is described without one
+interface FakePhrases {
+  quote: (service: string | undefined, price: string) => string;
+  customQuote: string;
+  leadTime: (service: string | undefined, time: string) => string;
+  noLeadTime: string;
+  timeline: (duration: string, start: string) => string;
+  services: string;
+  general: (companyName: string) => string;
+  formal: (response: string) => string;
+  friendly: (response: string) => string;
+  upsell: (service: string | undefined, price: string) => string;
+  upsellGeneric: string;
+}
+
+const FAKE_PHRASES: Record<ReplyLanguage, FakePhrases> = {
+  pl: {
+    quote: (service, price) => `Dziękuję za zapytanie o wycenę! Zgodnie z naszym cennikiem usługa${service ? ` „${service}”` : ''} kosztuje ${price}. Oferujemy bezpłatną konsultację, aby dokładnie omówić szczegóły projektu. Czy moglibyśmy umówić się na rozmowę?`,
+    customQuote: 'Dziękuję za zapytanie o wycenę! Przygotujemy indywidualną wycenę dopasowaną do Państwa wymagań. Oferujemy bezpłatną konsultację, aby dokładnie omówić szczegóły projektu. Czy moglibyśmy umówić się na rozmowę?',
+    leadTime: (service, time) => `Przewidywany czas wykonania usługi${service ? ` „${service}”` : ''} to ${time} w zależności od zakresu projektu.`,
+    noLeadTime: 'Czas wykonania zależy od zakresu projektu.',
+    timeline: (duration, start) => `Dziękuję za zapytanie dotyczące czasu realizacji. ${duration} Możemy rozpocząć pracę od ${start}. Czy chcieliby Państwo omówić harmonogram szczegółowo?`,
+    services: 'Dziękuję za zainteresowanie naszymi usługami! Oferujemy kompleksowe rozwiązania, w tym projektowanie stron internetowych, sklepy online, branding i SEO. Chętnie przedstawimy szczegółową ofertę dostosowaną do Państwa potrzeb.',
+    general: (companyName) => `Dziękuję za wiadomość! Cieszę się, że są Państwo zainteresowani współpracą z ${companyName}. Chętnie odpowiem na wszystkie pytania i przedstawię szczegółową propozycję. Czy moglibyśmy umówić się na rozmowę telefoniczną?`,
+    formal: (response) => `Szanowni Państwo,\n\n${response}`,
+    friendly: (response) => `Dzień dobry! ${response} Do usłyszenia!`,
+    upsell: (service, price) => ` Warto też rozważyć usługę${service ? ` „${service}”` : ' dodatkową'} (${price}).`,
+    upsellGeneric: ' Chętnie opowiemy też o naszych usługach SEO i brandingu.',
+  },
+  en: {
+    quote: (service, price) => `Thank you for your pricing inquiry! According to our price list, ${service ? `"${service}"` : 'this service'} costs ${price}. We offer a free consultation to discuss the details of your project. Could we schedule a call?`,
+    customQuote: 'Thank you for your pricing inquiry! We will prepare an individual quote tailored to your requirements. We offer a free consultation to discuss the details of your project. Could we schedule a call?',
+    leadTime: (service, time) => `The expected delivery time for ${service ? `"${service}"` : 'this service'} is ${time}, depending on the project scope.`,
+    noLeadTime: 'The delivery time depends on the project scope.',
+    timeline: (duration, start) => `Thank you for your question about the timeline. ${duration} We can start work on ${start}. Would you like to discuss the schedule in detail?`,
+    services: 'Thank you for your interest in our services! We offer complete solutions, including website design, online shops, branding and SEO. We will gladly prepare a detailed offer tailored to your needs.',
+    general: (companyName) => `Thank you for your message! We are glad you are interested in working with ${companyName}. We will gladly answer all your questions and present a detailed proposal. Could we schedule a phone call?`,
+    formal: (response) => `Dear Sir or Madam,\n\n${response}`,
+    friendly: (response) => `Hi there! ${response} Talk soon!`,
+    upsell: (service, price) => ` You may also want to consider ${service ? `"${service}"` : 'one of our additional services'} (${price}).`,
+    upsellGeneric: ' We would also be happy to tell you about our SEO and branding services.',
+  },
+  de: {
+    quote: (service, price) => `Vielen Dank für Ihre Preisanfrage! Laut unserer Preisliste kostet ${service ? `„${service}“` : 'diese Leistung'} ${price}. Wir bieten eine kostenlose Beratung an, um die Details Ihres Projekts zu besprechen. Können wir einen Gesprächstermin vereinbaren?`,
+    customQuote: 'Vielen Dank für Ihre Preisanfrage! Wir erstellen Ihnen ein individuelles Angebot, das auf Ihre Anforderungen zugeschnitten ist. Wir bieten eine kostenlose Beratung an, um die Details Ihres Projekts zu besprechen. Können wir einen Gesprächstermin vereinbaren?',
+    leadTime: (service, time) => `Die voraussichtliche Umsetzungszeit für ${service ? `„${service}“` : 'diese Leistung'} beträgt ${time}, je nach Projektumfang.`,
+    noLeadTime: 'Die Umsetzungszeit hängt vom Projektumfang ab.',
+    timeline: (duration, start) => `Vielen Dank für Ihre Frage zum Zeitrahmen. ${duration} Wir können am ${start} mit der Arbeit beginnen. Möchten Sie den Zeitplan im Detail besprechen?`,
+    services: 'Vielen Dank für Ihr Interesse an unseren Leistungen! Wir bieten Komplettlösungen an, darunter Webdesign, Onlineshops, Branding und SEO. Gerne erstellen wir Ihnen ein detailliertes Angebot, das auf Ihre Bedürfnisse zugeschnitten ist.',
+    general: (companyName) => `Vielen Dank für Ihre Nachricht! Es freut uns, dass Sie an einer Zusammenarbeit mit ${companyName} interessiert sind. Gerne beantworten wir alle Ihre Fragen und stellen Ihnen einen detaillierten Vorschlag vor. Können wir ein Telefongespräch vereinbaren?`,
+    formal: (response) => `Sehr geehrte Damen und Herren,\n\n${response}`,
+    friendly: (response) => `Hallo! ${response} Bis bald!`,
+    upsell: (service, price) => ` Interessant könnte für Sie auch ${service ? `„${service}“` : 'eine unserer Zusatzleistungen'} sein (${price}).`,
+    upsellGeneric: ' Gerne erzählen wir Ihnen auch mehr über unsere SEO- und Branding-Leistungen.',
+  },
+};
+
+// Keywords in any of the supported languages, since the reply language may differ from the customer's
+const FAKE_KEYWORDS = {
+  pricing: ['cena', 'koszt', 'wycena', 'price', 'cost', 'quote', 'preis', 'kosten', 'angebot'],
+  timeline: ['czas', 'termin', 'realizacja', 'deadline', 'timeline', 'zeit', 'wann', 'dauer'],
+  product: ['usługa', 'produkt', 'offer', 'service', 'product', 'leistung'],
+};
+
+const mentions = (text: string, keywords: string[]) => keywords.some((keyword) => text.includes(keyword));
+
+// Deterministic keyword-based drafts, so the endpoints work without network access or API keys
+export const fakeProvider: LLMProvider = {
+  name: 'fake',
+  async generateDraft({ inquiry, prices, availableFrom, template, language, config, revision, tone, stream }) {
+    const phrases = FAKE_PHRASES[language];
+    let response = '';
+    let confidence = 75;
+
+    const lowerMessage = inquiry.message.toLowerCase();
+
+    if (mentions(lowerMessage, FAKE_KEYWORDS.pricing)) {
+      // Quote the best matching catalogue entry, never an amount of our own
+      const [price] = prices;
+      if (price) {
+        response = phrases.quote(serviceName(price, language), formatPriceRange(price));
+        confidence = 92;
+      } else {
+        response = phrases.customQuote;
+        confidence = 70;
+      }
+    } else if (mentions(lowerMessage, FAKE_KEYWORDS.timeline)) {
+      // Lead time from the catalogue and a start date computed from the team's availability
+      const timed = prices.find((price) => formatLeadTime(price));
+      const duration = timed
+        ? phrases.leadTime(serviceName(timed, language), formatLeadTime(timed, language)!)
+        : phrases.noLeadTime;
+      response = phrases.timeline(duration, formatDate(availableFrom, language));
+      confidence = 88;
+    } else if (mentions(lowerMessage, FAKE_KEYWORDS.product)) {
+      response = phrases.services;
+      confidence = 85;
+    } else {
+      response = phrases.general(config.companyName);
+      confidence = 78;
+    }
+
+    // A reviewer who rejected a long draft gets the first two sentences
+    const instructions = revision?.instructions?.toLowerCase() ?? '';
+    if (revision?.reason === 'too_long' || /krócej|krótsz|shorter|kürzer/.test(instructions)) {
+      response = firstSentences(response, 2);
+    }
+
+    response = applyFakeTone(response, prices, phrases, language, tone, template.includes(ANSWER_SLOT));
+    if (stream) {
+      await streamWords(response, stream);
+    }
+
+    return { response, confidence, provider: 'fake', model: DEFAULT_MODELS.fake };
+  },
+};
+
+const firstSentences = (text: string, count: number) =>
+  (text.match(/[^.!?]+[.!?]/g) ?? [text]).slice(0, count).join('').trim();
+
+// A template with an answer slot brings its own greeting, so the formal and friendly tones add none
+function applyFakeTone(
+  response: string,
+  prices: PriceListEntry[],
+  phrases: FakePhrases,
+  language: ReplyLanguage,
+  tone?: DraftTone,
+  framed = false,
+) {
+  switch (tone) {
+    case 'formal':
+      return framed ? response : phrases.formal(response);
+    case 'friendly':
+      return framed ? response : phrases.friendly(response);
+    case 'concise':
+      return firstSentences(response, 2);
+    case 'upsell': {
+      const extra = prices[1] ?? prices[0];
+      return extra
+        ? `${response}${phrases.upsell(serviceName(extra, language), formatPriceRange(extra))}`
+        : `${response}${phrases.upsellGeneric}`;
+    }
+    default:
+      return response;
+  }
+}
+
+const FAKE_WORD_DELAY_MS = 30;
+
+// Emits the draft word by word, like a model writing it
+async function streamWords(text: string, stream: DraftStream) {
+  for (const word of text.match(/\S+\s*/g) ?? []) {
+    stream.signal?.throwIfAborted();
+    stream.onDelta(word);
+    await new Promise((resolve) => setTimeout(resolve, FAKE_WORD_DELAY_MS));
+  }
+  stream.signal?.throwIfAborted();
+}
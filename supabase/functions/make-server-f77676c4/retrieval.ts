@@ -0,0 +1,131 @@
+import type { KnowledgeItem } from './types.ts';
+
+// Number of knowledge items passed to the drafting step
+export const DEFAULT_TOP_K = 3;
+
+// BM25 parameters (standard Okapi defaults)
+const K1 = 1.2;
+const B = 0.75;
+
+// Stop-words are stored folded (without diacritics), like the tokens they are compared against.
+// Greetings and courtesy phrases are included because every inquiry contains them; English and German
+// ones follow, as customers also write in those languages.
+const STOP_WORDS = new Set([
+  'a', 'aby', 'ach', 'ale', 'az', 'bardzo', 'bez', 'bo', 'by', 'byc', 'byl', 'byla', 'bylo', 'bym', 'chce',
+  'chcialabym', 'chcialbym', 'chcielibysmy', 'co', 'czesc', 'czy', 'dla', 'do', 'dobry', 'dzien', 'gdy',
+  'go', 'i', 'ich', 'ile', 'im', 'ja', 'jak', 'jaka', 'jaki', 'jakie', 'jakis', 'je', 'jego', 'jej', 'jest',
+  'jestem', 'jestesmy', 'jesli', 'juz', 'ktora', 'ktore', 'ktory', 'ktorych', 'lub', 'ma', 'mam', 'mamy',
+  'mi', 'mnie', 'moj', 'moja', 'moze', 'mozna', 'na', 'nad', 'nam', 'nas', 'nasz', 'nasza', 'nasze', 'naszej',
+  'nie', 'o', 'od', 'oraz', 'po', 'pod', 'pozdrawiam', 'prosze', 'przez', 'przy', 'panstwa', 'panstwo', 'sa',
+  'sie', 'so', 'ta', 'tak', 'takze', 'te', 'tego', 'tej', 'ten', 'to', 'tu', 'tez', 'w', 'we', 'witam', 'z',
+  'za', 'ze', 'zeby',
+  // English
+  'an', 'and', 'are', 'be', 'can', 'could', 'dear', 'does', 'for', 'from', 'hello', 'hi', 'in', 'is', 'it',
+  'me', 'my', 'of', 'on', 'or', 'our', 'please', 'regards', 'thank', 'thanks', 'the', 'this', 'we', 'with', 'would',
+  'you', 'your',
+  // German
+  'bitte', 'das', 'dem', 'den', 'der', 'die', 'ein', 'eine', 'einen', 'es', 'für', 'grüße', 'guten', 'hallo', 'ich',
+  'ihr', 'ihre', 'ist', 'mit', 'sie', 'tag', 'und', 'uns', 'unser', 'unsere', 'wir', 'zu',
+]);
+
+// Inflectional endings of a light Polish stemmer, longest first, in folded form
+const SUFFIXES = [
+  'osciami', 'osciach', 'owania', 'owanie', 'owaniu', 'ego', 'emu', 'ymi', 'imi', 'iej', 'ych', 'ich', 'ami',
+  'ach', 'owi', 'osc', 'osci', 'ow', 'om', 'ym', 'im', 'ej', 'em', 'ie', 'ia', 'iu', 'a', 'e', 'i', 'o', 'u', 'y',
+].sort((a, b) => b.length - a.length);
+
+const MIN_STEM_LENGTH = 3;
+
+const DIACRITICS: Record<string, string> = {
+  'ą': 'a', 'ć': 'c', 'ę': 'e', 'ł': 'l', 'ń': 'n', 'ó': 'o', 'ś': 's', 'ź': 'z', 'ż': 'z',
+};
+
+function fold(text: string) {
+  return text.toLowerCase().replace(/[ąćęłńóśźż]/g, (ch) => DIACRITICS[ch]);
+}
+
+export function stemPolish(word: string) {
+  for (const suffix of SUFFIXES) {
+    if (word.endsWith(suffix) && word.length - suffix.length >= MIN_STEM_LENGTH) {
+      return word.slice(0, -suffix.length);
+    }
+  }
+  return word;
+}
+
+export function tokenize(text: string): string[] {
+  return (fold(text).match(/[\p{L}\p{N}]+/gu) ?? [])
+    .filter((token) => token.length > 1 && !STOP_WORDS.has(token))
+    .map(stemPolish);
+}
+
+export interface Ranked<T> {
+  item: T;
+  score: number;
+}
+
+// Ranks documents against a free-text query with BM25 and returns the best `topK` with a positive score
+export function rankDocuments<T>(query: string, items: T[], toText: (item: T) => string, topK = DEFAULT_TOP_K): Ranked<T>[] {
+  const queryTerms = [...new Set(tokenize(query))];
+  if (queryTerms.length === 0 || items.length === 0) return [];
+
+  const docs = items.map((item) => tokenize(toText(item)));
+  const avgLength = docs.reduce((sum, doc) => sum + doc.length, 0) / docs.length || 1;
+
+  const documentFrequency = new Map<string, number>();
+  for (const doc of docs) {
+    for (const term of new Set(doc)) {
+      documentFrequency.set(term, (documentFrequency.get(term) ?? 0) + 1);
+    }
+  }
+
+  const ranked = docs.map((doc, index) => {
+    const termFrequency = new Map<string, number>();
+    for (const term of doc) {
+      termFrequency.set(term, (termFrequency.get(term) ?? 0) + 1);
+    }
+
+    let score = 0;
+    for (const term of queryTerms) {
+      const tf = termFrequency.get(term);
+      if (!tf) continue;
+      const df = documentFrequency.get(term) ?? 0;
+      const idf = Math.log(1 + (docs.length - df + 0.5) / (df + 0.5));
+      score += idf * ((tf * (K1 + 1)) / (tf + K1 * (1 - B + B * (doc.length / avgLength))));
+    }
+    return { item: items[index], score };
+  });
+
+  return ranked
+    .filter((entry) => entry.score > 0)
+    .sort((a, b) => b.score - a.score)
+    .slice(0, topK);
+}
+
+// Titles are short and descriptive, so they are counted twice
+export function rankKnowledge(query: string, items: KnowledgeItem[], topK = DEFAULT_TOP_K): Ranked<KnowledgeItem>[] {
+  return rankDocuments(query, items, (item) => `${item.title} ${item.title} ${item.content}`, topK);
+}
+
+const SNIPPET_LENGTH = 160;
+
+// Picks the line or sentence of `text` sharing the most terms with the query
+export function bestSnippet(query: string, text: string) {
+  const queryTerms = new Set(tokenize(query));
+  const fragments = text
+    .split(/\n+|(?<=[.!?])\s+/)
+    .map((fragment) => fragment.trim())
+    .filter(Boolean);
+
+  let best = fragments[0] ?? '';
+  let bestScore = 0;
+  for (const fragment of fragments) {
+    const score = tokenize(fragment).filter((term) => queryTerms.has(term)).length;
+    if (score > bestScore) {
+      best = fragment;
+      bestScore = score;
+    }
+  }
+
+  return best.length > SNIPPET_LENGTH ? `${best.slice(0, SNIPPET_LENGTH - 1).trimEnd()}…` : best;
+}
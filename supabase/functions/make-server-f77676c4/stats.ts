@@ -0,0 +1,169 @@
+import { CATEGORIES } from './classifier.ts';
+import { decisionOf } from './status.ts';
+import type { DraftTone, Inquiry, InquiryCategory } from './types.ts';
+
+export type StatsPeriod = 'day' | 'week' | 'month';
+export const STATS_PERIODS: StatsPeriod[] = ['day', 'week', 'month'];
+
+export interface StatsQuery {
+  // Inclusive YYYY-MM-DD bounds on the day an inquiry was received
+  from?: string;
+  to?: string;
+  groupBy: StatsPeriod;
+}
+
+export interface StatsBucket {
+  total: number;
+  pending: number;
+  autoSent: number;
+  approvedUnchanged: number;
+  approvedEdited: number;
+  rejected: number;
+  // Share of reviewed inquiries (approved or rejected) that were approved, in percent
+  approvalRate: number | null;
+  // Share of approved replies sent without changes, in percent
+  unchangedRate: number | null;
+  // Mean word edit distance of the edited replies
+  meanEditDistance: number | null;
+  meanConfidence: number | null;
+  // Mean hours from receiving an inquiry to the first reply actually sent
+  meanFirstResponseHours: number | null;
+}
+
+const HOUR_MS = 60 * 60 * 1000;
+
+type Outcome = 'pending' | 'autoSent' | 'approvedUnchanged' | 'approvedEdited' | 'rejected';
+
+function outcomeOf(inquiry: Inquiry): Outcome {
+  switch (decisionOf(inquiry)) {
+    case 'approved': {
+      const edited = !!inquiry.finalResponse && inquiry.finalResponse.trim() !== (inquiry.aiSuggestion ?? '').trim();
+      return edited ? 'approvedEdited' : 'approvedUnchanged';
+    }
+    case 'rejected':
+      return 'rejected';
+    case 'auto_sent':
+      return 'autoSent';
+    default:
+      return 'pending';
+  }
+}
+
+// When the first reply left the outbox; replies that were never delivered do not count
+function firstResponseAt(inquiry: Inquiry) {
+  const sent = (inquiry.thread ?? [])
+    .filter((message) => message.direction === 'outbound' && message.timestamp >= inquiry.timestamp)
+    .map((message) => message.timestamp);
+  if (inquiry.delivery?.sentAt) sent.push(inquiry.delivery.sentAt);
+  return sent.sort()[0];
+}
+
+const percent = (part: number, whole: number) => whole ? Math.round((part / whole) * 100) : null;
+
+function mean(values: number[]) {
+  return values.length ? Math.round((values.reduce((sum, value) => sum + value, 0) / values.length) * 10) / 10 : null;
+}
+
+function bucketOf(inquiries: Inquiry[]): StatsBucket {
+  const counts: Record<Outcome, number> = { pending: 0, autoSent: 0, approvedUnchanged: 0, approvedEdited: 0, rejected: 0 };
+  const distances: number[] = [];
+  const confidences: number[] = [];
+  const responseHours: number[] = [];
+
+  for (const inquiry of inquiries) {
+    const outcome = outcomeOf(inquiry);
+    counts[outcome]++;
+    if (outcome === 'approvedEdited' && inquiry.edit) {
+      distances.push(inquiry.edit.distance);
+    }
+    if (typeof inquiry.confidence === 'number') {
+      confidences.push(inquiry.confidence);
+    }
+    const respondedAt = firstResponseAt(inquiry);
+    if (respondedAt) {
+      responseHours.push((Date.parse(respondedAt) - Date.parse(inquiry.timestamp)) / HOUR_MS);
+    }
+  }
+
+  const approved = counts.approvedUnchanged + counts.approvedEdited;
+  return {
+    total: inquiries.length,
+    ...counts,
+    approvalRate: percent(approved, approved + counts.rejected),
+    unchangedRate: percent(counts.approvedUnchanged, approved),
+    meanEditDistance: mean(distances),
+    meanConfidence: mean(confidences),
+    meanFirstResponseHours: mean(responseHours),
+  };
+}
+
+// Day (YYYY-MM-DD), Monday of the ISO week, or month (YYYY-MM) an inquiry falls into, in UTC
+export function periodKey(timestamp: string, groupBy: StatsPeriod) {
+  const date = new Date(timestamp);
+  if (groupBy === 'month') {
+    return date.toISOString().slice(0, 7);
+  }
+  if (groupBy === 'week') {
+    const daysSinceMonday = (date.getUTCDay() + 6) % 7;
+    date.setUTCDate(date.getUTCDate() - daysSinceMonday);
+  }
+  return date.toISOString().slice(0, 10);
+}
+
+// Keys of every period from the one containing day `start` to the one containing day `end`
+function periodKeys(start: string, end: string, groupBy: StatsPeriod) {
+  const first = periodKey(start, groupBy);
+  const last = periodKey(end, groupBy);
+  const date = new Date(`${groupBy === 'month' ? `${first}-01` : first}T00:00:00Z`);
+  const keys: string[] = [];
+
+  for (let key = first; key <= last; key = periodKey(date.toISOString(), groupBy)) {
+    keys.push(key);
+    if (groupBy === 'month') {
+      date.setUTCMonth(date.getUTCMonth() + 1);
+    } else {
+      date.setUTCDate(date.getUTCDate() + (groupBy === 'week' ? 7 : 1));
+    }
+  }
+  return keys;
+}
+
+function groupBy<K extends string>(inquiries: Inquiry[], key: (inquiry: Inquiry) => K) {
+  const groups = new Map<K, Inquiry[]>();
+  for (const inquiry of inquiries) {
+    const group = key(inquiry);
+    groups.set(group, [...(groups.get(group) ?? []), inquiry]);
+  }
+  return groups;
+}
+
+// Statistics computed from the inquiry records: overall, per category, per chosen draft tone and per period
+export function computeStats(inquiries: Inquiry[], query: StatsQuery) {
+  const inRange = inquiries.filter((inquiry) => {
+    const day = inquiry.timestamp.slice(0, 10);
+    return (!query.from || day >= query.from) && (!query.to || day <= query.to);
+  });
+
+  const byCategory = groupBy(inRange, (inquiry) => inquiry.category);
+  const byTone = groupBy(inRange.filter((inquiry) => inquiry.tone), (inquiry) => inquiry.tone!);
+  const byPeriod = groupBy(inRange, (inquiry) => periodKey(inquiry.timestamp, query.groupBy));
+
+  // Periods without inquiries are reported as empty so charts show the gaps
+  const days = inRange.map((inquiry) => inquiry.timestamp.slice(0, 10)).sort();
+  const start = query.from ?? days[0];
+  const end = query.to ?? days[days.length - 1];
+  const periods = start && end ? periodKeys(start, end, query.groupBy) : [];
+
+  return {
+    range: { from: query.from ?? null, to: query.to ?? null, groupBy: query.groupBy },
+    totals: bucketOf(inRange),
+    byCategory: Object.fromEntries(
+      CATEGORIES.map((category) => [category, bucketOf(byCategory.get(category) ?? [])])
+    ) as Record<InquiryCategory, StatsBucket>,
+    // Only tones reviewers have picked appear here
+    byTone: Object.fromEntries(
+      [...byTone].map(([tone, group]) => [tone, bucketOf(group)])
+    ) as Partial<Record<DraftTone, StatsBucket>>,
+    byPeriod: periods.map((period) => ({ period, ...bucketOf(byPeriod.get(period) ?? []) })),
+  };
+}
@@ -0,0 +1,95 @@
+import type { Inquiry, InquiryStatus, StatusTransition, TransitionNoteCode } from './types.ts';
+
+export const INQUIRY_STATUSES: InquiryStatus[] = [
+  'new', 'pending_review', 'needs_info', 'approved', 'sent', 'auto_sent', 'rejected', 'spam', 'closed', 'reopened',
+];
+
+export const SYSTEM_ACTOR = 'system';
+// Recorded when a reviewer did not give their name
+export const UNKNOWN_ACTOR = 'nieznany';
+
+// Thrown for a move the state machine does not allow from the inquiry's current status
+export class IllegalTransitionError extends Error {}
+
+// `review` moves are the ones a reviewer picks in the Dashboard; `workflow` moves are made by drafting,
+// automatic sending, delivery, cancelling an automatic reply and customer follow-ups
+const TRANSITIONS: Record<InquiryStatus, { review: InquiryStatus[]; workflow: InquiryStatus[] }> = {
+  new: { review: ['needs_info', 'rejected', 'spam', 'closed'], workflow: ['pending_review', 'auto_sent'] },
+  pending_review: { review: ['approved', 'needs_info', 'rejected', 'spam', 'closed'], workflow: ['auto_sent'] },
+  needs_info: { review: ['pending_review', 'rejected', 'spam', 'closed'], workflow: ['pending_review', 'auto_sent'] },
+  // Approving again replaces a reply that has not been sent yet; a reply that cannot be delivered
+  // can be sent back for review, rejected or closed
+  approved: { review: ['approved', 'pending_review', 'rejected', 'closed'], workflow: ['sent', 'pending_review'] },
+  auto_sent: { review: [], workflow: ['sent', 'pending_review'] },
+  sent: { review: ['closed', 'reopened'], workflow: ['reopened'] },
+  // A rejected draft can be regenerated with the reviewer's guidance
+  rejected: { review: ['reopened', 'closed'], workflow: ['reopened', 'pending_review'] },
+  spam: { review: ['reopened'], workflow: [] },
+  closed: { review: ['reopened'], workflow: ['reopened'] },
+  reopened: {
+    review: ['pending_review', 'needs_info', 'approved', 'rejected', 'spam', 'closed'],
+    workflow: ['pending_review', 'auto_sent'],
+  },
+};
+
+// Records stored before the state machine used 'pending' for drafts awaiting review
+export function statusOf(inquiry: Inquiry): InquiryStatus {
+  return (inquiry.status as string) === 'pending' ? 'pending_review' : inquiry.status;
+}
+
+export function isInquiryStatus(value: unknown): value is InquiryStatus {
+  return INQUIRY_STATUSES.includes(value as InquiryStatus);
+}
+
+export function reviewTransitionTable(): Record<InquiryStatus, InquiryStatus[]> {
+  return Object.fromEntries(
+    INQUIRY_STATUSES.map((status) => [status, TRANSITIONS[status].review])
+  ) as Record<InquiryStatus, InquiryStatus[]>;
+}
+
+function record(inquiry: Inquiry, to: InquiryStatus, actor: string, note: Pick<StatusTransition, 'note' | 'noteCode'>) {
+  const transition: StatusTransition = { from: statusOf(inquiry), to, actor, at: new Date().toISOString(), ...note };
+  inquiry.statusHistory = [...(inquiry.statusHistory ?? []), transition];
+  inquiry.status = to;
+  inquiry.updatedAt = transition.at;
+}
+
+// A reviewer's status change; throws IllegalTransitionError when it is not allowed from the current status
+export function reviewTransition(inquiry: Inquiry, to: InquiryStatus, actor: string, note?: string) {
+  const from = statusOf(inquiry);
+  if (!TRANSITIONS[from].review.includes(to)) {
+    throw new IllegalTransitionError(`Cannot change status from ${from} to ${to}`);
+  }
+  record(inquiry, to, actor, { note });
+}
+
+// A status change made by the system or on a reviewer's behalf outside the status route.
+// Staying in the same status is not recorded.
+export function workflowTransition(inquiry: Inquiry, to: InquiryStatus, actor = SYSTEM_ACTOR, noteCode?: TransitionNoteCode) {
+  const from = statusOf(inquiry);
+  if (from === to) return;
+  if (!TRANSITIONS[from].workflow.includes(to)) {
+    throw new IllegalTransitionError(`Cannot change status from ${from} to ${to}`);
+  }
+  record(inquiry, to, actor, { noteCode });
+}
+
+const isDecision = (status: InquiryStatus): status is 'approved' | 'rejected' | 'auto_sent' =>
+  status === 'approved' || status === 'rejected' || status === 'auto_sent';
+
+// What happened to the current draft: approved or rejected by a reviewer, sent automatically, or nothing yet.
+// A new draft (pending_review) or a reopened inquiry starts over.
+export function decisionOf(inquiry: Inquiry): 'approved' | 'rejected' | 'auto_sent' | null {
+  const history = inquiry.statusHistory ?? [];
+  if (!history.length) {
+    const status = statusOf(inquiry);
+    return isDecision(status) ? status : null;
+  }
+
+  for (const { to } of [...history].reverse()) {
+    if (isDecision(to)) return to;
+    if (to === 'pending_review' || to === 'reopened') return null;
+  }
+  // History kept only since the state machine was introduced starts after the decision
+  return isDecision(history[0].from) ? history[0].from : null;
+}
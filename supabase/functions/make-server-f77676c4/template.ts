@@ -0,0 +1,334 @@
+import { formatPriceRange, isPriceActive, listPrices, serviceNames } from './pricing.ts';
+import { formatDate } from './availability.ts';
+import { languageOf } from './language.ts';
+import type { AIConfig, Inquiry, InquiryCategory, PriceListEntry, ReplyLanguage } from './types.ts';
+
+// Thrown for templates that cannot be parsed or use fields the engine does not know
+export class TemplateError extends Error {}
+
+// Merge fields a response template may use, with the arguments each one takes
+export const TEMPLATE_FIELDS: Record<string, string[]> = {
+  greeting: [],
+  customerName: [],
+  firstName: [],
+  companyName: [],
+  contactEmail: [],
+  category: [],
+  subject: [],
+  availableFrom: [],
+  priceRange: ['service'],
+  answer: [],
+};
+
+// Where the drafted answer goes; templates without it only guide the model
+export const ANSWER_SLOT = '{{answer}}';
+
+// Everything a template is rendered against, for one inquiry in its reply language
+export interface TemplateContext {
+  customerName: string;
+  companyName: string;
+  contactEmail: string;
+  category: InquiryCategory;
+  subject: string;
+  // YYYY-MM-DD
+  availableFrom: string;
+  language: ReplyLanguage;
+  // Currently valid catalogue entries, looked up by service name or alias
+  prices: PriceListEntry[];
+}
+
+interface Tag {
+  name: string;
+  args: Record<string, string>;
+  // Set for conditions comparing the field with a value, as in {{#if category="pricing"}}
+  equals?: string;
+}
+
+type TemplateNode =
+  | { type: 'text'; text: string }
+  | { type: 'field'; tag: Tag }
+  | { type: 'if'; tag: Tag; then: TemplateNode[]; otherwise: TemplateNode[] };
+
+const TAG_PATTERN = /\{\{(.*?)\}\}/gs;
+
+// `name` or `name="value"`, separated by whitespace
+function parseTag(body: string): Tag {
+  const tokens = [...body.matchAll(/\s*([A-Za-z]\w*)(?:="([^"]*)")?\s*/gy)];
+  if (!tokens.length || tokens.reduce((length, token) => length + token[0].length, 0) !== body.length) {
+    throw new TemplateError(`Malformed tag: {{${body}}}`);
+  }
+
+  const [[, name, equals], ...rest] = tokens;
+  const args: Record<string, string> = {};
+  for (const [, key, value] of rest) {
+    if (value === undefined) {
+      throw new TemplateError(`Argument ${key} of {{${name}}} needs a quoted value`);
+    }
+    args[key] = value;
+  }
+  return { name, args, equals };
+}
+
+function parse(source: string): TemplateNode[] {
+  const root: TemplateNode[] = [];
+  // Open conditionals, innermost last; text is appended to the branch being read
+  const stack: { node: Extract<TemplateNode, { type: 'if' }>; inElse: boolean }[] = [];
+  const current = () => {
+    const open = stack[stack.length - 1];
+    return open ? (open.inElse ? open.node.otherwise : open.node.then) : root;
+  };
+  const text = (value: string) => {
+    if (value.includes('{{')) {
+      throw new TemplateError('Unclosed tag: missing }}');
+    }
+    if (value) current().push({ type: 'text', text: value });
+  };
+
+  let position = 0;
+  for (const match of source.matchAll(TAG_PATTERN)) {
+    text(source.slice(position, match.index));
+    position = match.index! + match[0].length;
+
+    const body = match[1].trim();
+    if (body.startsWith('#if')) {
+      const node = { type: 'if' as const, tag: parseTag(body.slice(3).trim()), then: [], otherwise: [] };
+      current().push(node);
+      stack.push({ node, inElse: false });
+    } else if (body === 'else') {
+      const open = stack[stack.length - 1];
+      if (!open) {
+        throw new TemplateError('{{else}} outside of {{#if}}');
+      }
+      if (open.inElse) {
+        throw new TemplateError(`{{#if ${open.node.tag.name}}} has more than one {{else}}`);
+      }
+      open.inElse = true;
+    } else if (body === '/if') {
+      if (!stack.pop()) {
+        throw new TemplateError('{{/if}} without a matching {{#if}}');
+      }
+    } else {
+      const tag = parseTag(body);
+      if (tag.equals !== undefined) {
+        throw new TemplateError(`Comparisons like {{${body}}} belong in {{#if}}`);
+      }
+      current().push({ type: 'field', tag });
+    }
+  }
+  text(source.slice(position));
+
+  if (stack.length) {
+    throw new TemplateError(`{{#if ${stack[stack.length - 1].node.tag.name}}} is never closed with {{/if}}`);
+  }
+  return root;
+}
+
+function tagsOf(nodes: TemplateNode[]): Tag[] {
+  return nodes.flatMap((node) => {
+    switch (node.type) {
+      case 'text':
+        return [];
+      case 'field':
+        return [node.tag];
+      case 'if':
+        return [node.tag, ...tagsOf(node.then), ...tagsOf(node.otherwise)];
+    }
+  });
+}
+
+function check(nodes: TemplateNode[]) {
+  const tags = tagsOf(nodes);
+
+  const unknown = [...new Set(tags.map((tag) => tag.name).filter((name) => !(name in TEMPLATE_FIELDS)))];
+  if (unknown.length) {
+    throw new TemplateError(`Unknown template fields: ${unknown.join(', ')}`);
+  }
+  for (const tag of tags) {
+    const allowed = TEMPLATE_FIELDS[tag.name];
+    const extra = Object.keys(tag.args).filter((key) => !allowed.includes(key));
+    if (extra.length) {
+      throw new TemplateError(`Unknown arguments of {{${tag.name}}}: ${extra.join(', ')}`);
+    }
+    const missing = allowed.filter((key) => !(key in tag.args));
+    if (missing.length) {
+      throw new TemplateError(`{{${tag.name}}} needs ${missing.map((key) => `${key}="..."`).join(' ')}`);
+    }
+  }
+  if (tags.filter((tag) => tag.name === 'answer').length > 1) {
+    throw new TemplateError('{{answer}} can appear only once');
+  }
+}
+
+// Returns an error message for a template that would not render, or null
+export function validateTemplate(source: string): string | null {
+  try {
+    check(parse(source));
+    return null;
+  } catch (error) {
+    if (error instanceof TemplateError) return error.message;
+    throw error;
+  }
+}
+
+const CATEGORY_NAMES: Record<ReplyLanguage, Record<InquiryCategory, string>> = {
+  pl: { pricing: 'wycena', timeline: 'termin realizacji', product: 'oferta', general: 'zapytanie ogólne' },
+  en: { pricing: 'pricing', timeline: 'timeline', product: 'services', general: 'general inquiry' },
+  de: { pricing: 'Preisanfrage', timeline: 'Zeitrahmen', product: 'Leistungen', general: 'allgemeine Anfrage' },
+};
+
+// Words that show a sender name belongs to a company or a shared mailbox rather than a person
+const NON_PERSON_WORDS = new Set([
+  'biuro', 'firma', 'zespół', 'dział', 'sklep', 'studio', 'kontakt', 'info', 'office', 'team', 'sales', 'support',
+]);
+
+// First and last name when the sender name looks like a person's, e.g. "Anna Nowak"
+function personName(customerName: string): { first: string; last?: string } | null {
+  const words = customerName.trim().split(/\s+/);
+  if (words.length > 3 || !words.every((word) => /^\p{Lu}[\p{Ll}'-]+$/u.test(word))) return null;
+  if (words.some((word) => NON_PERSON_WORDS.has(word.toLowerCase()))) return null;
+  return { first: words[0], last: words.length > 1 ? words[words.length - 1] : undefined };
+}
+
+// Exceptions to the rule that Polish female first names end in -a and male ones do not
+const MALE_NAMES_ENDING_IN_A = new Set(['kuba', 'barnaba', 'bonawentura', 'kosma', 'jarema', 'dyzma', 'zawisza']);
+const FEMALE_NAMES_NOT_ENDING_IN_A = new Set([
+  'beatrycze', 'miriam', 'noemi', 'ruth', 'rut', 'nicole', 'abigail', 'karmen', 'dagmar', 'ingrid',
+]);
+
+function isFemaleName(first: string) {
+  const name = first.toLowerCase();
+  return name.endsWith('a') ? !MALE_NAMES_ENDING_IN_A.has(name) : FEMALE_NAMES_NOT_ENDING_IN_A.has(name);
+}
+
+// Endings of male first names and their vocative forms, first match wins:
+// Marek → Marku, Paweł → Pawle, Michał → Michale, Kacper → Kacprze, Tomasz → Tomaszu, Piotr → Piotrze,
+// August → Auguście, Robert → Robercie, Dawid → Dawidzie, Jan → Janie; Jerzy and Antoni do not change
+const MALE_VOCATIVE: [RegExp, string][] = [
+  [/a$/, 'o'],
+  [/([eioy])$/, '$1'],
+  [/ek$/, 'ku'],
+  [/eł$/, 'le'],
+  [/ł$/, 'le'],
+  [/([^aeiouy])er$/, '$1rze'],
+  [/(rz|sz|cz|ż|j|l|k|g|ch|h|c)$/, '$1u'],
+  [/r$/, 'rze'],
+  [/st$/, 'ście'],
+  [/t$/, 'cie'],
+  [/d$/, 'dzie'],
+  [/([nmfwbpsz])$/, '$1ie'],
+];
+
+// Anna → Anno, Kasia → Kasiu, Ola → Olu; names outside the -a pattern do not change
+function femaleVocative(first: string) {
+  if (!first.endsWith('a')) return first;
+  if (/(si|zi|ci|dzi|[^o]ni)a$/.test(first) || /^(ola|ela|ula)$/i.test(first)) return `${first.slice(0, -1)}u`;
+  return `${first.slice(0, -1)}o`;
+}
+
+function maleVocative(first: string) {
+  const rule = MALE_VOCATIVE.find(([pattern]) => pattern.test(first));
+  return rule ? first.replace(rule[0], rule[1]) : first;
+}
+
+// "Szanowna Pani Anno", "Szanowny Panie Janie", "Dear Anna", "Guten Tag Anna Nowak";
+// senders whose name does not look like a person's are greeted collectively
+export function greetingFor(customerName: string, language: ReplyLanguage) {
+  const person = personName(customerName);
+  switch (language) {
+    case 'pl':
+      if (!person) return 'Szanowni Państwo';
+      return isFemaleName(person.first)
+        ? `Szanowna Pani ${femaleVocative(person.first)}`
+        : `Szanowny Panie ${maleVocative(person.first)}`;
+    case 'en':
+      return person ? `Dear ${person.first}` : 'Dear Sir or Madam';
+    case 'de':
+      return person ? `Guten Tag ${[person.first, person.last].filter(Boolean).join(' ')}` : 'Sehr geehrte Damen und Herren';
+  }
+}
+
+function fieldValue(tag: Tag, context: TemplateContext): string {
+  switch (tag.name) {
+    case 'greeting':
+      return greetingFor(context.customerName, context.language);
+    case 'customerName':
+      return context.customerName;
+    case 'firstName':
+      return personName(context.customerName)?.first ?? '';
+    case 'companyName':
+      return context.companyName;
+    case 'contactEmail':
+      return context.contactEmail;
+    case 'category':
+      return CATEGORY_NAMES[context.language][context.category] ?? context.category;
+    case 'subject':
+      return context.subject;
+    case 'availableFrom':
+      return formatDate(context.availableFrom, context.language);
+    case 'priceRange': {
+      // Services missing from the catalogue or no longer valid render as nothing, so {{#if}} can fall back
+      const service = tag.args.service.toLowerCase();
+      const entry = context.prices.find((price) => serviceNames(price).some((name) => name.toLowerCase() === service));
+      return entry ? formatPriceRange(entry) : '';
+    }
+    case 'answer':
+      return ANSWER_SLOT;
+    default:
+      throw new TemplateError(`Unknown template fields: ${tag.name}`);
+  }
+}
+
+// A condition compares the category by its id, as in {{#if category="pricing"}}; any other field holds when not empty
+function holds(tag: Tag, context: TemplateContext) {
+  if (tag.equals !== undefined) {
+    const value = tag.name === 'category' ? context.category : fieldValue(tag, context);
+    return value === tag.equals;
+  }
+  return fieldValue(tag, context) !== '';
+}
+
+function renderNodes(nodes: TemplateNode[], context: TemplateContext): string {
+  return nodes.map((node) => {
+    switch (node.type) {
+      case 'text':
+        return node.text;
+      case 'field':
+        return fieldValue(node.tag, context);
+      case 'if':
+        return renderNodes(holds(node.tag, context) ? node.then : node.otherwise, context);
+    }
+  }).join('');
+}
+
+// Fills in the merge fields; {{answer}} is kept as ANSWER_SLOT for the drafted answer
+export function renderTemplate(source: string, context: TemplateContext): string {
+  const nodes = parse(source);
+  check(nodes);
+  return renderNodes(nodes, context);
+}
+
+// Puts the answer in the slot of a rendered template, or returns it alone when there is no slot
+export function frameAnswer(rendered: string, answer: string) {
+  const [before, after] = splitFrame(rendered);
+  return `${before}${answer}${after}`;
+}
+
+// Template text before and after the answer slot
+export function splitFrame(rendered: string): [string, string] {
+  const index = rendered.indexOf(ANSWER_SLOT);
+  return index === -1 ? ['', ''] : [rendered.slice(0, index), rendered.slice(index + ANSWER_SLOT.length)];
+}
+
+// The context of an inquiry, with the prices valid today
+export async function templateContext(inquiry: Inquiry, config: AIConfig, availableFrom: string): Promise<TemplateContext> {
+  return {
+    customerName: inquiry.customerName,
+    companyName: config.companyName,
+    contactEmail: config.contactEmail,
+    category: inquiry.category,
+    subject: inquiry.subject,
+    availableFrom,
+    language: languageOf(inquiry),
+    prices: (await listPrices()).filter((entry) => isPriceActive(entry)),
+  };
+}
@@ -0,0 +1,270 @@
+// Shared shapes of the records kept in the KV store.
+
+export type ProviderName = 'openai' | 'anthropic' | 'ollama' | 'fake';
+
+export type DraftTone = 'formal' | 'friendly' | 'concise' | 'upsell';
+
+export type ReplyLanguage = 'pl' | 'en' | 'de';
+
+export interface AIConfig {
+  confidenceThreshold: number;
+  autoResponse: boolean;
+  // Per reply language; the signature is added to the reply when it is sent
+  responseTemplates: Record<ReplyLanguage, string>;
+  signatures: Record<ReplyLanguage, string>;
+  companyName: string;
+  contactEmail: string;
+  // Grace period in which a reviewer can still cancel an automatic reply
+  autoResponseDelayMinutes: number;
+  provider: ProviderName;
+  model: string;
+  // Endpoint override, e.g. an OpenAI-compatible proxy or a remote Ollama host
+  baseUrl?: string;
+  availability: Availability;
+  // Tones drafted for every inquiry; with none a single draft follows the response template
+  draftTones: DraftTone[];
+}
+
+// Team capacity from which drafts compute the earliest start date of a new project
+export interface Availability {
+  // Notice needed before a new project can start
+  leadInWeeks: number;
+  // Nothing starts before this day (YYYY-MM-DD), e.g. after a holiday break
+  earliestStartDate?: string;
+  // Weeks already taken at the start of a month, keyed YYYY-MM; 4 means fully booked
+  bookedWeeks: Record<string, number>;
+}
+
+export interface KnowledgeItem {
+  id: string;
+  title: string;
+  content: string;
+  createdAt?: string;
+  revision?: number;
+  updatedAt?: string;
+  updatedBy?: string;
+}
+
+// A saved state of a knowledge item; the whole history is stored under knowledge_history:<id>
+export interface KnowledgeRevision {
+  revision: number;
+  title: string;
+  content: string;
+  author: string;
+  changedAt: string;
+  action: 'created' | 'updated' | 'reverted';
+  revertedFrom?: number;
+}
+
+// A service in the price catalogue; drafts may only quote prices from these entries.
+// Amounts are in PLN, validity dates are inclusive YYYY-MM-DD days.
+export interface PriceListEntry {
+  id: string;
+  // The Polish name
+  service: string;
+  // Names in the other reply languages, matched against inquiries and quoted in replies in that language
+  aliases?: Partial<Record<ReplyLanguage, string>>;
+  minPrice: number;
+  maxPrice: number;
+  unit: string;
+  minLeadTimeWeeks?: number;
+  maxLeadTimeWeeks?: number;
+  validFrom?: string;
+  validTo?: string;
+  createdAt: string;
+  updatedAt?: string;
+}
+
+// A knowledge item or earlier inquiry that informed a draft, with the passage that matched
+export interface DraftSource {
+  type: 'knowledge' | 'inquiry';
+  id: string;
+  title: string;
+  snippet: string;
+  score: number;
+}
+
+export type DeliveryState = 'queued' | 'sent' | 'failed';
+
+export interface Delivery {
+  state: DeliveryState;
+  attempts: number;
+  outboxId: string;
+  messageId: string;
+  lastError?: string;
+  sentAt?: string;
+  nextAttemptAt?: string;
+}
+
+export type InquiryCategory = 'pricing' | 'timeline' | 'product' | 'general';
+
+// A message exchanged after the original inquiry: a customer follow-up or a reply we sent
+export interface ThreadMessage {
+  direction: 'inbound' | 'outbound';
+  messageId?: string;
+  from: string;
+  subject?: string;
+  text: string;
+  timestamp: string;
+}
+
+export interface Attachment {
+  id: string;
+  filename: string;
+  contentType: string;
+  size: number;
+  // Location in the attachment store
+  path: string;
+  // Email the file came with, when it was not the original inquiry
+  messageId?: string;
+  extractedText?: string;
+}
+
+// A monetary amount, duration or date quoted in a reply; start/end are character offsets
+export interface DraftFigure {
+  kind: 'amount' | 'duration' | 'date';
+  text: string;
+  start: number;
+  end: number;
+}
+
+// Result of checking the reply that would be sent against the knowledge base and price catalogue
+export interface FigureCheck {
+  field: 'aiSuggestion' | 'finalResponse';
+  // Figures found in no reference source; any of these blocks automatic sending
+  untraced: DraftFigure[];
+  checkedAt: string;
+}
+
+// A run of words that is unchanged, added or removed between two texts
+export interface DiffSegment {
+  type: 'equal' | 'added' | 'removed';
+  text: string;
+}
+
+// How much a reviewer changed the AI draft before sending it
+export interface ReviewerEdit {
+  // Word-level edit distance between the draft and the final response
+  distance: number;
+  // Distance as a percentage of the longer text's word count
+  ratio: number;
+  diff: DiffSegment[];
+  editedAt: string;
+}
+
+export type InquirySource = 'manual' | 'imap' | 'webhook';
+
+export type RejectionReason = 'wrong_information' | 'missing_information' | 'tone' | 'too_long' | 'other';
+
+// Why a reviewer rejected a draft and what the next version should do differently
+export interface Rejection {
+  reason: RejectionReason;
+  instructions?: string;
+  actor: string;
+  rejectedAt: string;
+}
+
+// A draft written in one tone; the reviewer picks one of the variants before approving
+export interface DraftVariant {
+  tone: DraftTone;
+  text: string;
+  confidence: number;
+  rawConfidence: number;
+}
+
+// One generated draft; every version is kept on the inquiry, oldest first
+export interface DraftVersion {
+  version: number;
+  text: string;
+  confidence?: number;
+  rawConfidence?: number;
+  provider?: ProviderName;
+  model?: string;
+  createdAt: string;
+  // Reviewer instructions the draft was regenerated with
+  guidance?: string;
+  rejection?: Rejection;
+  // The variant the text was taken from, and all variants drafted for this version
+  tone?: DraftTone;
+  variants?: DraftVariant[];
+}
+
+export type InquiryStatus =
+  | 'new'
+  | 'pending_review'
+  | 'needs_info'
+  | 'approved'
+  | 'sent'
+  | 'auto_sent'
+  | 'rejected'
+  | 'spam'
+  | 'closed'
+  | 'reopened';
+
+// One step in an inquiry's life; the actor is a reviewer's name or 'system'
+// Why the system moved an inquiry; stored as a code so the Dashboard can show it in the reviewer's language
+export type TransitionNoteCode = 'auto_send_cancelled' | 'follow_up' | 'new_version' | 'language_changed';
+
+export interface StatusTransition {
+  from: InquiryStatus;
+  to: InquiryStatus;
+  actor: string;
+  at: string;
+  // Written by the reviewer
+  note?: string;
+  noteCode?: TransitionNoteCode;
+}
+
+export interface Inquiry {
+  id: string;
+  customerName: string;
+  email: string;
+  subject: string;
+  message: string;
+  category: InquiryCategory;
+  // Category assigned by the classifier, kept when a reviewer corrects `category`
+  predictedCategory?: InquiryCategory;
+  categoryScore?: number;
+  detectedLanguage?: ReplyLanguage;
+  // The language drafts are written in: the detected one unless a reviewer changed it
+  language?: ReplyLanguage;
+  categoryCorrectedAt?: string;
+  status: InquiryStatus;
+  // Every status change, oldest first
+  statusHistory?: StatusTransition[];
+  timestamp: string;
+  source?: InquirySource;
+  // Message-ID header of the email the inquiry was created from
+  messageId?: string;
+  // Message-IDs of the conversation this email belonged to before it reached us
+  references?: string[];
+  // Follow-ups and sent replies, oldest first; the original message is not repeated here
+  thread?: ThreadMessage[];
+  attachments?: Attachment[];
+  aiSuggestion?: string;
+  drafts?: DraftVersion[];
+  variants?: DraftVariant[];
+  // Tone of the variant in aiSuggestion, once chosen by a reviewer or when only one tone was drafted
+  tone?: DraftTone;
+  finalResponse?: string;
+  edit?: ReviewerEdit;
+  // Calibrated probability, in percent, that the draft is approved without changes
+  confidence?: number;
+  // Score the provider gave the draft before calibration
+  rawConfidence?: number;
+  aiProvider?: ProviderName;
+  aiModel?: string;
+  // Knowledge items retrieved for the draft
+  knowledgeIds?: string[];
+  sources?: DraftSource[];
+  // Earliest start date (YYYY-MM-DD) the draft was given, so the figure check can trace it later
+  availableFrom?: string;
+  figureCheck?: FigureCheck;
+  // Set when the draft scored below the confidence threshold or quotes untraced figures
+  needsReview?: boolean;
+  autoSendAt?: string;
+  autoSendCancelledAt?: string;
+  delivery?: Delivery;
+  feedback?: string;
+  updatedAt?: string;
+}
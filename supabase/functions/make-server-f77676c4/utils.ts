@@ -0,0 +1,12 @@
+// Utility: parse JSON if string, otherwise pass-through
+export function asObject<T = any>(value: unknown): T {
+  if (value == null) return value as T;
+  if (typeof value === 'string') {
+    try {
+      return JSON.parse(value) as T;
+    } catch (_) {
+      return value as T;
+    }
+  }
+  return value as T;
+}
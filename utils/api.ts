@@ -0,0 +1,27 @@
+import { projectId, publicAnonKey, functionName } from './supabase/info';
+
+const API_BASE = `https://${projectId}.supabase.co/functions/v1/${functionName}`;
+
+// Sends an authorised request to the edge function and throws with the server's error message
+export async function apiFetch(endpoint: string, options?: RequestInit) {
+  const response = await fetch(`${API_BASE}${endpoint}`, {
+    ...options,
+    headers: {
+      'Content-Type': 'application/json',
+      'Authorization': `Bearer ${publicAnonKey}`,
+      ...options?.headers,
+    },
+  });
+
+  if (!response.ok) {
+    const errorData = await response.json().catch(() => ({ error: 'Network error' }));
+    throw new Error(errorData.error || `HTTP error! status: ${response.status}`);
+  }
+
+  return response;
+}
+
+export async function apiCall(endpoint: string, options?: RequestInit) {
+  const response = await apiFetch(endpoint, options);
+  return response.json();
+}